@@ -0,0 +1,955 @@
+/**
+ * Tests for the HTTP routes defined in src/app.ts.
+ * Requests go through app.request() with a mocked global fetch, so the
+ * full route -> service -> renderer path runs without real API calls.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+/* -------------------------------------------------- */
+/*  Helper: mock GitHub GraphQL + avatar responses     */
+/* -------------------------------------------------- */
+function mockGitHubResponse() {
+  return {
+    data: {
+      user: {
+        login: 'octocat',
+        name: 'The Octocat',
+        avatarUrl: 'https://avatars.githubusercontent.com/u/583231?v=4',
+        bio: 'GitHub mascot',
+        pronouns: null,
+        twitterUsername: null,
+        openPRs: { totalCount: 5 },
+        closedPRs: { totalCount: 10 },
+        mergedPRs: { totalCount: 20 },
+        openIssues: { totalCount: 3 },
+        closedIssues: { totalCount: 7 },
+        contributionsCollection: { totalCommitContributions: 500 },
+        repositories: {
+          totalCount: 8,
+          pageInfo: { hasNextPage: false, endCursor: null },
+          nodes: [
+            {
+              stargazers: { totalCount: 100 },
+              languages: {
+                edges: [{ size: 5000, node: { name: 'TypeScript', color: '#3178c6' } }],
+              },
+            },
+          ],
+        },
+      },
+    },
+  };
+}
+
+/** Stubs fetch so GraphQL calls get `graphql` and everything else gets a tiny PNG */
+function stubFetch(graphql: unknown = mockGitHubResponse()) {
+  const fetchMock = vi.fn().mockImplementation((url: string) => {
+    if (String(url).includes('/graphql')) {
+      return Promise.resolve({ ok: true, json: () => Promise.resolve(graphql) });
+    }
+    return Promise.resolve(
+      new Response(new Uint8Array([137, 80, 78, 71]), {
+        headers: { 'content-type': 'image/png' },
+      })
+    );
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+/** Stubs the contribution years query, then the aliased calendar query */
+function stubCalendar() {
+  const fetchMock = vi.fn().mockImplementation((_url: string, init: { body: string }) => {
+    const { query } = JSON.parse(init.body);
+    const data = query.includes('contributionYears')
+      ? {
+          user: {
+            login: 'octocat',
+            name: null,
+            contributionsCollection: { contributionYears: [2020] },
+          },
+        }
+      : {
+          user: {
+            y2020: {
+              contributionCalendar: {
+                weeks: [
+                  {
+                    contributionDays: [
+                      { date: '2020-06-01', contributionCount: 2 },
+                      { date: '2020-06-02', contributionCount: 3 },
+                    ],
+                  },
+                ],
+              },
+            },
+          },
+        };
+    return Promise.resolve({ ok: true, json: () => Promise.resolve({ data }) });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+/* -------------------------------------------------- */
+/*  Test suite                                         */
+/* -------------------------------------------------- */
+describe('GET /api/profile/:username', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  it('returns versioned profile JSON with caching headers', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/api/profile/octocat');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Cache-Control')).toContain('s-maxage=1800');
+    expect(res.headers.get('ETag')).toBeTruthy();
+
+    const body = await res.json();
+    expect(body.version).toBe(1);
+    expect(body.user.login).toBe('octocat');
+    expect(body.user.avatarDataUrl).toBeUndefined();
+    expect(body.stats.stars).toBe(100);
+    expect(body.languages[0].name).toBe('TypeScript');
+  });
+
+  it('reports cache status and age headers', async () => {
+    const fetchMock = stubFetch();
+    const { default: app } = await import('../src/app');
+
+    const first = await app.request('/api/profile/octocat');
+    expect(first.headers.get('X-Cache')).toBe('MISS');
+    expect(first.headers.get('Age')).toBe('0');
+
+    const second = await app.request('/api/profile/octocat');
+    expect(second.headers.get('X-Cache')).toBe('HIT');
+    expect(Number(second.headers.get('Age'))).toBeGreaterThanOrEqual(0);
+    // One GraphQL call and one avatar download, both from the first request
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('honors the fields filter', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    const body = await (await app.request('/api/profile/octocat?fields=stats')).json();
+    expect(body.stats).toBeDefined();
+    expect(body.languages).toBeUndefined();
+  });
+
+  it('answers 304 when If-None-Match matches the ETag', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    const first = await app.request('/api/profile/octocat');
+    const tag = first.headers.get('ETag')!;
+    const second = await app.request('/api/profile/octocat', {
+      headers: { 'If-None-Match': tag },
+    });
+    expect(second.status).toBe(304);
+  });
+
+  it('rejects invalid usernames and fields', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    expect((await app.request('/api/profile/not%20valid')).status).toBe(400);
+    expect((await app.request('/api/profile/octocat?fields=bogus')).status).toBe(400);
+  });
+
+  it('maps a missing user to 404', async () => {
+    stubFetch({ data: { user: null } });
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/api/profile/ghost');
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('GET /card/:username errors', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  it('renders a themed SVG error card for an unknown user', async () => {
+    stubFetch({ data: { user: null } });
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/card/ghost?theme=dark');
+    expect(res.status).toBe(404);
+    expect(res.headers.get('Content-Type')).toBe('image/svg+xml');
+    const svg = await res.text();
+    expect(svg).toContain('Error 404');
+    expect(svg).toContain('#151515');
+  });
+
+  it('keeps JSON errors for clients that accept JSON', async () => {
+    stubFetch({ data: { user: null } });
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/card/ghost', { headers: { Accept: 'application/json' } });
+    expect(res.status).toBe(404);
+    expect((await res.json()).error).toContain('not found');
+  });
+
+  it('renders validation errors as cards too', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/card/octocat?bg_color=nothex');
+    expect(res.status).toBe(400);
+    expect(await res.text()).toContain('Invalid hex color for bg_color');
+  });
+});
+
+describe('GET /card/:username stats row', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  it('selects and orders stats with show_stats and hide_stats', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    const svg = await (
+      await app.request('/card/octocat?show_stats=prs,Stars,repos&hide_stats=repos')
+    ).text();
+    const labels = [...svg.matchAll(/class="stat-label">([^<]+)</g)].map((m) => m[1]);
+    expect(labels).toEqual(['PRs', 'Stars']);
+
+    const res = await app.request('/card/octocat?show_stats=stars,karma&hide_stats=bogus');
+    expect(res.status).toBe(400);
+    expect(await res.text()).toContain('karma, bogus');
+  });
+
+  it('adds the rank, computed with the extra metrics, to the card and JSON', async () => {
+    const response = mockGitHubResponse();
+    Object.assign(response.data.user, { followers: { totalCount: 10 } });
+    const fetchMock = stubFetch(response);
+    const { default: app } = await import('../src/app');
+
+    const svg = await (await app.request('/card/octocat?show_rank=true')).text();
+    expect(svg).toContain('class="rank"');
+
+    const body = await (await app.request('/api/profile/octocat?show_rank=true')).json();
+    expect(body.stats.followers).toBe(10);
+    expect(body.rank.level).toMatch(/^(S|A\+|A|B\+|B|C)$/);
+    expect(body.rank.percentile).toBeGreaterThan(0);
+
+    const plain = await (await app.request('/api/profile/octocat')).json();
+    expect(plain.rank).toBeUndefined();
+    const extraQueries = fetchMock.mock.calls.filter(([, init]) =>
+      init?.body?.includes('query extraStats')
+    );
+    expect(extraQueries).toHaveLength(1);
+  });
+
+  it('rejects an unknown commits_range', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    for (const range of ['decade', '1999', '3000']) {
+      const res = await app.request(`/card/octocat?commits_range=${range}`);
+      expect(res.status).toBe(400);
+      expect(await res.text()).toContain('Invalid commits_range');
+    }
+    expect((await app.request('/card/octocat?commits_range=rolling365')).status).toBe(200);
+  });
+
+  it('validates locale and falls back to a supported tag', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/card/octocat?locale=xx');
+    expect(res.status).toBe(400);
+    expect(await res.text()).toContain('Invalid locale');
+
+    const svg = await (await app.request('/card/octocat?locale=ja-JP')).text();
+    expect(svg).toContain('スター');
+    expect(svg).toContain('主要言語');
+  });
+
+  it('mirrors RTL locales unless rtl=false', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    const svg = await (await app.request('/card/octocat?locale=ar')).text();
+    expect(svg).toContain('text-anchor="end" class="title"');
+
+    const ltr = await (await app.request('/card/octocat?locale=ar&rtl=false')).text();
+    expect(ltr).toContain('النجوم');
+    expect(ltr).not.toContain('text-anchor="end"');
+    expect(await (await app.request('/card/octocat?rtl=true')).text()).toContain(
+      'text-anchor="end"'
+    );
+  });
+
+  it('fetches the extra metrics only when one of them is shown', async () => {
+    const response = mockGitHubResponse();
+    Object.assign(response.data.user, {
+      followers: { totalCount: 4200 },
+      sponsors: { totalCount: 3 },
+    });
+    const fetchMock = stubFetch(response);
+    const { default: app } = await import('../src/app');
+    const extraQueries = () =>
+      fetchMock.mock.calls.filter(([, init]) => init?.body?.includes('query extraStats')).length;
+
+    await app.request('/card/octocat?show_stats=stars,commits');
+    expect(extraQueries()).toBe(0);
+
+    const svg = await (await app.request('/card/octocat?show_stats=followers,sponsors')).text();
+    expect(extraQueries()).toBe(1);
+    const labels = [...svg.matchAll(/class="stat-label">([^<]+)</g)].map((m) => m[1]);
+    expect(labels).toEqual(['Followers', 'Sponsors']);
+    expect(svg).toContain('4.2k');
+
+    // Cached apart from the profile, so a second card reuses them
+    const again = await (await app.request('/card/octocat?show_stats=stars,contributedto')).text();
+    expect(again).toContain('Contributed to');
+    expect(extraQueries()).toBe(1);
+  });
+});
+
+describe('GET /streak/:username', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  it('renders the streak card from the contribution calendar', async () => {
+    const fetchMock = stubCalendar();
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/streak/octocat?tz=Europe/Berlin');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('image/svg+xml');
+    expect(res.headers.get('X-Cache')).toBe('MISS');
+    const svg = await res.text();
+    expect(svg).toContain('Longest Streak');
+    expect(svg).toContain('Jun 1, 2020 - Jun 2, 2020');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects an unknown time zone', async () => {
+    stubCalendar();
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/streak/octocat?tz=Nowhere/Land');
+    expect(res.status).toBe(400);
+    expect(await res.text()).toContain('Invalid time zone');
+  });
+});
+
+describe('GET /heatmap/:username', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  it('renders the contribution calendar for a year', async () => {
+    stubCalendar();
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/heatmap/octocat?year=2020&cell=square&week_start=mon');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('image/svg+xml');
+    expect(await res.text()).toContain('5 contributions in 2020');
+  });
+
+  it('rejects invalid range and layout options', async () => {
+    stubCalendar();
+    const { default: app } = await import('../src/app');
+
+    for (const query of ['year=1999', 'months=13', 'week_start=fri', 'cell=hexagon']) {
+      const res = await app.request(`/heatmap/octocat?${query}`);
+      expect(res.status).toBe(400);
+    }
+  });
+
+  it('accepts "#"-prefixed colors in the ramp', async () => {
+    stubCalendar();
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request(
+      '/heatmap/octocat?year=2020&icon_color=%23abcdef&bg_color=%23000000'
+    );
+    expect(res.status).toBe(200);
+    const svg = await res.text();
+    expect(svg).toContain('fill="#abcdef"');
+    expect(svg).not.toContain('##');
+    expect(svg).not.toContain('NaN');
+  });
+});
+
+describe('GET /repos/:username', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  /** GraphQL payload with two owned repositories */
+  function mockRepositories() {
+    const repo = (name: string, stars: number, forkCount: number, isPrivate = false) => ({
+      name,
+      isPrivate,
+      description: `${name} description`,
+      stargazers: { totalCount: stars },
+      forkCount,
+      updatedAt: '2026-01-01T00:00:00Z',
+      primaryLanguage: { name: 'TypeScript', color: '#3178c6' },
+    });
+    return {
+      data: {
+        user: {
+          login: 'octocat',
+          name: 'The Octocat',
+          repositories: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            nodes: [repo('hello-world', 50, 1), repo('spoon-knife', 10, 40)],
+          },
+        },
+      },
+    };
+  }
+
+  it('renders the top repositories with sort, exclude and count', async () => {
+    stubFetch(mockRepositories());
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/repos/octocat?sort=forks&count=1');
+    expect(res.status).toBe(200);
+    const svg = await res.text();
+    expect(svg).toContain('spoon-knife');
+    expect(svg).not.toContain('hello-world');
+
+    const excluded = await (await app.request('/repos/octocat?exclude=hello-world')).text();
+    expect(excluded).not.toContain('>hello-world<');
+  });
+
+  it('rejects invalid sort and count values', async () => {
+    stubFetch(mockRepositories());
+    const { default: app } = await import('../src/app');
+
+    expect((await app.request('/repos/octocat?sort=name')).status).toBe(400);
+    expect((await app.request('/repos/octocat?count=0')).status).toBe(400);
+    expect((await app.request('/repos/octocat?count=11')).status).toBe(400);
+  });
+
+  it('leaves private repositories out of the card', async () => {
+    const payload = mockRepositories();
+    payload.data.user.repositories.nodes.push({
+      ...payload.data.user.repositories.nodes[0]!,
+      name: 'secret-plans',
+      isPrivate: true,
+    });
+    const fetchMock = stubFetch(payload);
+    const { default: app } = await import('../src/app');
+
+    const svg = await (await app.request('/repos/octocat')).text();
+    expect(svg).toContain('hello-world');
+    expect(svg).not.toContain('secret-plans');
+
+    const query = fetchMock.mock.calls.find(([, init]) =>
+      init?.body?.includes('query userRepositories')
+    );
+    expect(query?.[1].body).toContain('privacy: PUBLIC');
+  });
+});
+
+describe('GET /repo/:owner/:name', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  /** GraphQL payload for a single repository */
+  function mockRepository() {
+    return {
+      data: {
+        repository: {
+          name: 'hello-world',
+          owner: { login: 'octocat' },
+          description: 'My first repository',
+          isPrivate: false,
+          isArchived: false,
+          isFork: false,
+          stargazers: { totalCount: 2500 },
+          forkCount: 12,
+          issues: { totalCount: 3 },
+          primaryLanguage: { name: 'TypeScript', color: '#3178c6' },
+          licenseInfo: { spdxId: 'MIT', name: 'MIT License' },
+          latestRelease: { tagName: 'v1.2.0', publishedAt: '2026-03-05T12:00:00Z' },
+        },
+      },
+    };
+  }
+
+  it('renders the repository pin card', async () => {
+    stubFetch(mockRepository());
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/repo/octocat/hello-world');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('image/svg+xml');
+    const svg = await res.text();
+    expect(svg).toContain('hello-world');
+    expect(svg).toContain('My first repository');
+    expect(svg).toContain('2.5k');
+    expect(svg).toContain('MIT');
+    expect(svg).toContain('v1.2.0');
+  });
+
+  it('returns 404 when the repository does not exist', async () => {
+    stubFetch({ data: { repository: null } });
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/repo/octocat/missing');
+    expect(res.status).toBe(404);
+    expect(await res.text()).toContain('octocat/missing');
+  });
+
+  it('returns the same 404 for a private repository', async () => {
+    const payload = mockRepository();
+    payload.data.repository.isPrivate = true;
+    stubFetch(payload);
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/repo/octocat/hello-world');
+    expect(res.status).toBe(404);
+    const svg = await res.text();
+    expect(svg).toContain('octocat/hello-world');
+    expect(svg).not.toContain('My first repository');
+  });
+
+  it('rejects invalid owners and repository names', async () => {
+    stubFetch(mockRepository());
+    const { default: app } = await import('../src/app');
+
+    expect((await app.request('/repo/bad.owner/hello-world')).status).toBe(400);
+    expect((await app.request('/repo/octocat/bad%20name')).status).toBe(400);
+    expect((await app.request(`/repo/octocat/${'a'.repeat(101)}`)).status).toBe(400);
+  });
+});
+
+describe('GET /org/:login', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  /** GraphQL payload for an organization with two public repositories */
+  function mockOrganization() {
+    const repo = (stars: number, langs: Array<[string, number]>) => ({
+      stargazers: { totalCount: stars },
+      languages: {
+        edges: langs.map(([name, size]) => ({ size, node: { name, color: null } })),
+      },
+    });
+    return {
+      data: {
+        organization: {
+          login: 'github',
+          name: 'GitHub',
+          description: 'How people build software.',
+          avatarUrl: 'https://avatars.githubusercontent.com/u/9919?v=4',
+          membersWithRole: { totalCount: 42 },
+          publicRepos: { totalCount: 512 },
+          repositories: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            nodes: [
+              repo(1500, [
+                ['Ruby', 700],
+                ['Go', 100],
+              ]),
+              repo(500, [['Go', 400]]),
+            ],
+          },
+        },
+      },
+    };
+  }
+
+  it('renders the org card with totals and aggregated languages', async () => {
+    stubFetch(mockOrganization());
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/org/github');
+    expect(res.status).toBe(200);
+    const svg = await res.text();
+    expect(svg).toContain('GitHub');
+    expect(svg).toContain('How people build software.');
+    expect(svg).toContain('>512<');
+    expect(svg).toContain('>2k<');
+    expect(svg).toContain('>42<');
+    expect(svg).toContain('Ruby 58%');
+    expect(svg).toContain('Go 42%');
+  });
+
+  it('returns 404 when the organization does not exist', async () => {
+    stubFetch({ data: { organization: null } });
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/org/no-such-org');
+    expect(res.status).toBe(404);
+    expect(await res.text()).toContain('organization');
+  });
+
+  it('rejects invalid organization logins', async () => {
+    stubFetch(mockOrganization());
+    const { default: app } = await import('../src/app');
+
+    expect((await app.request('/org/-github')).status).toBe(400);
+    expect((await app.request('/org/git--hub')).status).toBe(400);
+    expect((await app.request('/org/git_hub')).status).toBe(400);
+  });
+});
+
+describe('GET /team', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  /**
+   * Stubs one profile per login (stars = `stars[login]`); logins missing
+   * from `stars` are reported as not found. Tracks the peak number of
+   * concurrent GraphQL calls.
+   */
+  function stubTeam(stars: Record<string, number>) {
+    const tracker = { running: 0, peak: 0 };
+    const fetchMock = vi.fn().mockImplementation(async (url: string, init: { body: string }) => {
+      if (!String(url).includes('/graphql')) {
+        return new Response(new Uint8Array([137, 80, 78, 71]), {
+          headers: { 'content-type': 'image/png' },
+        });
+      }
+      tracker.running++;
+      tracker.peak = Math.max(tracker.peak, tracker.running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      tracker.running--;
+
+      const { login } = JSON.parse(init.body).variables;
+      const body = mockGitHubResponse();
+      if (!(login in stars)) return { ok: true, json: async () => ({ data: { user: null } }) };
+      body.data.user.login = login;
+      body.data.user.name = login.toUpperCase();
+      body.data.user.repositories.nodes[0]!.stargazers.totalCount = stars[login]!;
+      return { ok: true, json: async () => body };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return tracker;
+  }
+
+  it('renders a tile per user with a placeholder for failures', async () => {
+    stubTeam({ alice: 10, bob: 2500 });
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/team?users=alice,ghost,bob&sort=stars');
+    expect(res.status).toBe(200);
+    const svg = await res.text();
+    expect(svg).toContain('>ALICE<');
+    expect(svg).toContain('2.5k');
+    expect(svg).toContain('User not found');
+    expect(svg.indexOf('>BOB<')).toBeLessThan(svg.indexOf('>ALICE<'));
+    expect(svg.indexOf('>ALICE<')).toBeLessThan(svg.indexOf('>ghost<'));
+    // A placeholder may be a transient failure, so the card is cached briefly
+    expect(res.headers.get('Cache-Control')).toContain('s-maxage=60');
+
+    const full = await app.request('/team?users=alice,bob');
+    expect(full.headers.get('Cache-Control')).toContain('s-maxage=1800');
+  });
+
+  it('fetches users with bounded concurrency', async () => {
+    const logins = Array.from({ length: 12 }, (_, i) => `user${i}`);
+    const tracker = stubTeam(Object.fromEntries(logins.map((l) => [l, 1])));
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request(`/team?users=${logins.join(',')}`);
+    expect(res.status).toBe(200);
+    expect(tracker.peak).toBeGreaterThan(1);
+    expect(tracker.peak).toBeLessThanOrEqual(4);
+  });
+
+  it('returns the error card when every user fails', async () => {
+    stubTeam({});
+    const { default: app } = await import('../src/app');
+
+    expect((await app.request('/team?users=ghost,phantom')).status).toBe(404);
+  });
+
+  it('rejects missing, invalid or too many users and bad options', async () => {
+    stubTeam({ alice: 1 });
+    const { default: app } = await import('../src/app');
+
+    const tooMany = Array.from({ length: 31 }, (_, i) => `u${i}`).join(',');
+    expect((await app.request('/team')).status).toBe(400);
+    expect((await app.request('/team?users=alice,bad.name')).status).toBe(400);
+    expect((await app.request(`/team?users=${tooMany}`)).status).toBe(400);
+    expect((await app.request('/team?users=alice&columns=7')).status).toBe(400);
+    expect((await app.request('/team?users=alice&sort=followers')).status).toBe(400);
+  });
+});
+
+describe('GET /compare/:userA/:userB', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  /** Stubs a profile per login; logins not in `known` are not found */
+  function stubUsers(known: string[]) {
+    const fetchMock = vi.fn().mockImplementation(async (url: string, init: { body: string }) => {
+      if (!String(url).includes('/graphql')) {
+        return new Response(new Uint8Array([137, 80, 78, 71]), {
+          headers: { 'content-type': 'image/png' },
+        });
+      }
+      const { login } = JSON.parse(init.body).variables;
+      if (!known.includes(login)) return { ok: true, json: async () => ({ data: { user: null } }) };
+      const body = mockGitHubResponse();
+      body.data.user.login = login;
+      body.data.user.name = login.toUpperCase();
+      return { ok: true, json: async () => body };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  }
+
+  it('renders both users with their languages', async () => {
+    stubUsers(['alice', 'bob']);
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/compare/alice/bob');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Cache-Control')).toContain('s-maxage=1800');
+    const svg = await res.text();
+    expect(svg).toContain('>ALICE<');
+    expect(svg).toContain('>BOB<');
+    expect(svg).toContain('TypeScript');
+  });
+
+  it('renders a placeholder when one user fails, and an error when both do', async () => {
+    stubUsers(['alice']);
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/compare/alice/ghost');
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain('User not found');
+    expect(res.headers.get('Cache-Control')).toContain('s-maxage=60');
+
+    expect((await app.request('/compare/ghost/phantom')).status).toBe(404);
+  });
+
+  it('rejects invalid or identical users', async () => {
+    stubUsers(['alice']);
+    const { default: app } = await import('../src/app');
+
+    expect((await app.request('/compare/alice/bad.name')).status).toBe(400);
+    expect((await app.request('/compare/alice/ALICE')).status).toBe(400);
+  });
+});
+
+describe('GET /langs/:username', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  it('renders the languages card in each layout', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    for (const layout of ['bar', 'donut', 'pie', 'list', 'compact']) {
+      const res = await app.request(`/langs/octocat?layout=${layout}`);
+      expect(res.status).toBe(200);
+      const svg = await res.text();
+      expect(svg).toContain('Most Used Languages');
+      expect(svg).toContain('TypeScript');
+    }
+  });
+
+  it('rejects invalid layouts and language counts', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    expect((await app.request('/langs/octocat?layout=radar')).status).toBe(400);
+    expect((await app.request('/langs/octocat?langs_count=0')).status).toBe(400);
+    expect((await app.request('/langs/octocat?langs_count=21')).status).toBe(400);
+    expect((await app.request('/card/octocat?langs_count=abc')).status).toBe(400);
+    expect((await app.request('/api/profile/octocat?langs_count=99')).status).toBe(400);
+  });
+
+  it('applies language filters and aliases', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    const aliased = await app.request('/api/profile/octocat?lang_alias=JS/TS:TypeScript|TSX');
+    expect((await aliased.json()).languages.map((l: { name: string }) => l.name)).toEqual([
+      'JS/TS',
+    ]);
+
+    const hidden = await app.request('/api/profile/octocat?hide_langs=typescript');
+    expect((await hidden.json()).languages).toEqual([]);
+
+    const svg = await (await app.request('/langs/octocat?hide_langs=TypeScript')).text();
+    expect(svg).toContain('No languages to show');
+  });
+
+  it('rejects malformed language filters', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    expect((await app.request('/langs/octocat?lang_alias=Python')).status).toBe(400);
+    expect((await app.request('/card/octocat?lang_alias=:Jupyter%20Notebook')).status).toBe(400);
+    expect((await app.request('/api/profile/octocat?lang_alias=Python:')).status).toBe(400);
+    const many = Array.from({ length: 31 }, (_, i) => `L${i}`).join(',');
+    expect((await app.request(`/langs/octocat?hide_langs=${many}`)).status).toBe(400);
+  });
+
+  it('escapes alias names on the card and rejects markup in them', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    const svg = await (await app.request("/card/octocat?lang_alias=Ren'Py:TypeScript")).text();
+    expect(svg).toContain('class="lang">Ren&#39;Py 100%</text>');
+
+    const alias = encodeURIComponent('<script>alert(1)</script>:TypeScript');
+    const res = await app.request(`/card/octocat?lang_alias=${alias}`);
+    expect(res.status).toBe(400);
+    const body = await res.text();
+    expect(body).toContain('Invalid lang_alias name');
+    expect(body).not.toContain('<script>');
+  });
+
+  it('validates the language weighting parameters', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request(
+      '/langs/octocat?lang_weighting=blend&size_weight=1&count_weight=2'
+    );
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain('blended');
+
+    expect((await app.request('/langs/octocat?lang_weighting=stars')).status).toBe(400);
+    expect((await app.request('/card/octocat?lang_weighting=blend&size_weight=5')).status).toBe(
+      400
+    );
+    expect(
+      (await app.request('/api/profile/octocat?lang_weighting=blend&count_weight=-1')).status
+    ).toBe(400);
+    // Exponents only tune the blend
+    expect((await app.request('/card/octocat?lang_weighting=size&size_weight=9')).status).toBe(200);
+  });
+
+  it('applies lang_colors overrides and rejects malformed pairs', async () => {
+    stubFetch();
+    const { default: app } = await import('../src/app');
+
+    const svg = await (await app.request('/langs/octocat?lang_colors=typescript:ff0000')).text();
+    expect(svg).toContain('fill="#ff0000"');
+    expect(svg).not.toContain('#3178c6');
+
+    const card = await app.request('/card/octocat?lang_colors=TypeScript:00ff00&lang_icons=true');
+    expect(card.status).toBe(200);
+    expect(await card.text()).toContain('fill="#00ff00"');
+
+    expect((await app.request('/langs/octocat?lang_colors=TypeScript:red')).status).toBe(400);
+    expect((await app.request('/card/octocat?lang_colors=ff0000')).status).toBe(400);
+  });
+});
+
+describe('GET /health', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['HEALTH_TOKEN'];
+  });
+
+  it('reports only the aggregate token pool state', async () => {
+    const { default: app } = await import('../src/app');
+
+    const res = await app.request('/health');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.status).toBe('ok');
+    expect(body.tokens).toBe('healthy');
+    expect(JSON.stringify(body)).not.toMatch(/remaining|resetAt|"id"/);
+  });
+
+  it('hides the per-token view unless HEALTH_TOKEN is configured', async () => {
+    const { default: app } = await import('../src/app');
+    expect((await app.request('/health/tokens')).status).toBe(404);
+  });
+
+  it('serves the per-token view only with the operator bearer token', async () => {
+    process.env['HEALTH_TOKEN'] = 'operator-secret';
+    const { default: app } = await import('../src/app');
+
+    expect((await app.request('/health/tokens')).status).toBe(401);
+    const wrong = { headers: { Authorization: 'Bearer guess' } };
+    expect((await app.request('/health/tokens', wrong)).status).toBe(401);
+
+    const res = await app.request('/health/tokens', {
+      headers: { Authorization: 'Bearer operator-secret' },
+    });
+    expect(res.status).toBe(200);
+    const { tokens } = await res.json();
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0].state).toBe('available');
+    expect(JSON.stringify(tokens)).not.toContain('ghp_');
+  });
+});
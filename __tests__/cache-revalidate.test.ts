@@ -0,0 +1,95 @@
+/**
+ * Tests for stale-while-revalidate reads in src/services/cache/revalidate.ts.
+ * Runs against the in-memory store with a controllable clock.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+/** Fresh for 60 seconds, then servable stale for another 600 */
+const POLICY = { ttlSeconds: 60, staleSeconds: 600 };
+
+describe('cachedFetch', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['CACHE_STORES'] = 'memory';
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('loads on a miss and serves fresh hits with their age', async () => {
+    const { cachedFetch } = await import('../src/services/cache/revalidate');
+    const load = vi.fn().mockResolvedValue('v1');
+
+    expect(await cachedFetch('k', load, POLICY)).toEqual({ value: 'v1', status: 'MISS', age: 0 });
+
+    vi.setSystemTime(Date.now() + 30_000);
+    expect(await cachedFetch('k', load, POLICY)).toEqual({ value: 'v1', status: 'HIT', age: 30 });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves stale values while a single background refresh runs', async () => {
+    const { cachedFetch } = await import('../src/services/cache/revalidate');
+    await cachedFetch('k', () => Promise.resolve('v1'), POLICY);
+    vi.setSystemTime(Date.now() + 120_000);
+
+    let finish!: (value: string) => void;
+    const refresh = vi.fn(() => new Promise<string>((resolve) => (finish = resolve)));
+
+    const [a, b] = await Promise.all([
+      cachedFetch('k', refresh, POLICY),
+      cachedFetch('k', refresh, POLICY),
+    ]);
+    expect(a).toEqual({ value: 'v1', status: 'STALE', age: 120 });
+    expect(b.status).toBe('STALE');
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    finish('v2');
+    await vi.waitFor(async () => {
+      expect(await cachedFetch('k', refresh, POLICY)).toMatchObject({ value: 'v2', status: 'HIT' });
+    });
+  });
+
+  it('keeps serving the stale value when the refresh fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { cachedFetch } = await import('../src/services/cache/revalidate');
+    await cachedFetch('k', () => Promise.resolve('v1'), POLICY);
+    vi.setSystemTime(Date.now() + 120_000);
+
+    const failing = vi.fn().mockRejectedValue(new Error('GitHub down'));
+    expect((await cachedFetch('k', failing, POLICY)).status).toBe('STALE');
+    await vi.waitFor(() => expect(console.warn).toHaveBeenCalled());
+
+    expect(await cachedFetch('k', failing, POLICY)).toMatchObject({
+      value: 'v1',
+      status: 'STALE',
+    });
+  });
+
+  it('loads live once the grace window has passed', async () => {
+    const { cachedFetch } = await import('../src/services/cache/revalidate');
+    await cachedFetch('k', () => Promise.resolve('v1'), POLICY);
+    vi.setSystemTime(Date.now() + 700_000);
+
+    expect(await cachedFetch('k', () => Promise.resolve('v2'), POLICY)).toEqual({
+      value: 'v2',
+      status: 'MISS',
+      age: 0,
+    });
+  });
+
+  it('treats values rejected by the validator as misses', async () => {
+    const { cachedFetch } = await import('../src/services/cache/revalidate');
+    await cachedFetch('k', () => Promise.resolve('old'), POLICY);
+
+    const result = await cachedFetch('k', () => Promise.resolve('new'), {
+      ...POLICY,
+      validate: (v: string) => v !== 'old',
+    });
+    expect(result).toMatchObject({ value: 'new', status: 'MISS' });
+  });
+});
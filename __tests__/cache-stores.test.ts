@@ -0,0 +1,196 @@
+/**
+ * Tests for the cache store backends and the ordered cache chain.
+ * The same contract suite runs against every store that can be created
+ * in the test environment (SQLite needs a runtime that ships node:sqlite).
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { createFileStore } from '../src/services/cache/file';
+import { createMemoryStore } from '../src/services/cache/memory';
+import { createSqliteStore } from '../src/services/cache/sqlite';
+import type { CacheStore } from '../src/types';
+
+/** Whether this Node.js runtime ships the built-in node:sqlite module */
+const hasSqlite = await import('node:sqlite').then(
+  () => true,
+  () => false
+);
+
+const tempDir = await mkdtemp(path.join(tmpdir(), 'profile-card-cache-'));
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+/* -------------------------------------------------- */
+/*  Shared CacheStore contract                        */
+/* -------------------------------------------------- */
+const backends: Array<[string, () => CacheStore, boolean]> = [
+  ['memory', () => createMemoryStore(), true],
+  ['fs', () => createFileStore(path.join(tempDir, 'fs')), true],
+  ['sqlite', () => createSqliteStore(path.join(tempDir, 'cache.sqlite')), hasSqlite],
+];
+
+describe.each(backends)('%s store', (_name, create, available) => {
+  it.skipIf(!available)('stores and returns JSON values', async () => {
+    const store = create();
+    await store.set('profile:a', { stars: 1, langs: ['TS'] }, 60);
+    expect(await store.get('profile:a')).toEqual({ stars: 1, langs: ['TS'] });
+  });
+
+  it.skipIf(!available)('returns null for missing keys', async () => {
+    const store = create();
+    expect(await store.get('missing')).toBeNull();
+    expect(await store.ttl('missing')).toBeNull();
+  });
+
+  it.skipIf(!available)('reports the remaining TTL', async () => {
+    const store = create();
+    await store.set('profile:b', 1, 120);
+    const ttl = await store.ttl('profile:b');
+    expect(ttl).toBeGreaterThan(100);
+    expect(ttl).toBeLessThanOrEqual(120);
+  });
+
+  it.skipIf(!available)('expires entries after their TTL', async () => {
+    const store = create();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      await store.set('profile:c', 'v', 1);
+      vi.setSystemTime(Date.now() + 2000);
+      expect(await store.get('profile:c')).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it.skipIf(!available)('deletes entries', async () => {
+    const store = create();
+    await store.set('profile:d', 'v', 60);
+    await store.delete('profile:d');
+    expect(await store.get('profile:d')).toBeNull();
+  });
+});
+
+describe('memory store', () => {
+  it('evicts the oldest entries beyond its size limit', async () => {
+    const store = createMemoryStore(2);
+    await store.set('a', 1, 60);
+    await store.set('b', 2, 60);
+    await store.set('c', 3, 60);
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('c')).toBe(3);
+  });
+});
+
+/* -------------------------------------------------- */
+/*  Disk store bounds                                 */
+/* -------------------------------------------------- */
+const diskBackends: Array<[string, (max: number) => CacheStore, boolean]> = [
+  ['fs', (max) => createFileStore(path.join(tempDir, `fs-cap-${max}`), max), true],
+  ['sqlite', (max) => createSqliteStore(path.join(tempDir, `cap-${max}.sqlite`), max), hasSqlite],
+];
+
+describe.each(diskBackends)('%s store bounds', (name, create, available) => {
+  it.skipIf(!available)('evicts the oldest entries beyond its size limit', async () => {
+    const store = create(3);
+    for (const key of ['a', 'b', 'c', 'd', 'e']) await store.set(key, key, 60);
+    // Rewriting an entry makes it the most recent
+    await store.set('c', 'c2', 60);
+    await store.set('f', 'f', 60);
+
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('d')).toBeNull();
+    expect(await store.get('c')).toBe('c2');
+    expect(await store.get('e')).toBe('e');
+    expect(await store.get('f')).toBe('f');
+    if (name === 'fs') expect(await readdir(path.join(tempDir, 'fs-cap-3'))).toHaveLength(3);
+  });
+
+  it.skipIf(!available)('sweeps expired entries that are never read again', async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval'] });
+    try {
+      const store = create(10);
+      await store.set('old', 'v', 1);
+      await store.set('new', 'v', 3600);
+      vi.advanceTimersByTime(5 * 60 * 1000);
+      await vi.waitFor(async () => {
+        if (name === 'fs') expect(await readdir(path.join(tempDir, 'fs-cap-10'))).toHaveLength(1);
+      });
+      expect(await store.ttl('old')).toBeNull();
+      expect(await store.get('new')).toBe('v');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it.skipIf(!available)('indexes entries left on disk by an earlier process', async () => {
+    const dir = path.join(tempDir, `${name}-reopen`);
+    const open = () =>
+      name === 'fs' ? createFileStore(dir, 2) : createSqliteStore(`${dir}.sqlite`, 2);
+    const first = open();
+    await first.set('a', 1, 30);
+    await first.set('b', 2, 60);
+
+    const second = open();
+    await second.set('c', 3, 60);
+    expect(await second.get('a')).toBeNull();
+    expect(await second.get('b')).toBe(2);
+    expect(await second.get('c')).toBe(3);
+  });
+});
+
+/* -------------------------------------------------- */
+/*  Cache chain                                       */
+/* -------------------------------------------------- */
+describe('cache chain', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  it('defaults to memory only when Upstash is not configured', async () => {
+    delete process.env['CACHE_STORES'];
+    const { createCacheChain } = await import('../src/services/cache');
+    expect(createCacheChain().map((s) => s.name)).toEqual(['memory']);
+  });
+
+  it('builds the chain in CACHE_STORES order and skips unusable stores', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env['CACHE_STORES'] = 'memory, fs, redis, bogus';
+    process.env['CACHE_DIR'] = path.join(tempDir, 'chain');
+    const { createCacheChain } = await import('../src/services/cache');
+    expect(createCacheChain().map((s) => s.name)).toEqual(['memory', 'fs']);
+  });
+
+  it('backfills faster stores on a hit in a slower store', async () => {
+    process.env['CACHE_STORES'] = 'memory,fs';
+    process.env['CACHE_DIR'] = path.join(tempDir, 'backfill');
+
+    // Seed only the filesystem store, as if written before a restart
+    await createFileStore(path.join(tempDir, 'backfill')).set('profile:x', { n: 1 }, 300);
+
+    const { cacheGet } = await import('../src/services/cache');
+    expect(await cacheGet('profile:x')).toEqual({ n: 1 });
+
+    // Remove the file: the value must now come from the backfilled memory store
+    await rm(path.join(tempDir, 'backfill'), { recursive: true, force: true });
+    expect(await cacheGet('profile:x')).toEqual({ n: 1 });
+  });
+
+  it('skips values rejected by the validator', async () => {
+    process.env['CACHE_STORES'] = 'memory';
+    const { cacheGet, cacheSet } = await import('../src/services/cache');
+    await cacheSet('profile:old', { stats: {} }, 60);
+    expect(await cacheGet('profile:old', () => false)).toBeNull();
+  });
+});
@@ -6,7 +6,8 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { renderCard } from '../src/services/card';
+import { renderCard, renderErrorCard } from '../src/services/card';
+import { selectStats } from '../src/services/stats';
 import type { UserProfile, UserStats, LanguageStat } from '../src/types';
 
 /* -------------------------------------------------- */
@@ -30,6 +31,12 @@ const mockStats: UserStats = {
   repos: 56,
   prs: 78,
   issues: 90,
+  openPRs: 8,
+  closedPRs: 10,
+  mergedPRs: 60,
+  openIssues: 20,
+  closedIssues: 70,
+  mergeRate: 60 / 70,
   commits: 2500,
   commitYear: new Date().getUTCFullYear(),
 };
@@ -75,6 +82,14 @@ describe('renderCard', () => {
     expect(svg).toContain(`Commits (${year})`);
   });
 
+  it('escapes language names', () => {
+    const svg = renderCard(mockUser, mockStats, [
+      { name: '<script>alert(1)</script>', size: 1, color: '#000000' },
+    ]);
+    expect(svg).not.toContain('<script>');
+    expect(svg).toContain('&lt;script&gt;');
+  });
+
   it('includes language names', () => {
     const svg = renderCard(mockUser, mockStats, mockLangs);
     expect(svg).toContain('TypeScript');
@@ -82,6 +97,23 @@ describe('renderCard', () => {
     expect(svg).toContain('Rust');
   });
 
+  it('computes shares from language weights and names the weighting metric', () => {
+    const weighted = mockLangs.map((l, i) => ({ ...l, weight: i === 0 ? 3 : 1 }));
+    const svg = renderCard(mockUser, mockStats, weighted, { lang_weighting: 'repo_count' });
+    expect(svg).toContain('TypeScript 60%');
+    expect(svg).toContain('Top Languages · % of repos');
+    expect(renderCard(mockUser, mockStats, mockLangs)).not.toContain('% of bytes');
+  });
+
+  it('draws bundled language logos instead of dots with lang_icons', () => {
+    const langs = [...mockLangs, { name: 'Zig', size: 100, color: '#ec915c' }];
+    const svg = renderCard(mockUser, mockStats, langs, { lang_icons: true });
+    expect(svg).toContain('>TS<');
+    // Languages without a logo keep their colored dot
+    expect(svg).toContain('r="4" fill="#ec915c"');
+    expect(renderCard(mockUser, mockStats, langs)).not.toContain('>TS<');
+  });
+
   it('includes bio text when not compact', () => {
     const svg = renderCard(mockUser, mockStats, mockLangs, { compact: false });
     expect(svg).toContain('Open source developer and coffee lover');
@@ -136,3 +168,151 @@ describe('renderCard', () => {
     expect(svg).toContain('</svg>');
   });
 });
+
+/* -------------------------------------------------- */
+/*  Stats row selection and layout                    */
+/* -------------------------------------------------- */
+describe('stats row', () => {
+  /** Stat labels in the order they appear in the SVG */
+  const labels = (svg: string) =>
+    [...svg.matchAll(/class="stat-label">([^<]+)</g)].map((m) => m[1]);
+
+  it('shows the default stats in their usual order', () => {
+    const svg = renderCard(mockUser, mockStats, mockLangs);
+    expect(labels(svg)).toEqual([
+      'Stars',
+      `Commits (${mockStats.commitYear})`,
+      'Issues',
+      'Repos',
+      'PRs',
+    ]);
+  });
+
+  it('shows only the selected stats, in the given order, spread across the width', () => {
+    const svg = renderCard(mockUser, mockStats, mockLangs, { stats: ['prs', 'stars'] });
+    expect(labels(svg)).toEqual(['PRs', 'Stars']);
+    const offsets = [...svg.matchAll(/<g transform="translate\((\d+),0\)">/g)].map((m) =>
+      Number(m[1])
+    );
+    expect(offsets[0]).toBe(0);
+    // The last item ends at the right edge of the 456px content area
+    expect(offsets[1]).toBeGreaterThan(350);
+  });
+
+  it('omits the stats row when no stats are selected', () => {
+    const svg = renderCard(mockUser, mockStats, mockLangs, { stats: [] });
+    expect(svg).not.toContain('class="stat-label"');
+    expect(Number(svg.match(/height="(\d+)"/)![1])).toBeLessThan(
+      Number(renderCard(mockUser, mockStats, mockLangs).match(/height="(\d+)"/)![1])
+    );
+  });
+
+  it('names the window the commits cover', () => {
+    const label = (stats: Partial<UserStats>) =>
+      labels(renderCard(mockUser, { ...mockStats, ...stats }, mockLangs, { stats: ['commits'] }));
+    expect(label({ commitYear: 2020 })).toEqual(['Commits (2020)']);
+    expect(label({ commitsRange: 'rolling365' })).toEqual(['Commits (last 365 days)']);
+    expect(label({ commitsRange: 'all_time' })).toEqual(['Commits (all time)']);
+  });
+
+  it('shows the rank ring with show_rank', () => {
+    expect(renderCard(mockUser, mockStats, mockLangs)).not.toContain('class="rank"');
+    const svg = renderCard(
+      { ...mockUser, name: 'A Rather Long Display Name Indeed' },
+      { ...mockStats, followers: 50, reviews: 10 },
+      mockLangs,
+      { show_rank: true }
+    );
+    expect(svg).toMatch(/class="rank">(S|A\+|A|B\+|B|C)<\/text>/);
+    // Long names are shortened so they stop before the ring
+    expect(svg).toContain('A Rather Long Display N\u2026');
+  });
+
+  it('splits PRs and issues into state bars with pr_breakdown', () => {
+    expect(renderCard(mockUser, mockStats, mockLangs)).not.toContain('<title>Merged');
+
+    const svg = renderCard(mockUser, mockStats, mockLangs, {
+      stats: ['prs', 'issues', 'mergeRate'],
+      pr_breakdown: true,
+    });
+    const segments = [...svg.matchAll(/<title>([^<]+)<\/title><\/rect>/g)].map((m) => m[1]);
+    expect(segments).toEqual(['Open: 8', 'Merged: 60', 'Closed: 10', 'Open: 20', 'Closed: 70']);
+    // 60 merged of 70 resolved
+    expect(svg).toContain('>86%</text>');
+  });
+
+  it('translates labels and formats numbers for the locale', () => {
+    const svg = renderCard(mockUser, { ...mockStats, stars: 1_234_567 }, mockLangs, {
+      stats: ['stars', 'commits', 'mergeRate'],
+      locale: 'de',
+    });
+    expect(labels(svg)).toEqual(['Sterne', `Commits (${mockStats.commitYear})`, 'Merge-Rate']);
+    expect(svg).toContain('1,2\u00a0Mio.');
+    expect(svg).toContain('86\u00a0%');
+    expect(svg).toContain('Top-Sprachen');
+    expect(svg).toContain('<title>GitHub-Statistiken von Test User</title>');
+
+    const weighted = renderCard(mockUser, mockStats, mockLangs, {
+      locale: 'ja',
+      lang_weighting: 'repo_count',
+    });
+    expect(weighted).toContain('主要言語 · リポジトリ比');
+  });
+
+  it('mirrors the layout for right-to-left locales', () => {
+    const svg = renderCard(mockUser, mockStats, mockLangs, {
+      locale: 'he',
+      stats: ['stars', 'prs'],
+    });
+    // Avatar on the right (500 - 22 - 72), text anchored at its right end
+    expect(svg).toContain(
+      '<image href="https://avatars.githubusercontent.com/u/12345?v=4" x="406"'
+    );
+    expect(svg).toMatch(
+      /<text x="390" y="44" text-anchor="end" class="title">\u2068Test User\u2069/
+    );
+    // The first stat takes the right end of the row, the last the left
+    const offsets = [...svg.matchAll(/<g transform="translate\((\d+),0\)">\s*<g/g)].map((m) =>
+      Number(m[1])
+    );
+    expect(offsets[0]).toBeGreaterThan(350);
+    expect(offsets[1]).toBe(0);
+    expect(labels(svg)).toEqual(['\u2068כוכבים\u2069', '\u2068בקשות משיכה\u2069']);
+    // Language labels flow leftwards from the right edge
+    expect(svg).toMatch(
+      /<text x="465" y="\d+" text-anchor="end" class="lang">\u2068TypeScript 50%/
+    );
+
+    const ltr = renderCard(mockUser, mockStats, mockLangs, { locale: 'he', rtl: false });
+    expect(ltr).not.toContain('text-anchor="end"');
+    expect(renderCard(mockUser, mockStats, mockLangs, { rtl: true })).toContain('x="406"');
+  });
+
+  it('resolves show and hide lists without duplicates', () => {
+    expect(selectStats(null, [])).toEqual(['stars', 'commits', 'issues', 'repos', 'prs']);
+    expect(selectStats(null, ['issues'])).toEqual(['stars', 'commits', 'repos', 'prs']);
+    expect(selectStats(['prs', 'stars', 'prs'], ['stars'])).toEqual(['prs']);
+  });
+});
+
+/* -------------------------------------------------- */
+/*  renderErrorCard tests                             */
+/* -------------------------------------------------- */
+describe('renderErrorCard', () => {
+  it('shows the status code and message', () => {
+    const svg = renderErrorCard(404, 'GitHub user "ghost" not found');
+    expect(svg).toContain('Error 404');
+    expect(svg).toContain('GitHub user &quot;ghost&quot; not found');
+  });
+
+  it('applies the theme and hide_border options', () => {
+    const svg = renderErrorCard(429, 'Rate limited', { theme: 'dark', hide_border: true });
+    expect(svg).toContain('#151515');
+    expect(svg).toContain('stroke="none"');
+  });
+
+  it('wraps long messages onto multiple lines', () => {
+    const svg = renderErrorCard(400, 'word '.repeat(40).trim());
+    expect(svg.match(/class="msg"/g)!.length).toBeGreaterThan(1);
+  });
+});
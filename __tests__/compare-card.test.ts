@@ -0,0 +1,113 @@
+/**
+ * Tests for the two-user comparison card renderer.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderCompareCard } from '../src/services/compare-card';
+import type { LanguageStat, TeamMember, UserStats } from '../src/types';
+
+/* -------------------------------------------------- */
+/*  Shared mock data                                  */
+/* -------------------------------------------------- */
+function member(
+  login: string,
+  stats: Pick<UserStats, 'stars' | 'commits' | 'prs' | 'issues' | 'repos'>,
+  languages: LanguageStat[]
+): TeamMember {
+  return {
+    login,
+    profile: {
+      user: {
+        login,
+        name: login.toUpperCase(),
+        avatarUrl: '',
+        bio: null,
+        pronouns: null,
+        twitter: null,
+      },
+      stats: {
+        ...stats,
+        openPRs: 0,
+        closedPRs: 0,
+        mergedPRs: stats.prs,
+        openIssues: 0,
+        closedIssues: stats.issues,
+        mergeRate: 1,
+        commitYear: 2026,
+      },
+      languages,
+    },
+    error: null,
+  };
+}
+
+const alice = member('alice', { stars: 1500, commits: 300, prs: 12, issues: 4, repos: 9 }, [
+  { name: 'TypeScript', size: 750, color: '#3178c6' },
+  { name: 'Go', size: 250, color: '#00ADD8' },
+]);
+const bob = member('bob', { stars: 20, commits: 900, prs: 12, issues: 1, repos: 30 }, [
+  { name: 'Rust', size: 900, color: '#dea584' },
+  { name: 'TypeScript', size: 100, color: '#3178c6' },
+]);
+const ghost: TeamMember = {
+  login: 'ghost',
+  profile: null,
+  error: { status: 404, message: 'GitHub user "ghost" not found', headers: {} },
+};
+
+/* -------------------------------------------------- */
+/*  renderCompareCard                                 */
+/* -------------------------------------------------- */
+describe('renderCompareCard', () => {
+  it('renders both users with their stats', () => {
+    const svg = renderCompareCard(alice, bob);
+    expect(svg).toMatch(/^<svg/);
+    expect(svg).toContain('>ALICE<');
+    expect(svg).toContain('@bob');
+    expect(svg).toContain('1.5k');
+    expect(svg).toContain('Commits (2026)');
+  });
+
+  it('highlights the winner of each stat and leaves ties plain', () => {
+    const svg = renderCompareCard(alice, bob);
+    expect(svg).toMatch(/class="val win0">1\.5k</);
+    expect(svg).toMatch(/class="val lose">20</);
+    expect(svg).toMatch(/class="val win1">900</);
+    // Both have 12 PRs
+    expect(svg.match(/class="val">12</g)).toHaveLength(2);
+  });
+
+  it('overlays both users on one bar per language, largest share first', () => {
+    const svg = renderCompareCard(alice, bob);
+    const order = ['Rust', 'TypeScript', 'Go'].map((name) => svg.indexOf(`>${name}<`));
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+    // TypeScript: 75% for alice, 10% for bob
+    expect(svg).toContain('>75%</tspan>');
+    expect(svg).toContain('>10%</tspan>');
+    expect(svg.match(/class="lang"/g)).toHaveLength(3);
+  });
+
+  it('shows a placeholder side without winners when one user failed', () => {
+    const svg = renderCompareCard(alice, ghost);
+    expect(svg).toContain('>ghost<');
+    expect(svg).toContain('User not found');
+    expect(svg).not.toContain('class="val win0"');
+    expect(svg).toContain('–');
+  });
+
+  it('uses the text color for the second user when title and icon colors match', () => {
+    const svg = renderCompareCard(alice, bob, {
+      title_color: 'ff0000',
+      icon_color: 'FF0000',
+      text_color: '00ff00',
+    });
+    expect(svg).toContain('.win1{font-weight:700;fill:#00ff00}');
+  });
+
+  it('throws on missing data', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => renderCompareCard({} as any, bob)).toThrow('Invalid comparison data');
+  });
+});
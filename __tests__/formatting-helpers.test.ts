@@ -1,13 +1,15 @@
 /**
  * Tests for text formatting and number utilities.
- * Covers kFormat and escapeXml functions.
+ * Covers kFormat, escapeXml, truncate and wrapWords functions, plus the
+ * translations catalog (resolveLocale, translate, isRtlLocale).
  * (wrapText was removed -- bio uses single-line truncation in card.ts)
  *
  * @author Nayan Das <https://github.com/nayandas69>
  */
 
 import { describe, it, expect } from 'vitest';
-import { kFormat, escapeXml } from '../src/utils/format';
+import { kFormat, escapeXml, truncate, wrapWords } from '../src/utils/format';
+import { isRtlLocale, resolveLocale, translate } from '../src/utils/locales';
 
 /* -------------------------------------------------- */
 /*  kFormat - compact number formatting               */
@@ -31,6 +33,13 @@ describe('kFormat', () => {
     expect(kFormat(1_500_000)).toBe('1.5M');
     expect(kFormat(10_000_000)).toBe('10M');
   });
+
+  it('uses locale conventions when a locale is given', () => {
+    expect(kFormat(1_234_567, 'de')).toBe('1,2\u00a0Mio.');
+    expect(kFormat(12_345, 'ja')).toBe('1.2万');
+    expect(kFormat(1500, 'en')).toBe('1.5K');
+    expect(kFormat(999, 'fr')).toBe('999');
+  });
 });
 
 /* -------------------------------------------------- */
@@ -58,5 +67,82 @@ describe('escapeXml', () => {
   });
 });
 
+/* -------------------------------------------------- */
+/*  truncate - single-line shortening                 */
+/* -------------------------------------------------- */
+describe('truncate', () => {
+  it('leaves text within the limit untouched', () => {
+    expect(truncate('octocat', 7)).toBe('octocat');
+  });
+
+  it('shortens longer text to the limit, ellipsis included', () => {
+    expect(truncate('The Octocat', 8)).toBe('The Oct…');
+    expect(truncate('The Octocat', 5)).toBe('The…');
+  });
+});
+
+/* -------------------------------------------------- */
+/*  wrapWords - multi-line word wrapping              */
+/* -------------------------------------------------- */
+describe('wrapWords', () => {
+  it('wraps at word boundaries', () => {
+    expect(wrapWords('one two three four', 9, 3)).toEqual(['one two', 'three', 'four']);
+  });
+
+  it('truncates the last line with an ellipsis when lines run out', () => {
+    expect(wrapWords('one two three four', 9, 2)).toEqual(['one two', 'three…']);
+  });
+
+  it('cuts words longer than a whole line', () => {
+    expect(wrapWords('abcdefghijkl', 5, 2)).toEqual(['abcd…']);
+  });
+
+  it('returns no lines for blank text', () => {
+    expect(wrapWords('   ', 10, 2)).toEqual([]);
+  });
+});
+
+/* -------------------------------------------------- */
+/*  Locales - resolution and translation fallback     */
+/* -------------------------------------------------- */
+describe('resolveLocale', () => {
+  it('matches supported tags case-insensitively', () => {
+    expect(resolveLocale('pt-br')).toBe('pt-BR');
+    expect(resolveLocale('DE')).toBe('de');
+    expect(resolveLocale('zh_CN')).toBe('zh-CN');
+  });
+
+  it('falls back to a supported tag of the same language', () => {
+    expect(resolveLocale('de-AT')).toBe('de');
+    expect(resolveLocale('pt')).toBe('pt-BR');
+  });
+
+  it('returns null for unsupported languages', () => {
+    expect(resolveLocale('xx')).toBeNull();
+    expect(resolveLocale('')).toBeNull();
+  });
+});
+
+describe('translate', () => {
+  it('fills placeholders', () => {
+    expect(translate('de', 'title', { name: 'Octo' })).toBe('GitHub-Statistiken von Octo');
+    expect(translate(undefined, 'reviews', { year: 2026 })).toBe('Reviews (2026)');
+  });
+
+  it('falls back to English for keys a locale leaves out', () => {
+    expect(translate('de', 'commits', { window: 2026 })).toBe('Commits (2026)');
+    expect(translate('zh-CN', 'mergeRate')).toBe('Merge rate');
+  });
+});
+
+describe('isRtlLocale', () => {
+  it('detects right-to-left languages', () => {
+    expect(isRtlLocale('ar')).toBe(true);
+    expect(isRtlLocale('he')).toBe(true);
+    expect(isRtlLocale('de')).toBe(false);
+    expect(isRtlLocale(undefined)).toBe(false);
+  });
+});
+
 // wrapText tests removed -- function was unused dead code.
 // Bio display uses single-line truncation at 40 chars (see card.ts).
@@ -140,6 +140,15 @@ describe('getProfileData', () => {
     expect(data.stats.prs).toBe(35);
     // Issues: 3 + 7 = 10
     expect(data.stats.issues).toBe(10);
+    // The breakdown is kept; 20 merged of 30 resolved PRs
+    expect(data.stats).toMatchObject({
+      openPRs: 5,
+      closedPRs: 10,
+      mergedPRs: 20,
+      openIssues: 3,
+      closedIssues: 7,
+    });
+    expect(data.stats.mergeRate).toBeCloseTo(2 / 3);
     expect(data.stats.commits).toBe(500);
     // commitYear should match the current UTC year
     expect(data.stats.commitYear).toBe(new Date().getUTCFullYear());
@@ -181,24 +190,69 @@ describe('getProfileData', () => {
     // Set token so we get past the token check
     process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
 
-    // Mock fetch to return a 403 rate limit error
+    // Mock fetch to return a 403 rate limit error with a reset time
+    const resetEpoch = Math.floor(Date.now() / 1000) + 120;
     vi.stubGlobal(
       'fetch',
       vi.fn().mockResolvedValue({
         ok: false,
         status: 403,
+        headers: new Headers({ 'x-ratelimit-reset': String(resetEpoch) }),
         text: () => Promise.resolve('API rate limit exceeded'),
       })
     );
 
     const { getProfileData } = await import('../src/services/github');
+    const { RateLimitedError } = await import('../src/services/errors');
 
-    // Expect the specific rate limit error message
-    await expect(getProfileData('octocat')).rejects.toThrow(
-      'GitHub API rate limit exceeded or access forbidden'
+    // A rate-limited 403 must surface as RateLimitedError carrying the reset time
+    const err = await getProfileData('octocat').catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(RateLimitedError);
+    expect((err as InstanceType<typeof RateLimitedError>).resetAt?.getTime()).toBe(
+      resetEpoch * 1000
     );
   });
 
+  /* ---------------------------------------------- */
+  /*  Forbidden (non rate limit) handling            */
+  /* ---------------------------------------------- */
+  it('treats a 403 without a rate limit message as an auth failure', async () => {
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 403,
+        headers: new Headers(),
+        text: () => Promise.resolve('Resource not accessible by integration'),
+      })
+    );
+
+    const { getProfileData } = await import('../src/services/github');
+    const { AuthFailedError } = await import('../src/services/errors');
+
+    await expect(getProfileData('octocat')).rejects.toBeInstanceOf(AuthFailedError);
+  });
+
+  /* ---------------------------------------------- */
+  /*  Network failure handling                       */
+  /* ---------------------------------------------- */
+  it('wraps a rejected fetch in UpstreamError', async () => {
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+
+    const failure = new TypeError('fetch failed', { cause: new Error('ECONNRESET') });
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(failure));
+
+    const { getProfileData } = await import('../src/services/github');
+    const { UpstreamError, toHttpError } = await import('../src/services/errors');
+
+    const err = await getProfileData('octocat').catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(UpstreamError);
+    expect((err as Error).cause).toBe(failure);
+    expect(toHttpError(err).status).toBe(503);
+  });
+
   /* ---------------------------------------------- */
   /*  User not found handling                        */
   /* ---------------------------------------------- */
@@ -215,7 +269,358 @@ describe('getProfileData', () => {
     );
 
     const { getProfileData } = await import('../src/services/github');
+    const { UserNotFoundError } = await import('../src/services/errors');
 
     await expect(getProfileData('nonexistent')).rejects.toThrow('User not found');
+    await expect(getProfileData('nonexistent')).rejects.toBeInstanceOf(UserNotFoundError);
+  });
+
+  /* ---------------------------------------------- */
+  /*  Language count                                 */
+  /* ---------------------------------------------- */
+  it('returns 5 languages by default and langsCount on request, from one fetch', async () => {
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+
+    // One repository with 8 languages, largest first
+    const names = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+    const mockResponse = mockGitHubResponse({
+      repositories: {
+        totalCount: 1,
+        pageInfo: { hasNextPage: false, endCursor: null },
+        nodes: [
+          {
+            stargazers: { totalCount: 1 },
+            languages: {
+              edges: names.map((name, i) => ({
+                size: 1000 - i * 100,
+                node: { name, color: null },
+              })),
+            },
+          },
+        ],
+      },
+    });
+    const fetchMock = vi
+      .fn()
+      .mockImplementation((url: string) =>
+        String(url).includes('/graphql')
+          ? Promise.resolve({ ok: true, json: () => Promise.resolve(mockResponse) })
+          : Promise.resolve(
+              new Response(new Uint8Array([137]), { headers: { 'content-type': 'image/png' } })
+            )
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { getProfileData } = await import('../src/services/github');
+
+    expect((await getProfileData('octocat')).languages.map((l) => l.name)).toEqual(
+      names.slice(0, 5)
+    );
+    expect((await getProfileData('octocat', { langsCount: 7 })).languages).toHaveLength(7);
+    expect((await getProfileData('octocat', { langsCount: 2 })).languages).toHaveLength(2);
+
+    // Every count is served from the same cached profile
+    const graphqlCalls = fetchMock.mock.calls.filter(([url]) => String(url).includes('/graphql'));
+    expect(graphqlCalls).toHaveLength(1);
+  });
+
+  /* ---------------------------------------------- */
+  /*  Language filtering                             */
+  /* ---------------------------------------------- */
+  it('hides languages, excludes repositories and merges aliases, cached per filter', async () => {
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+
+    const repo = (name: string, langs: Array<[string, number, string | null]>) => ({
+      name,
+      stargazers: { totalCount: 1 },
+      languages: {
+        edges: langs.map(([lang, size, color]) => ({ size, node: { name: lang, color } })),
+      },
+    });
+    const mockResponse = mockGitHubResponse({
+      repositories: {
+        totalCount: 3,
+        pageInfo: { hasNextPage: false, endCursor: null },
+        nodes: [
+          repo('app', [
+            ['TypeScript', 4000, '#3178c6'],
+            ['HTML', 9000, '#e34c26'],
+            ['Python', 500, '#3572A5'],
+          ]),
+          repo('site', [['JavaScript', 3000, '#f1e05a']]),
+          repo('Vendored', [
+            ['CSS', 20000, '#563d7c'],
+            ['Jupyter Notebook', 2500, '#DA5B0B'],
+          ]),
+        ],
+      },
+    });
+    const fetchMock = vi
+      .fn()
+      .mockImplementation((url: string) =>
+        String(url).includes('/graphql')
+          ? Promise.resolve({ ok: true, json: () => Promise.resolve(mockResponse) })
+          : Promise.resolve(
+              new Response(new Uint8Array([137]), { headers: { 'content-type': 'image/png' } })
+            )
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { getProfileData } = await import('../src/services/github');
+
+    const filter = {
+      hide: ['html'],
+      excludeRepos: ['vendored'],
+      aliases: [
+        { name: 'JS/TS', sources: ['TypeScript', 'javascript'] },
+        { name: 'Python', sources: ['Jupyter Notebook'] },
+      ],
+    };
+    const { languages } = await getProfileData('octocat', { languageFilter: filter });
+    // Jupyter Notebook is only counted from the excluded repository
+    expect(languages).toEqual([
+      { name: 'JS/TS', size: 7000, color: '#3178c6', repoCount: 2, weight: 7000 },
+      { name: 'Python', size: 500, color: '#3572A5', repoCount: 1, weight: 500 },
+    ]);
+
+    const graphqlCalls = () =>
+      fetchMock.mock.calls.filter(([url]) => String(url).includes('/graphql')).length;
+    expect(graphqlCalls()).toBe(1);
+
+    // An equivalent filter (different case and order) shares the cache entry
+    await getProfileData('octocat', {
+      languageFilter: { ...filter, hide: ['HTML', 'html'], excludeRepos: ['VENDORED'] },
+    });
+    expect(graphqlCalls()).toBe(1);
+
+    // Unfiltered and differently filtered profiles are cached separately
+    const unfiltered = await getProfileData('octocat', { langsCount: 10 });
+    expect(unfiltered.languages.map((l) => l.name)).toContain('HTML');
+    expect(graphqlCalls()).toBe(2);
+    const merged = await getProfileData('octocat', {
+      languageFilter: { aliases: [{ name: 'Python', sources: ['Jupyter Notebook'] }] },
+    });
+    expect(merged.languages.find((l) => l.name === 'Python')).toMatchObject({
+      size: 3000,
+      color: '#3572A5',
+      repoCount: 2,
+    });
+    expect(graphqlCalls()).toBe(3);
+  });
+
+  it('ranks languages by repository count or a blend when asked, cached per weighting', async () => {
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+
+    // One huge generated C repository and three small Go ones
+    const repo = (name: string, lang: string, size: number) => ({
+      name,
+      stargazers: { totalCount: 1 },
+      languages: { edges: [{ size, node: { name: lang, color: null } }] },
+    });
+    const mockResponse = mockGitHubResponse({
+      repositories: {
+        totalCount: 4,
+        pageInfo: { hasNextPage: false, endCursor: null },
+        nodes: [
+          repo('generated', 'C', 90000),
+          repo('a', 'Go', 1000),
+          repo('b', 'Go', 1000),
+          repo('c', 'Go', 1000),
+        ],
+      },
+    });
+    const fetchMock = vi
+      .fn()
+      .mockImplementation((url: string) =>
+        String(url).includes('/graphql')
+          ? Promise.resolve({ ok: true, json: () => Promise.resolve(mockResponse) })
+          : Promise.resolve(
+              new Response(new Uint8Array([137]), { headers: { 'content-type': 'image/png' } })
+            )
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { getProfileData } = await import('../src/services/github');
+
+    const bySize = await getProfileData('octocat');
+    expect(bySize.languages.map((l) => [l.name, l.weight, l.repoCount])).toEqual([
+      ['C', 90000, 1],
+      ['Go', 3000, 3],
+    ]);
+
+    const byCount = await getProfileData('octocat', {
+      languageWeighting: { method: 'repo_count', sizeExponent: 0, countExponent: 1 },
+    });
+    expect(byCount.languages.map((l) => [l.name, l.weight])).toEqual([
+      ['Go', 3],
+      ['C', 1],
+    ]);
+
+    // sqrt(90000) * 1 = 300 vs sqrt(3000) * 3 ≈ 164
+    const blend = await getProfileData('octocat', {
+      languageWeighting: { method: 'blend', sizeExponent: 0.5, countExponent: 0.5 },
+    });
+    expect(blend.languages[0]!.name).toBe('C');
+    expect(blend.languages[1]!.weight).toBeCloseTo(Math.sqrt(3000) * Math.sqrt(3));
+
+    const graphqlCalls = fetchMock.mock.calls.filter(([url]) => String(url).includes('/graphql'));
+    expect(graphqlCalls).toHaveLength(3);
+  });
+});
+
+describe('withExtraStats', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  it('adds the extra metrics from their own query to the profile stats', async () => {
+    const extras = {
+      data: {
+        user: {
+          followers: { totalCount: 12 },
+          gists: { totalCount: 4 },
+          sponsors: { totalCount: 2 },
+          repositoryDiscussions: { totalCount: 6 },
+          repositoryDiscussionComments: { totalCount: 5 },
+          repositoriesContributedTo: { totalCount: 9 },
+          contributionsCollection: { totalPullRequestReviewContributions: 31 },
+        },
+      },
+    };
+    const fetchMock = vi.fn().mockImplementation((url: string, init?: { body: string }) => {
+      if (!String(url).includes('/graphql')) {
+        return Promise.resolve(
+          new Response(new Uint8Array([137]), { headers: { 'content-type': 'image/png' } })
+        );
+      }
+      const body = init!.body.includes('query extraStats') ? extras : mockGitHubResponse();
+      return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { getCachedProfileData } = await import('../src/services/github');
+    const { withExtraStats } = await import('../src/services/extra-stats');
+
+    const profile = await getCachedProfileData('octocat');
+    expect(profile.value.stats.followers).toBeUndefined();
+
+    const result = await withExtraStats(profile);
+    expect(result.status).toBe('MISS');
+    expect(result.value.stats).toMatchObject({
+      stars: 150,
+      followers: 12,
+      reviews: 31,
+      contributedTo: 9,
+      discussionsStarted: 6,
+      discussionsAnswered: 5,
+      gists: 4,
+      sponsors: 2,
+    });
+
+    // Both parts now come from the cache
+    const again = await withExtraStats(await getCachedProfileData('octocat'));
+    expect(again.status).toBe('HIT');
+  });
+});
+
+describe('commits range', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env['GITHUB_TOKEN'] = 'ghp_test_token_1234567890';
+    delete process.env['UPSTASH_REDIS_REST_URL'];
+    delete process.env['UPSTASH_REDIS_REST_TOKEN'];
+    delete process.env['KV_REST_API_URL'];
+    delete process.env['KV_REST_API_TOKEN'];
+  });
+
+  /** Answers the profile query and the per-year commit totals query */
+  function stubRangeFetch() {
+    const year = new Date().getUTCFullYear();
+    const profile = mockGitHubResponse({
+      contributionsCollection: {
+        totalCommitContributions: 500,
+        contributionYears: [year, year - 1, year - 2],
+      },
+    });
+    const totals = {
+      data: {
+        user: {
+          [`y${year - 1}`]: { totalCommitContributions: 300 },
+          [`y${year - 2}`]: { totalCommitContributions: 200 },
+        },
+      },
+    };
+    const fetchMock = vi.fn().mockImplementation((url: string, init?: { body: string }) => {
+      if (!String(url).includes('/graphql')) {
+        return Promise.resolve(
+          new Response(new Uint8Array([137]), { headers: { 'content-type': 'image/png' } })
+        );
+      }
+      const body = init!.body.includes('query commitTotals') ? totals : profile;
+      return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  /** The variables of every profile query sent so far */
+  const profileVariables = (fetchMock: ReturnType<typeof vi.fn>) =>
+    fetchMock.mock.calls
+      .filter(([, init]) => init?.body?.includes('query userInfo'))
+      .map(([, init]) => JSON.parse(init.body).variables);
+
+  it('adds up every contribution year for all_time', async () => {
+    const fetchMock = stubRangeFetch();
+    const { getProfileData } = await import('../src/services/github');
+
+    const stats = (await getProfileData('octocat', { commitsRange: 'all_time' })).stats;
+    expect(stats.commits).toBe(1000);
+    expect(stats.commitsRange).toBe('all_time');
+
+    const totalsQuery = fetchMock.mock.calls.find(([, init]) =>
+      init?.body?.includes('query commitTotals')
+    );
+    const year = new Date().getUTCFullYear();
+    // The current year already comes from the profile query
+    expect(totalsQuery![1].body).not.toContain(`y${year}:`);
+  });
+
+  it('counts a given year or the last 365 days, each under its own cache key', async () => {
+    const fetchMock = stubRangeFetch();
+    const { getProfileData } = await import('../src/services/github');
+
+    const past = (await getProfileData('octocat', { commitsRange: 2020 })).stats;
+    expect(past.commitYear).toBe(2020);
+    expect(past.commitsRange).toBeUndefined();
+
+    const rolling = (await getProfileData('octocat', { commitsRange: 'rolling365' })).stats;
+    expect(rolling.commitsRange).toBe('rolling365');
+
+    await getProfileData('octocat');
+    await getProfileData('octocat', { commitsRange: 2020 });
+
+    const variables = profileVariables(fetchMock);
+    expect(variables).toHaveLength(3);
+    expect(variables[0]).toMatchObject({
+      from: '2020-01-01T00:00:00.000Z',
+      to: '2020-12-31T23:59:59.000Z',
+    });
+    const days = (Date.parse(variables[1].to) - Date.parse(variables[1].from)) / 86_400_000;
+    expect(days).toBe(365);
+  });
+
+  it('shares the default cache entry for the current year given as a number', async () => {
+    const fetchMock = stubRangeFetch();
+    const { getProfileData } = await import('../src/services/github');
+
+    await getProfileData('octocat');
+    const current = await getProfileData('octocat', { commitsRange: new Date().getUTCFullYear() });
+    expect(current.stats.commitYear).toBe(new Date().getUTCFullYear());
+    expect(profileVariables(fetchMock)).toHaveLength(1);
   });
 });
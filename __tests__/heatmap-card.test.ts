@@ -0,0 +1,115 @@
+/**
+ * Tests for the contribution heatmap renderer and its theme color ramp.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderHeatmapCard, resolveHeatmapRange } from '../src/services/heatmap-card';
+import { addDays } from '../src/utils/streaks';
+import { contributionRamp, mixColors, resolveColors } from '../src/utils/themes';
+import type { ContributionCalendar } from '../src/types';
+
+/* -------------------------------------------------- */
+/*  Shared mock data                                  */
+/* -------------------------------------------------- */
+
+/** Every day of 2025 plus 2026 up to 03-10, one contribution per day */
+const calendar: ContributionCalendar = {
+  login: 'octocat',
+  name: 'The Octocat',
+  days: Array.from({ length: 434 }, (_, i) => ({ date: addDays('2025-01-01', i), count: 1 })),
+};
+
+/** Noon UTC on 2026-03-10 */
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+/** Counts day cells (rects/circles with a ramp fill, minus the 5 legend cells) */
+function countCells(svg: string): number {
+  return (svg.match(/<(rect|circle) [^>]*fill="#/g) ?? []).length - 5;
+}
+
+/* -------------------------------------------------- */
+/*  Color ramp                                        */
+/* -------------------------------------------------- */
+describe('contributionRamp', () => {
+  it('mixes hex colors, including 3-digit shorthand', () => {
+    expect(mixColors('000000', 'ffffff', 0.5)).toBe('808080');
+    expect(mixColors('000', 'fff', 1)).toBe('ffffff');
+    expect(mixColors('#000000', '#ffffff', 0.5)).toBe('808080');
+  });
+
+  it('steps from the background toward the icon color', () => {
+    const ramp = contributionRamp(resolveColors({ theme: 'dark' }));
+    expect(ramp).toHaveLength(5);
+    expect(ramp[4]).toBe(resolveColors({ theme: 'dark' }).icon.toLowerCase());
+    expect(new Set(ramp).size).toBe(5);
+  });
+});
+
+/* -------------------------------------------------- */
+/*  Date range                                        */
+/* -------------------------------------------------- */
+describe('resolveHeatmapRange', () => {
+  it('shows a whole year, clamped to today', () => {
+    expect(resolveHeatmapRange({ year: 2025 }, '2026-03-10')).toMatchObject({
+      from: '2025-01-01',
+      to: '2025-12-31',
+      label: 'in 2025',
+    });
+    expect(resolveHeatmapRange({ year: 2026 }, '2026-03-10').to).toBe('2026-03-10');
+  });
+
+  it('shows the last N months ending today', () => {
+    expect(resolveHeatmapRange({}, '2026-03-10')).toMatchObject({
+      from: '2025-03-11',
+      to: '2026-03-10',
+      label: 'in the last 12 months',
+    });
+    // Clamped to the shorter month: one month before Mar 31 is Feb 28
+    expect(resolveHeatmapRange({ months: 1 }, '2026-03-31')).toMatchObject({
+      from: '2026-03-01',
+      label: 'in the last month',
+    });
+  });
+});
+
+/* -------------------------------------------------- */
+/*  renderHeatmapCard                                 */
+/* -------------------------------------------------- */
+describe('renderHeatmapCard', () => {
+  it('draws one cell per day with month labels and a legend', () => {
+    const svg = renderHeatmapCard(calendar, { year: 2025 }, NOW);
+    expect(svg).toMatch(/^<svg/);
+    expect(countCells(svg)).toBe(365);
+    expect(svg).toContain('>Jan<');
+    expect(svg).toContain('>Dec<');
+    expect(svg).toContain('Less');
+    expect(svg).toContain('More');
+    expect(svg).toContain('365 contributions in 2025');
+  });
+
+  it('supports the last N months and the cell shape', () => {
+    const svg = renderHeatmapCard(calendar, { months: 2, cell: 'circle' }, NOW);
+    expect(svg).toContain('in the last 2 months');
+    expect(svg).toContain('<circle');
+    expect(svg).not.toMatch(/<rect [^>]*width="10"/);
+  });
+
+  it('moves weekday labels when the week starts on Monday', () => {
+    const sunday = renderHeatmapCard(calendar, { months: 1 }, NOW);
+    const monday = renderHeatmapCard(calendar, { months: 1, week_start: 'mon' }, NOW);
+    const monY = (svg: string) => /y="(\d+)" class="lbl">Mon</.exec(svg)?.[1];
+    expect(Number(monY(monday))).toBeLessThan(Number(monY(sunday)));
+  });
+
+  it('uses the card font stack and theme colors', () => {
+    const svg = renderHeatmapCard(calendar, { theme: 'dark', months: 1 }, NOW);
+    expect(svg).toContain('font-family:ui-sans-serif');
+    expect(svg).toContain('#151515');
+  });
+
+  it('throws on missing login', () => {
+    expect(() => renderHeatmapCard({ login: '', name: null, days: [] })).toThrow('missing login');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for the standalone top languages card renderer.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderLangsCard } from '../src/services/langs-card';
+import type { LangsLayout, LanguageStat } from '../src/types';
+
+/* -------------------------------------------------- */
+/*  Shared mock data                                  */
+/* -------------------------------------------------- */
+const user = { login: 'octocat', name: 'The Octocat' };
+
+const langs: LanguageStat[] = [
+  { name: 'TypeScript', size: 500, color: '#3178c6' },
+  { name: 'Jupyter Notebook', size: 300, color: '#DA5B0B' },
+  { name: 'Go', size: 200, color: '#00ADD8' },
+];
+
+const LAYOUTS: LangsLayout[] = ['bar', 'donut', 'pie', 'list', 'compact'];
+
+/** Reads the card width from the root <svg> element */
+const width = (svg: string) => Number(svg.match(/width="([\d.]+)"/)![1]);
+
+/* -------------------------------------------------- */
+/*  renderLangsCard                                   */
+/* -------------------------------------------------- */
+describe('renderLangsCard', () => {
+  it('renders every layout with the title and full language names', () => {
+    for (const layout of LAYOUTS) {
+      const svg = renderLangsCard(user, langs, { layout });
+      expect(svg).toMatch(/^<svg/);
+      expect(svg).toContain('Most Used Languages');
+      expect(svg).toContain('Jupyter Notebook');
+      expect(svg).not.toContain('…');
+    }
+  });
+
+  it('shows shares with one decimal', () => {
+    const svg = renderLangsCard(user, langs, { layout: 'bar' });
+    expect(svg).toContain('TypeScript 50.0%');
+    expect(svg).toContain('Go 20.0%');
+    expect(renderLangsCard(user, langs, { layout: 'list' })).toContain('>30.0%<');
+  });
+
+  it('uses language weights for shares and labels the metric', () => {
+    const weighted = langs.map((l) => ({ ...l, weight: 1 }));
+    const svg = renderLangsCard(user, weighted, { lang_weighting: 'repo_count' });
+    expect(svg).toContain('Go 33.3%');
+    expect(svg).toContain('% of repos');
+    expect(renderLangsCard(user, langs, { lang_weighting: 'size' })).toContain('% of bytes');
+    expect(renderLangsCard(user, langs)).not.toContain('class="metric"');
+  });
+
+  it('draws bundled logos in every layout with lang_icons', () => {
+    for (const layout of LAYOUTS) {
+      const svg = renderLangsCard(user, langs, { layout, lang_icons: true });
+      expect(svg).toContain('>TS<');
+      expect(svg).toContain('>GO<');
+    }
+  });
+
+  it('widens the card instead of truncating long names', () => {
+    const long = [{ name: 'A Language With An Unusually Long Name', size: 1, color: '#123456' }];
+    for (const layout of LAYOUTS) {
+      const svg = renderLangsCard(user, [...langs, ...long], { layout });
+      expect(svg).toContain('A Language With An Unusually Long Name');
+      expect(svg).not.toContain('…');
+    }
+    expect(width(renderLangsCard(user, [...langs, ...long], { layout: 'donut' }))).toBeGreaterThan(
+      width(renderLangsCard(user, langs, { layout: 'donut' }))
+    );
+  });
+
+  it('draws one ring segment per language for donut and pie', () => {
+    for (const layout of ['donut', 'pie'] as const) {
+      const svg = renderLangsCard(user, langs, { layout });
+      expect(svg.match(/stroke-dasharray/g)).toHaveLength(langs.length);
+    }
+    // A pie's stroke reaches the center
+    expect(renderLangsCard(user, langs, { layout: 'pie' })).toContain('stroke-width="60"');
+  });
+
+  it('wraps the compact legend onto more lines as languages are added', () => {
+    const many = Array.from({ length: 10 }, (_, i) => ({
+      name: `Language${i}`,
+      size: 10 - i,
+      color: '#000000',
+    }));
+    const height = (svg: string) => Number(svg.match(/height="([\d.]+)"/)![1]);
+    expect(height(renderLangsCard(user, many, { layout: 'compact' }))).toBeGreaterThan(
+      height(renderLangsCard(user, many.slice(0, 2), { layout: 'compact' }))
+    );
+  });
+
+  it('shows a placeholder when there are no languages', () => {
+    expect(renderLangsCard(user, [], { layout: 'donut' })).toContain('No languages to show');
+  });
+
+  it('throws on missing user data', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => renderLangsCard({} as any, langs)).toThrow('Invalid user data');
+  });
+});
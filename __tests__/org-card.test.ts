@@ -0,0 +1,69 @@
+/**
+ * Tests for the organization card renderer.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderOrgCard } from '../src/services/org-card';
+import type { OrgData } from '../src/types';
+
+/* -------------------------------------------------- */
+/*  Shared mock data                                  */
+/* -------------------------------------------------- */
+const data: OrgData = {
+  org: {
+    login: 'acme',
+    name: 'Acme & Co',
+    description: 'Tools for <everyone>',
+    avatarUrl: 'https://avatars.githubusercontent.com/u/1?v=4&s=96',
+    avatarDataUrl: null,
+  },
+  stats: { repos: 128, stars: 45200, members: 37 },
+  languages: [
+    { name: 'TypeScript', size: 600, color: '#3178c6' },
+    { name: 'Rust', size: 400, color: '#dea584' },
+  ],
+};
+
+/* -------------------------------------------------- */
+/*  renderOrgCard                                     */
+/* -------------------------------------------------- */
+describe('renderOrgCard', () => {
+  it('renders name, login and escaped description', () => {
+    const svg = renderOrgCard(data);
+    expect(svg).toMatch(/^<svg/);
+    expect(svg).toContain('Acme &amp; Co');
+    expect(svg).toContain('@acme');
+    expect(svg).toContain('Tools for &lt;everyone&gt;');
+  });
+
+  it('shows repository, star and member counts', () => {
+    const svg = renderOrgCard(data);
+    expect(svg).toContain('>128<');
+    expect(svg).toContain('45.2k');
+    expect(svg).toContain('>37<');
+    expect(svg).toContain('Members');
+  });
+
+  it('renders the language bar and labels', () => {
+    const svg = renderOrgCard(data);
+    expect(svg).toContain('Top Languages');
+    expect(svg).toContain('TypeScript 60%');
+    expect(svg).toContain('Rust 40%');
+  });
+
+  it('omits the language section when there are no languages', () => {
+    const svg = renderOrgCard({ ...data, languages: [] });
+    expect(svg).not.toContain('Top Languages');
+  });
+
+  it('escapes ampersands in the avatar URL', () => {
+    expect(renderOrgCard(data)).toContain('?v=4&amp;s=96');
+  });
+
+  it('throws on missing organization data', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => renderOrgCard({} as any)).toThrow('Invalid organization data');
+  });
+});
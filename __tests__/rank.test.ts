@@ -0,0 +1,92 @@
+/**
+ * Tests for the user rank computation.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateRank, RANK_METRICS, rankLevel } from '../src/services/rank';
+import type { UserStats } from '../src/types';
+
+/* -------------------------------------------------- */
+/*  Shared mock data                                  */
+/* -------------------------------------------------- */
+
+/** Stats of a user with no activity apart from `overrides` */
+function statsOf(overrides: Partial<UserStats>): UserStats {
+  return {
+    stars: 0,
+    repos: 0,
+    prs: 0,
+    issues: 0,
+    openPRs: 0,
+    closedPRs: 0,
+    mergedPRs: 0,
+    openIssues: 0,
+    closedIssues: 0,
+    mergeRate: 0,
+    commits: 0,
+    commitYear: 2026,
+    ...overrides,
+  };
+}
+
+/** Stats where every ranked metric equals its median */
+const medianStats = statsOf(Object.fromEntries(RANK_METRICS.map((m) => [m.key, m.median])));
+
+/* -------------------------------------------------- */
+/*  Thresholds                                        */
+/* -------------------------------------------------- */
+describe('rankLevel', () => {
+  it('maps percentiles to levels with inclusive upper bounds', () => {
+    expect(rankLevel(0)).toBe('S');
+    expect(rankLevel(1)).toBe('S');
+    expect(rankLevel(1.01)).toBe('A+');
+    expect(rankLevel(12.5)).toBe('A+');
+    expect(rankLevel(12.51)).toBe('A');
+    expect(rankLevel(25)).toBe('A');
+    expect(rankLevel(37.5)).toBe('B+');
+    expect(rankLevel(50)).toBe('B');
+    expect(rankLevel(50.01)).toBe('C');
+    expect(rankLevel(100)).toBe('C');
+  });
+});
+
+/* -------------------------------------------------- */
+/*  Formula                                           */
+/* -------------------------------------------------- */
+describe('calculateRank', () => {
+  it('puts a user with no activity at the bottom', () => {
+    expect(calculateRank(statsOf({}))).toEqual({ level: 'C', percentile: 100 });
+  });
+
+  it('puts a user at every median in the middle', () => {
+    const rank = calculateRank(medianStats);
+    expect(rank.percentile).toBeCloseTo(50);
+    expect(rank.level).toBe('B');
+  });
+
+  it('rewards heavier metrics more', () => {
+    // Stars weigh 4, issues 1: the same relative lead moves the rank further
+    const stars = calculateRank({ ...medianStats, stars: medianStats.stars * 10 });
+    const issues = calculateRank({ ...medianStats, issues: medianStats.issues * 10 });
+    expect(stars.percentile).toBeLessThan(issues.percentile);
+    expect(stars.level).toBe('B+');
+  });
+
+  it('reaches S only with very high numbers everywhere', () => {
+    const prolific = statsOf({
+      stars: 100_000,
+      commits: 5000,
+      prs: 2000,
+      issues: 1000,
+      reviews: 500,
+      followers: 20_000,
+    });
+    expect(calculateRank(prolific).level).toBe('S');
+    // Missing extra metrics count as 0, which caps the score at 10/12
+    expect(calculateRank({ ...prolific, followers: undefined, reviews: undefined }).level).toBe(
+      'A'
+    );
+  });
+});
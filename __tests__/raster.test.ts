@@ -0,0 +1,95 @@
+/**
+ * Tests for the SVG rasterizer.
+ * Renders a real card through renderCard() and checks the encoded
+ * PNG/WebP output (signature bytes and scaled dimensions).
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderCard } from '../src/services/card';
+import { rasterizeSvg } from '../src/services/raster';
+import type { UserProfile, UserStats } from '../src/types';
+
+/* -------------------------------------------------- */
+/*  Shared mock data                                  */
+/* -------------------------------------------------- */
+
+const mockUser: UserProfile = {
+  login: 'testuser',
+  name: 'Test User',
+  avatarUrl: 'https://avatars.githubusercontent.com/u/12345?v=4',
+  avatarDataUrl: null,
+  bio: 'Open source developer',
+  pronouns: null,
+  twitter: null,
+};
+
+const mockStats: UserStats = {
+  stars: 1234,
+  repos: 56,
+  prs: 78,
+  issues: 90,
+  openPRs: 8,
+  closedPRs: 10,
+  mergedPRs: 60,
+  openIssues: 20,
+  closedIssues: 70,
+  mergeRate: 60 / 70,
+  commits: 2500,
+  commitYear: 2026,
+};
+
+/** Reads the width/height from a PNG IHDR chunk */
+function pngSize(bytes: Uint8Array): { width: number; height: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+/* -------------------------------------------------- */
+/*  rasterizeSvg tests                                */
+/* -------------------------------------------------- */
+describe('rasterizeSvg', () => {
+  const svg = renderCard(mockUser, mockStats, []);
+  const svgWidth = Number(/width="(\d+)"/.exec(svg)![1]);
+
+  it('produces a PNG with the PNG signature', async () => {
+    const png = await rasterizeSvg(svg, { format: 'png', scale: 1 });
+    expect(Array.from(png.slice(0, 4))).toEqual([0x89, 0x50, 0x4e, 0x47]);
+    expect(pngSize(png).width).toBe(svgWidth);
+  });
+
+  it('scales the output by the requested factor', async () => {
+    const png = await rasterizeSvg(svg, { format: 'png', scale: 3 });
+    expect(pngSize(png).width).toBe(svgWidth * 3);
+  });
+
+  it('produces a WebP container when format is webp', async () => {
+    const webp = await rasterizeSvg(svg, { format: 'webp', scale: 1 });
+    const header = new TextDecoder().decode(webp.slice(0, 12));
+    expect(header.startsWith('RIFF')).toBe(true);
+    expect(header.endsWith('WEBP')).toBe(true);
+  });
+
+  it('draws Japanese labels with the bundled CJK font', async () => {
+    const ja = renderCard(mockUser, mockStats, [], { locale: 'ja' });
+    expect(ja).toContain('スター');
+    // Without CJK glyphs, the label would draw the same missing-glyph boxes
+    // as characters no font has (private use)
+    const missing = ja.replace('スター', '\ue000\ue000\ue000');
+    const png = await rasterizeSvg(ja, { format: 'png', scale: 1 });
+    expect(
+      Buffer.from(png).equals(Buffer.from(await rasterizeSvg(missing, { format: 'png', scale: 1 })))
+    ).toBe(false);
+    // ...and stays deterministic
+    expect(
+      Buffer.from(png).equals(Buffer.from(await rasterizeSvg(ja, { format: 'png', scale: 1 })))
+    ).toBe(true);
+  });
+
+  it('rejects unsupported scale factors', async () => {
+    await expect(rasterizeSvg(svg, { format: 'png', scale: 5 })).rejects.toThrow(
+      'Invalid raster scale'
+    );
+  });
+});
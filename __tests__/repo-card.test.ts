@@ -0,0 +1,74 @@
+/**
+ * Tests for the repository pin card renderer.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderRepoCard } from '../src/services/repo-card';
+import type { RepoDetails } from '../src/types';
+
+/* -------------------------------------------------- */
+/*  Shared mock data                                  */
+/* -------------------------------------------------- */
+const repo: RepoDetails = {
+  owner: 'octocat',
+  name: 'hello-world',
+  description: 'A <small> demo repository',
+  language: { name: 'TypeScript', color: '#3178c6' },
+  stars: 1520,
+  forks: 88,
+  openIssues: 7,
+  license: 'MIT',
+  latestRelease: { tagName: 'v0.1.2', publishedAt: '2026-02-12T10:00:00Z' },
+  isArchived: false,
+  isFork: false,
+};
+
+/* -------------------------------------------------- */
+/*  renderRepoCard                                    */
+/* -------------------------------------------------- */
+describe('renderRepoCard', () => {
+  it('renders the title, description and stats', () => {
+    const svg = renderRepoCard(repo);
+    expect(svg).toMatch(/^<svg/);
+    expect(svg).toContain('octocat/');
+    expect(svg).toContain('>hello-world<');
+    expect(svg).toContain('A &lt;small&gt; demo repository');
+    expect(svg).toContain('fill="#3178c6"');
+    expect(svg).toContain('1.5k');
+    expect(svg).toContain('>88<');
+    expect(svg).toContain('7 open');
+  });
+
+  it('shows the license and latest release with its date', () => {
+    const svg = renderRepoCard(repo);
+    expect(svg).toContain('>MIT<');
+    expect(svg).toContain('v0.1.2 · Feb 12, 2026');
+  });
+
+  it('wraps long descriptions onto at most two lines', () => {
+    const svg = renderRepoCard({ ...repo, description: 'word '.repeat(60).trim() });
+    expect(svg.match(/class="desc"/g)).toHaveLength(2);
+    expect(svg).toContain('…');
+  });
+
+  it('omits the footer and shrinks when there is no license or release', () => {
+    const full = renderRepoCard(repo);
+    const bare = renderRepoCard({ ...repo, license: null, latestRelease: null });
+    expect(bare).not.toContain('v0.1.2');
+    const height = (svg: string) => Number(svg.match(/height="(\d+)"/)![1]);
+    expect(height(bare)).toBeLessThan(height(full));
+  });
+
+  it('adds a badge for archived repositories and forks', () => {
+    expect(renderRepoCard({ ...repo, isArchived: true })).toContain('>Archived<');
+    expect(renderRepoCard({ ...repo, isFork: true })).toContain('>Fork<');
+    expect(renderRepoCard(repo)).not.toContain('class="badge"');
+  });
+
+  it('throws on missing repository data', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => renderRepoCard({} as any)).toThrow('Invalid repository data');
+  });
+});
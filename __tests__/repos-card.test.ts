@@ -0,0 +1,96 @@
+/**
+ * Tests for repository selection and the top repositories card renderer.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderReposCard } from '../src/services/repos-card';
+import { selectRepositories } from '../src/services/repositories';
+import type { RepoSummary } from '../src/types';
+
+/* -------------------------------------------------- */
+/*  Shared mock data                                  */
+/* -------------------------------------------------- */
+const repos: RepoSummary[] = [
+  {
+    name: 'popular',
+    description: 'Most starred <project>',
+    language: { name: 'TypeScript', color: '#3178c6' },
+    stars: 1500,
+    forks: 20,
+    updatedAt: '2024-01-01T00:00:00Z',
+  },
+  {
+    name: 'forked-a-lot',
+    description: null,
+    language: { name: 'Go', color: '#00ADD8' },
+    stars: 300,
+    forks: 90,
+    updatedAt: '2025-06-01T00:00:00Z',
+  },
+  {
+    name: 'Fresh',
+    description: 'Pushed yesterday',
+    language: null,
+    stars: 2,
+    forks: 0,
+    updatedAt: '2026-03-09T00:00:00Z',
+  },
+];
+
+/* -------------------------------------------------- */
+/*  selectRepositories                                */
+/* -------------------------------------------------- */
+describe('selectRepositories', () => {
+  it('sorts by stars, forks or last update', () => {
+    const names = (sort: 'stars' | 'forks' | 'updated') =>
+      selectRepositories(repos, { sort, exclude: [], count: 3 }).map((r) => r.name);
+    expect(names('stars')).toEqual(['popular', 'forked-a-lot', 'Fresh']);
+    expect(names('forks')).toEqual(['forked-a-lot', 'popular', 'Fresh']);
+    expect(names('updated')).toEqual(['Fresh', 'forked-a-lot', 'popular']);
+  });
+
+  it('excludes names case-insensitively and limits the count', () => {
+    const picked = selectRepositories(repos, { sort: 'stars', exclude: ['POPULAR'], count: 1 });
+    expect(picked.map((r) => r.name)).toEqual(['forked-a-lot']);
+  });
+
+  it('does not reorder the input array', () => {
+    const input = [...repos];
+    selectRepositories(input, { sort: 'updated', exclude: [], count: 3 });
+    expect(input).toEqual(repos);
+  });
+});
+
+/* -------------------------------------------------- */
+/*  renderReposCard                                   */
+/* -------------------------------------------------- */
+describe('renderReposCard', () => {
+  it('lists each repository with language, stars and forks', () => {
+    const svg = renderReposCard({ login: 'octocat', name: 'The Octocat' }, repos);
+    expect(svg).toMatch(/^<svg/);
+    expect(svg).toContain('Top Repositories');
+    expect(svg).toContain('>popular<');
+    expect(svg).toContain('Most starred &lt;project&gt;');
+    expect(svg).toContain('fill="#3178c6"');
+    expect(svg).toContain('1.5k');
+    expect(svg).toContain('>90<');
+  });
+
+  it('truncates long descriptions', () => {
+    const long = { ...repos[0]!, description: 'word '.repeat(40) };
+    const svg = renderReposCard({ login: 'octocat', name: null }, [long]);
+    expect(svg).toContain('…');
+  });
+
+  it('shows a placeholder when there is nothing to list', () => {
+    const svg = renderReposCard({ login: 'octocat', name: null }, []);
+    expect(svg).toContain('No public repositories to show');
+  });
+
+  it('applies theme colors', () => {
+    const svg = renderReposCard({ login: 'octocat', name: null }, repos, { theme: 'dark' });
+    expect(svg).toContain('#151515');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for the typed service errors and their HTTP mapping.
+ * toHttpError() is the single place that turns a thrown error into a
+ * status code, public message and Retry-After header.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  AuthFailedError,
+  OrganizationNotFoundError,
+  RateLimitedError,
+  RepositoryNotFoundError,
+  TimeoutError,
+  TooManyInFlightError,
+  UpstreamError,
+  UserNotFoundError,
+  toHttpError,
+} from '../src/services/errors';
+
+/* -------------------------------------------------- */
+/*  toHttpError - status + header mapping             */
+/* -------------------------------------------------- */
+describe('toHttpError', () => {
+  it('maps UserNotFoundError to 404 with the login in the message', () => {
+    const info = toHttpError(new UserNotFoundError('ghost'));
+    expect(info.status).toBe(404);
+    expect(info.message).toContain('"ghost"');
+  });
+
+  it('maps OrganizationNotFoundError to 404 with the login in the message', () => {
+    const info = toHttpError(new OrganizationNotFoundError('ghost-org'));
+    expect(info.status).toBe(404);
+    expect(info.message).toContain('organization "ghost-org"');
+  });
+
+  it('maps RepositoryNotFoundError to 404 with the full name in the message', () => {
+    const info = toHttpError(new RepositoryNotFoundError('octocat', 'missing'));
+    expect(info.status).toBe(404);
+    expect(info.message).toContain('"octocat/missing"');
+  });
+
+  it('maps RateLimitedError to 429 with Retry-After from the reset time', () => {
+    const resetAt = new Date(Date.now() + 90_000);
+    const info = toHttpError(new RateLimitedError(resetAt));
+    expect(info.status).toBe(429);
+    const retryAfter = Number(info.headers['Retry-After']);
+    expect(retryAfter).toBeGreaterThanOrEqual(89);
+    expect(retryAfter).toBeLessThanOrEqual(90);
+  });
+
+  it('falls back to a default Retry-After when the reset time is unknown', () => {
+    expect(toHttpError(new RateLimitedError()).headers['Retry-After']).toBe('60');
+  });
+
+  it('hides auth failure details behind a generic 500', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const info = toHttpError(new AuthFailedError('GitHub API authentication failed (401)'));
+    expect(info.status).toBe(500);
+    expect(info.message).not.toContain('401');
+  });
+
+  it('maps timeouts to 504 and upstream errors to 503', () => {
+    expect(toHttpError(new TimeoutError()).status).toBe(504);
+    expect(toHttpError(new UpstreamError('boom', 502)).status).toBe(503);
+  });
+
+  it('maps TooManyInFlightError to 503 with a short Retry-After', () => {
+    const info = toHttpError(new TooManyInFlightError());
+    expect(info.status).toBe(503);
+    expect(info.headers['Retry-After']).toBe('5');
+  });
+
+  it('maps unknown errors to a generic 500', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const info = toHttpError(new Error('something internal'));
+    expect(info.status).toBe(500);
+    expect(info.message).toBe('An unexpected error occurred');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for contribution streak calculation (src/utils/streaks.ts)
+ * and the streak card renderer.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderStreakCard } from '../src/services/streak-card';
+import { addDays, computeStreaks, isValidTimeZone, todayInTimeZone } from '../src/utils/streaks';
+import type { ContributionDay } from '../src/types';
+
+/* -------------------------------------------------- */
+/*  Helper: build consecutive calendar days            */
+/* -------------------------------------------------- */
+function calendar(start: string, counts: number[]): ContributionDay[] {
+  return counts.map((count, i) => ({ date: addDays(start, i), count }));
+}
+
+/** Noon UTC on 2026-03-10 */
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+/* -------------------------------------------------- */
+/*  Date helpers                                      */
+/* -------------------------------------------------- */
+describe('date helpers', () => {
+  it('adds days across month and year boundaries', () => {
+    expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  it('resolves today in a time zone', () => {
+    expect(todayInTimeZone('UTC', NOW)).toBe('2026-03-10');
+    expect(todayInTimeZone('Pacific/Kiritimati', new Date('2026-03-10T23:00:00Z'))).toBe(
+      '2026-03-11'
+    );
+  });
+
+  it('validates IANA time zone names', () => {
+    expect(isValidTimeZone('Asia/Kolkata')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
+
+/* -------------------------------------------------- */
+/*  computeStreaks                                    */
+/* -------------------------------------------------- */
+describe('computeStreaks', () => {
+  it('computes totals, current and longest streaks', () => {
+    // 03-01..03-10: three-day run, gap, four-day run, gap, run ending today
+    const days = calendar('2026-03-01', [1, 2, 3, 0, 1, 1, 1, 1, 0, 5]);
+    const result = computeStreaks(days, 'UTC', NOW);
+
+    expect(result.total).toBe(15);
+    expect(result.firstContribution).toBe('2026-03-01');
+    expect(result.longest).toEqual({ length: 4, start: '2026-03-05', end: '2026-03-08' });
+    expect(result.current).toEqual({ length: 1, start: '2026-03-10', end: '2026-03-10' });
+  });
+
+  it('does not break the current streak on a quiet today', () => {
+    const days = calendar('2026-03-07', [1, 1, 1, 0]);
+    expect(computeStreaks(days, 'UTC', NOW).current).toEqual({
+      length: 3,
+      start: '2026-03-07',
+      end: '2026-03-09',
+    });
+  });
+
+  it('resets the current streak after a missed day', () => {
+    const days = calendar('2026-03-06', [1, 1, 0, 0, 0]);
+    expect(computeStreaks(days, 'UTC', NOW).current.length).toBe(0);
+  });
+
+  it('uses the time zone to decide which day is today', () => {
+    // Contributions through 03-10; in UTC-10 it is still 03-09 at 05:00 UTC on 03-10
+    const days = calendar('2026-03-08', [1, 1, 1]);
+    const now = new Date('2026-03-10T05:00:00Z');
+
+    expect(computeStreaks(days, 'UTC', now).current.length).toBe(3);
+    // 03-10 is in the future for Honolulu, so it is ignored
+    expect(computeStreaks(days, 'Pacific/Honolulu', now).current).toEqual({
+      length: 2,
+      start: '2026-03-08',
+      end: '2026-03-09',
+    });
+  });
+
+  it('handles users without contributions', () => {
+    const result = computeStreaks(calendar('2026-03-01', [0, 0, 0]), 'UTC', NOW);
+    expect(result.total).toBe(0);
+    expect(result.firstContribution).toBeNull();
+    expect(result.current.length).toBe(0);
+    expect(result.longest.length).toBe(0);
+  });
+});
+
+/* -------------------------------------------------- */
+/*  renderStreakCard                                  */
+/* -------------------------------------------------- */
+describe('renderStreakCard', () => {
+  const streaks = computeStreaks(calendar('2025-12-30', [...Array(70).fill(1), 0, 2]), 'UTC', NOW);
+
+  it('renders the three columns with date ranges', () => {
+    const svg = renderStreakCard({ login: 'octocat', name: 'The Octocat' }, streaks);
+    expect(svg).toMatch(/^<svg/);
+    expect(svg).toContain('Total Contributions');
+    expect(svg).toContain('Current Streak');
+    expect(svg).toContain('Longest Streak');
+    expect(svg).toContain('Dec 30, 2025 - Present');
+    expect(svg).toContain('Dec 30, 2025 - Mar 9');
+  });
+
+  it('applies theme colors and escapes the name', () => {
+    const svg = renderStreakCard({ login: 'x', name: '<b>' }, streaks, {
+      theme: 'dark',
+      icon_color: 'ff0000',
+    });
+    expect(svg).toContain('#151515');
+    expect(svg).toContain('#ff0000');
+    expect(svg).toContain('&lt;b&gt;');
+  });
+
+  it('throws on missing login', () => {
+    expect(() => renderStreakCard({ login: '', name: null }, streaks)).toThrow('missing login');
+  });
+});
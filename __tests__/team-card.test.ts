@@ -0,0 +1,157 @@
+/**
+ * Tests for the team card: bounded concurrency, member sorting and the
+ * grid renderer.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderTeamCard } from '../src/services/team-card';
+import { sortTeamMembers } from '../src/services/team';
+import { mapSettledWithLimit } from '../src/utils/concurrency';
+import type { TeamMember } from '../src/types';
+
+/* -------------------------------------------------- */
+/*  Shared mock data                                  */
+/* -------------------------------------------------- */
+function member(login: string, name: string | null, stars: number, commits: number): TeamMember {
+  return {
+    login,
+    profile: {
+      user: {
+        login,
+        name,
+        avatarUrl: `https://example.com/${login}?v=4`,
+        bio: null,
+        pronouns: null,
+        twitter: null,
+      },
+      stats: {
+        stars,
+        commits,
+        repos: 1,
+        prs: 0,
+        issues: 0,
+        openPRs: 0,
+        closedPRs: 0,
+        mergedPRs: 0,
+        openIssues: 0,
+        closedIssues: 0,
+        mergeRate: 0,
+        commitYear: 2026,
+      },
+      languages: [],
+    },
+    error: null,
+  };
+}
+
+const failed: TeamMember = {
+  login: 'ghost',
+  profile: null,
+  error: { status: 404, message: 'GitHub user "ghost" not found', headers: {} },
+};
+
+const members = [member('alice', 'Alice', 10, 300), failed, member('bob', 'bob', 2500, 20)];
+
+/* -------------------------------------------------- */
+/*  mapSettledWithLimit                               */
+/* -------------------------------------------------- */
+describe('mapSettledWithLimit', () => {
+  it('never runs more than `limit` calls at once', async () => {
+    let running = 0;
+    let peak = 0;
+    await mapSettledWithLimit([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    });
+    expect(peak).toBe(3);
+  });
+
+  it('keeps input order and reports failures without rejecting', async () => {
+    const results = await mapSettledWithLimit([30, 10, 20], 2, async (ms) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      if (ms === 10) throw new Error('boom');
+      return ms * 2;
+    });
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 60 });
+  });
+
+  it('still makes progress with a limit of zero', async () => {
+    const results = await mapSettledWithLimit([1, 2], 0, async (n) => n);
+    expect(results).toHaveLength(2);
+  });
+});
+
+/* -------------------------------------------------- */
+/*  sortTeamMembers                                   */
+/* -------------------------------------------------- */
+describe('sortTeamMembers', () => {
+  const logins = (sort: 'input' | 'stars' | 'commits' | 'name') =>
+    sortTeamMembers(members, sort).map((m) => m.login);
+
+  it('sorts loaded members and always puts failures last', () => {
+    expect(logins('input')).toEqual(['alice', 'bob', 'ghost']);
+    expect(logins('stars')).toEqual(['bob', 'alice', 'ghost']);
+    expect(logins('commits')).toEqual(['alice', 'bob', 'ghost']);
+  });
+
+  it('sorts names case-insensitively', () => {
+    const zed = member('zed', 'Zed', 0, 0);
+    expect(sortTeamMembers([zed, ...members], 'name').map((m) => m.login)).toEqual([
+      'alice',
+      'bob',
+      'zed',
+      'ghost',
+    ]);
+  });
+});
+
+/* -------------------------------------------------- */
+/*  renderTeamCard                                    */
+/* -------------------------------------------------- */
+describe('renderTeamCard', () => {
+  it('renders a tile with name, stars and commits per member', () => {
+    const svg = renderTeamCard(members);
+    expect(svg).toMatch(/^<svg/);
+    expect(svg).toContain('>Alice<');
+    expect(svg).toContain('2.5k');
+    expect(svg).toContain('>300<');
+    expect(svg).toContain('https://example.com/alice?v=4');
+  });
+
+  it('renders a placeholder tile for members that failed to load', () => {
+    const svg = renderTeamCard(members);
+    expect(svg).toContain('>ghost<');
+    expect(svg).toContain('User not found');
+    const unavailable: TeamMember = {
+      ...failed,
+      error: { ...failed.error!, status: 429 },
+    };
+    expect(renderTeamCard([unavailable])).toContain('Unavailable');
+  });
+
+  it('sizes the grid from the column count', () => {
+    const width = (svg: string) => Number(svg.match(/width="(\d+)"/)![1]);
+    const height = (svg: string) => Number(svg.match(/height="(\d+)"/)![1]);
+    const wide = renderTeamCard(members, { columns: 3 });
+    const tall = renderTeamCard(members, { columns: 1 });
+    expect(width(wide)).toBeGreaterThan(width(tall));
+    expect(height(tall)).toBeGreaterThan(height(wide));
+    // Never wider than the number of members
+    expect(width(renderTeamCard(members, { columns: 6 }))).toBe(width(wide));
+  });
+
+  it('truncates long names to fit the tile', () => {
+    const svg = renderTeamCard([member('long', 'A Really Quite Long Display Name', 0, 0)]);
+    expect(svg).toContain('…');
+    expect(svg).not.toContain('Display Name');
+  });
+
+  it('throws without members', () => {
+    expect(() => renderTeamCard([])).toThrow('Invalid team data');
+  });
+});
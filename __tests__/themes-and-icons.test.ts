@@ -1,6 +1,7 @@
 /**
  * Tests for theme resolution and SVG icon rendering.
- * Covers resolveColors(), the themes map, and the icon() helper.
+ * Covers resolveColors(), the themes map, the icon() helper, bundled
+ * language logos and language color overrides.
  *
  * @author Nayan Das <https://github.com/nayandas69>
  */
@@ -8,6 +9,8 @@
 import { describe, it, expect } from 'vitest';
 import { themes, resolveColors } from '../src/utils/themes';
 import { icons, icon } from '../src/utils/icons';
+import { languageIcon } from '../src/utils/language-icons';
+import { getLangColor, overrideLangColors } from '../src/utils/languages';
 
 /* -------------------------------------------------- */
 /*  themes map                                        */
@@ -167,7 +170,20 @@ describe('resolveColors', () => {
 /* -------------------------------------------------- */
 describe('icons', () => {
   it('has all required icon paths', () => {
-    const expected: (keyof typeof icons)[] = ['star', 'commit', 'pr', 'issue', 'repo', 'x'];
+    const expected: (keyof typeof icons)[] = [
+      'star',
+      'commit',
+      'pr',
+      'issue',
+      'repo',
+      'book',
+      'fork',
+      'flame',
+      'law',
+      'tag',
+      'people',
+      'x',
+    ];
     for (const name of expected) {
       expect(icons[name]).toBeDefined();
       expect(icons[name]).toContain('<path');
@@ -212,3 +228,36 @@ describe('icon()', () => {
     expect(svg).toBe('');
   });
 });
+
+/* -------------------------------------------------- */
+/*  languageIcon()                                    */
+/* -------------------------------------------------- */
+describe('languageIcon', () => {
+  it('renders a bundled logo at the requested size', () => {
+    const svg = languageIcon('TypeScript', 12)!;
+    expect(svg).toContain('width="12"');
+    expect(svg).toContain('viewBox="0 0 16 16"');
+    expect(svg).toContain('>TS<');
+  });
+
+  it('escapes marks and returns null for languages without a logo', () => {
+    expect(languageIcon('Shell', 10)).toContain('&gt;_');
+    expect(languageIcon('Zig', 10)).toBeNull();
+    expect(languageIcon('typescript', 10)).toBeNull();
+  });
+});
+
+/* -------------------------------------------------- */
+/*  overrideLangColors()                              */
+/* -------------------------------------------------- */
+describe('overrideLangColors', () => {
+  it('replaces colors case-insensitively and keeps the others', () => {
+    const langs = [
+      { name: 'TypeScript', size: 2, color: '#3178c6' },
+      { name: 'Unknownlang', size: 1, color: getLangColor('Unknownlang') },
+    ];
+    const result = overrideLangColors(langs, { typescript: '#ff0000' });
+    expect(result.map((l) => l.color)).toEqual(['#ff0000', '#ccc']);
+    expect(langs[0]!.color).toBe('#3178c6');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for the GitHub token pool and its use by the GraphQL client.
+ * Each test re-imports the modules so the pool is rebuilt from the
+ * GITHUB_TOKENS value set at the start of the test.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+/** Builds a successful GraphQL response reporting the given budget */
+function okResponse(remaining: number, resetAt = new Date(Date.now() + 3600_000)) {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    json: () =>
+      Promise.resolve({
+        data: { rateLimit: { remaining, resetAt: resetAt.toISOString(), cost: 1 }, viewer: {} },
+      }),
+  };
+}
+
+/** Extracts the bearer token a mocked fetch call was made with */
+function tokenOf(call: unknown[]): string {
+  const init = call[1] as { headers: Record<string, string> };
+  return init.headers['Authorization']!.replace('bearer ', '');
+}
+
+describe('token pool', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    delete process.env['GITHUB_TOKEN'];
+    process.env['GITHUB_TOKENS'] = 'tok_a, tok_b ,tok_c';
+  });
+
+  it('reads GITHUB_TOKENS and exposes fingerprints, not secrets', async () => {
+    const { getTokenPoolStatus } = await import('../src/services/tokens');
+    const status = getTokenPoolStatus();
+    expect(status).toHaveLength(3);
+    expect(JSON.stringify(status)).not.toContain('tok_');
+    expect(status.every((t) => t.state === 'available')).toBe(true);
+  });
+
+  it('falls back to GITHUB_TOKEN when GITHUB_TOKENS is unset', async () => {
+    delete process.env['GITHUB_TOKENS'];
+    process.env['GITHUB_TOKEN'] = 'single';
+    const { acquireToken } = await import('../src/services/tokens');
+    expect(acquireToken()).toBe('single');
+  });
+
+  it('picks the token with the most remaining budget', async () => {
+    const { acquireToken, reportRateLimit } = await import('../src/services/tokens');
+    const resetAt = new Date(Date.now() + 3600_000).toISOString();
+    reportRateLimit('tok_a', { remaining: 100, resetAt });
+    reportRateLimit('tok_b', { remaining: 4000, resetAt });
+    reportRateLimit('tok_c', { remaining: 50, resetAt });
+    expect(acquireToken()).toBe('tok_b');
+  });
+
+  it('parks exhausted tokens until reset and reports the earliest reset', async () => {
+    const { acquireToken, markExhausted } = await import('../src/services/tokens');
+    const { RateLimitedError } = await import('../src/services/errors');
+    const soon = new Date(Date.now() + 60_000);
+    const later = new Date(Date.now() + 120_000);
+    markExhausted('tok_a', later);
+    markExhausted('tok_b', soon);
+    expect(acquireToken()).toBe('tok_c');
+
+    markExhausted('tok_c', later);
+    const err = (() => {
+      try {
+        return acquireToken();
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(err).toBeInstanceOf(RateLimitedError);
+    expect((err as InstanceType<typeof RateLimitedError>).resetAt).toEqual(soon);
+  });
+
+  it('fails over to the next token on 401 and rate-limited 403', async () => {
+    process.env['GITHUB_TOKENS'] = 'tok_a,tok_b,tok_c';
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        headers: new Headers(),
+        text: () => Promise.resolve('Bad credentials'),
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        headers: new Headers(),
+        text: () => Promise.resolve('API rate limit exceeded'),
+      })
+      .mockResolvedValueOnce(okResponse(4999));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { githubGraphQL } = await import('../src/services/github');
+    const { getTokenPoolStatus } = await import('../src/services/tokens');
+
+    await expect(githubGraphQL('query { viewer { login } }', {})).resolves.toBeDefined();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    // Each attempt used a different token
+    const used = fetchMock.mock.calls.map(tokenOf);
+    expect(new Set(used).size).toBe(3);
+
+    const states = getTokenPoolStatus().map((t) => t.state);
+    expect(states.filter((s) => s === 'invalid')).toHaveLength(1);
+    expect(states.filter((s) => s === 'exhausted')).toHaveLength(1);
+    expect(states.filter((s) => s === 'available')).toHaveLength(1);
+  });
+
+  it('marks a token exhausted when GraphQL reports no remaining budget', async () => {
+    process.env['GITHUB_TOKENS'] = 'tok_a';
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(okResponse(0)));
+
+    const { githubGraphQL } = await import('../src/services/github');
+    const { getTokenPoolStatus } = await import('../src/services/tokens');
+
+    await githubGraphQL('query { viewer { login } }', {});
+    expect(getTokenPoolStatus()[0]!.state).toBe('exhausted');
+    expect(getTokenPoolStatus()[0]!.remaining).toBe(0);
+  });
+
+  it('reports the pool exhausted only when no token is available', async () => {
+    const { getTokenPoolHealth, markExhausted, markInvalid } =
+      await import('../src/services/tokens');
+    markExhausted('tok_a', new Date(Date.now() + 3600_000));
+    markInvalid('tok_b');
+    expect(getTokenPoolHealth()).toBe('healthy');
+
+    markExhausted('tok_c', new Date(Date.now() + 3600_000));
+    expect(getTokenPoolHealth()).toBe('exhausted');
+  });
+});
@@ -8,8 +8,66 @@
  */
 
 import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { bearerAuth } from 'hono/bearer-auth';
 import { cors } from 'hono/cors';
-import { getProfileData, renderCard } from './services/index.js';
+import { etag } from 'hono/etag';
+import {
+  calculateRank,
+  FIRST_COMMIT_YEAR,
+  getCachedContributionCalendar,
+  getCachedOrganization,
+  getCachedProfileData,
+  getCachedRepositories,
+  getCachedRepository,
+  getTeamProfiles,
+  getTokenPoolHealth,
+  getTokenPoolStatus,
+  isStatKey,
+  LANG_WEIGHTING_EXPONENTS,
+  MAX_LANGS_COUNT,
+  needsExtraStats,
+  rasterizeSvg,
+  RASTER_SCALES,
+  renderCard,
+  renderCompareCard,
+  renderErrorCard,
+  renderHeatmapCard,
+  renderLangsCard,
+  renderOrgCard,
+  renderRepoCard,
+  renderReposCard,
+  renderStreakCard,
+  renderTeamCard,
+  selectRepositories,
+  selectStats,
+  sortTeamMembers,
+  STAT_DEFINITIONS,
+  toHttpError,
+  withExtraStats,
+} from './services/index.js';
+import type {
+  CachedResult,
+  CardFormat,
+  CardOptions,
+  CommitsRange,
+  HeatmapCellShape,
+  HeatmapOptions,
+  HttpErrorInfo,
+  LangsLayout,
+  LanguageAlias,
+  LanguageFilter,
+  LanguageWeighting,
+  LangWeighting,
+  RepoSort,
+  StatKey,
+  TeamMember,
+  TeamSort,
+  WeekStart,
+} from './services/index.js';
+import { overrideLangColors } from './utils/languages.js';
+import { resolveLocale, SUPPORTED_LOCALES } from './utils/locales.js';
+import { computeStreaks, isValidTimeZone } from './utils/streaks.js';
 import { themes } from './utils/themes.js';
 
 /** Create the Hono app instance */
@@ -28,18 +86,514 @@ app.use('*', async (c, next) => {
   console.log(`[${c.req.method}] ${c.req.path} - ${c.res.status} - ${duration}ms`);
 });
 
+// Weak ETags for JSON data so dashboards can revalidate with If-None-Match
+app.use('/api/*', etag({ weak: true }));
+
 /* --- Helper Functions --- */
 
+/** Content types for every card output format */
+const CARD_CONTENT_TYPES: Record<CardFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+/** Caching headers shared by every card format (matches the 30-minute data cache) */
+const CARD_CACHE_CONTROL = 'public, max-age=0, s-maxage=1800, stale-while-revalidate=1800';
+
+/**
+ * Reports how the underlying data was served: X-Cache is HIT, STALE
+ * (served from cache while a background refresh runs) or MISS, and Age
+ * is the number of seconds since the data was fetched from GitHub.
+ */
+function cacheStatusHeaders(result: CachedResult<unknown>): Record<string, string> {
+  return { 'X-Cache': result.status, Age: String(result.age) };
+}
+
+/** Type guard for supported card output formats */
+function isCardFormat(value: string): value is CardFormat {
+  return value in CARD_CONTENT_TYPES;
+}
+
+/**
+ * Splits an optional file extension off the `:username` path segment,
+ * so "/card/octocat.png" resolves to username "octocat" with format "png".
+ * Returns a null format when the segment has no recognised extension.
+ */
+function splitFormatSuffix(segment: string): { username: string; format: CardFormat | null } {
+  const match = /^(.+)\.(svg|png|webp)$/i.exec(segment);
+  if (!match) return { username: segment, format: null };
+  return { username: match[1]!, format: match[2]!.toLowerCase() as CardFormat };
+}
+
 /** Validates GitHub username format (alphanumeric, hyphens, underscores) */
 function isValidGitHubUsername(username: string): boolean {
   return /^[a-zA-Z0-9_-]{1,39}$/.test(username);
 }
 
+/**
+ * Validates organization login format. Stricter than user logins:
+ * alphanumeric characters and single hyphens, not starting or ending
+ * with a hyphen, up to 39 characters.
+ */
+function isValidOrgLogin(login: string): boolean {
+  return /^[a-zA-Z0-9](?:[a-zA-Z0-9]|-(?=[a-zA-Z0-9])){0,38}$/.test(login);
+}
+
+/**
+ * Validates repository name format (alphanumeric, hyphens, underscores
+ * and dots, up to 100 characters; "." and ".." are reserved).
+ */
+function isValidRepoName(name: string): boolean {
+  return /^[a-zA-Z0-9._-]{1,100}$/.test(name) && name !== '.' && name !== '..';
+}
+
 /** Validates hex color format (with or without #) */
 function isValidHexColor(color: string): boolean {
   return /^#?[0-9a-fA-F]{6}$/.test(color);
 }
 
+/** Error message returned for usernames that fail isValidGitHubUsername() */
+const INVALID_USERNAME_ERROR =
+  'Invalid GitHub username. Username must be 1-39 characters and contain only alphanumeric characters, hyphens, or underscores.';
+
+/** Error message returned for organization logins that fail isValidOrgLogin() */
+const INVALID_ORG_LOGIN_ERROR =
+  'Invalid organization login. Login must be 1-39 characters and contain only alphanumeric characters or single hyphens, and cannot begin or end with a hyphen.';
+
+/** Error message returned for repository names that fail isValidRepoName() */
+const INVALID_REPO_NAME_ERROR =
+  'Invalid repository name. Name must be 1-100 characters and contain only alphanumeric characters, hyphens, underscores, or dots.';
+
+/** Accepted values for the `fields` query parameter */
+const VALID_FIELDS = new Set(['stats', 'languages', 'langs', 'all']);
+
+/**
+ * Parses the optional comma-separated `fields` filter.
+ * Returns a null set when the parameter is absent (meaning "everything"),
+ * plus any values that are not in VALID_FIELDS so callers can reject them.
+ */
+function parseFields(raw: string | undefined): { fields: Set<string> | null; invalid: string[] } {
+  const values = raw
+    ? raw
+        .split(',')
+        .map((v) => v.trim().toLowerCase())
+        .filter(Boolean)
+    : null;
+  if (!values) return { fields: null, invalid: [] };
+  return { fields: new Set(values), invalid: values.filter((f) => !VALID_FIELDS.has(f)) };
+}
+
+/**
+ * Parses the optional `show_stats` (metrics and their order) and
+ * `hide_stats` (metrics to leave out) lists of the card's stats row.
+ * Returns the metrics to show (DEFAULT_STATS when `show_stats` is
+ * absent), or an error message naming any unknown metric.
+ */
+function parseStatsSelection(query: Record<string, string>): {
+  stats: StatKey[];
+  error: string | null;
+} {
+  // Names are case-insensitive: "contributedto" selects contributedTo
+  const keys = new Map(Object.keys(STAT_DEFINITIONS).map((key) => [key.toLowerCase(), key]));
+  const list = (raw: string | undefined) =>
+    raw === undefined
+      ? null
+      : raw
+          .split(',')
+          .map((v) => v.trim())
+          .filter(Boolean)
+          .map((v) => keys.get(v.toLowerCase()) ?? v);
+  const show = list(query['show_stats']);
+  const hide = list(query['hide_stats']) ?? [];
+  const invalid = [...(show ?? []), ...hide].filter((key) => !isStatKey(key));
+  if (invalid.length > 0) {
+    return {
+      stats: [],
+      error: `Invalid stats value(s): ${invalid.join(', ')}. Valid values are: ${Object.keys(STAT_DEFINITIONS).join(', ')}`,
+    };
+  }
+  return { stats: selectStats(show as StatKey[] | null, hide as StatKey[]), error: null };
+}
+
+/** Builds the 400 message for invalid `fields` values */
+function invalidFieldsError(invalid: string[]): string {
+  return `Invalid fields value(s): ${invalid.join(', ')}. Valid values are: stats, languages, langs, all`;
+}
+
+/** Whether the `fields` filter asks for the language breakdown */
+function wantsLanguages(fields: Set<string> | null): boolean {
+  return !fields || fields.has('all') || fields.has('languages') || fields.has('langs');
+}
+
+/** Whether the `fields` filter asks for the stats block */
+function wantsStats(fields: Set<string> | null): boolean {
+  return !fields || fields.has('all') || fields.has('stats');
+}
+
+/**
+ * Parses the optional `langs_count` parameter (number of top languages).
+ * Returns undefined when absent (the service default applies) and null
+ * when invalid.
+ */
+function parseLangsCount(raw: string | undefined): number | undefined | null {
+  if (raw === undefined || raw === '') return undefined;
+  const count = Number(raw);
+  return Number.isInteger(count) && count >= 1 && count <= MAX_LANGS_COUNT ? count : null;
+}
+
+/** Builds the 400 message for an invalid `langs_count` value */
+function invalidLangsCountError(raw: string | undefined): string {
+  return `Invalid langs_count: ${raw}. Valid values are 1 to ${MAX_LANGS_COUNT}`;
+}
+
+/**
+ * Parses the optional `locale` parameter into a supported tag (see
+ * resolveLocale). Returns an undefined locale when absent, and an error
+ * message when the language has no translations.
+ */
+function parseLocale(raw: string | undefined): {
+  locale: string | undefined;
+  error: string | null;
+} {
+  if (raw === undefined || raw === '') return { locale: undefined, error: null };
+  const locale = resolveLocale(raw);
+  if (!locale) {
+    return {
+      locale: undefined,
+      error: `Invalid locale: ${raw}. Supported locales are: ${SUPPORTED_LOCALES.join(', ')}`,
+    };
+  }
+  return { locale, error: null };
+}
+
+/** Named values for the `commits_range` parameter (a year is accepted as well) */
+const COMMITS_RANGES: readonly CommitsRange[] = ['year', 'rolling365', 'all_time'];
+
+/**
+ * Parses the optional `commits_range` parameter: "year" (default),
+ * "rolling365", "all_time" or a calendar year from FIRST_COMMIT_YEAR to
+ * the current one. Returns an undefined range when absent, and an error
+ * message when invalid.
+ */
+function parseCommitsRange(raw: string | undefined): {
+  range: CommitsRange | undefined;
+  error: string | null;
+} {
+  if (raw === undefined || raw === '') return { range: undefined, error: null };
+  const value = raw.toLowerCase();
+  if ((COMMITS_RANGES as readonly string[]).includes(value)) {
+    return { range: value as CommitsRange, error: null };
+  }
+  const currentYear = new Date().getUTCFullYear();
+  const year = Number(value);
+  if (/^\d{4}$/.test(value) && year >= FIRST_COMMIT_YEAR && year <= currentYear) {
+    return { range: year, error: null };
+  }
+  return {
+    range: undefined,
+    error: `Invalid commits_range: ${raw}. Valid values are: ${COMMITS_RANGES.join(', ')} or a year from ${FIRST_COMMIT_YEAR} to ${currentYear}`,
+  };
+}
+
+/** Most entries accepted in each of `hide_langs`, `exclude_repo` and `lang_alias` */
+const MAX_LANGUAGE_FILTER_ENTRIES = 30;
+
+/**
+ * Characters allowed in a `lang_alias` display name: letters, digits,
+ * spaces and the punctuation found in language names ("C#", "C++",
+ * "Ren'Py", "JS/TS"), up to 40 of them
+ */
+const LANG_ALIAS_NAME = /^[\p{L}\p{N} +#*.'_/()-]{1,40}$/u;
+
+/**
+ * Parses the optional language filter parameters:
+ *   - hide_langs: Languages to leave out ("HTML,CSS")
+ *   - exclude_repo: Repositories whose languages are not counted ("dotfiles,site")
+ *   - lang_alias: Groups counted as one language, each "Name:Source|Source"
+ *     ("JS/TS:TypeScript|JavaScript,Python:Jupyter Notebook")
+ * Returns an undefined filter when none of them is set, and an error
+ * message when one is malformed.
+ */
+function parseLanguageFilter(query: Record<string, string>): {
+  filter: LanguageFilter | undefined;
+  error: string | null;
+} {
+  const list = (raw: string | undefined) =>
+    (raw ?? '')
+      .split(',')
+      .map((v) => v.trim())
+      .filter(Boolean);
+  const hide = list(query['hide_langs']);
+  const excludeRepos = list(query['exclude_repo']);
+  const groups = list(query['lang_alias']);
+
+  for (const [param, values] of [
+    ['hide_langs', hide],
+    ['exclude_repo', excludeRepos],
+    ['lang_alias', groups],
+  ] as const) {
+    if (values.length > MAX_LANGUAGE_FILTER_ENTRIES) {
+      return {
+        filter: undefined,
+        error: `Too many ${param} values: at most ${MAX_LANGUAGE_FILTER_ENTRIES} are allowed`,
+      };
+    }
+  }
+
+  const aliases: LanguageAlias[] = [];
+  for (const group of groups) {
+    const sep = group.indexOf(':');
+    const name = group.slice(0, sep).trim();
+    const sources = group
+      .slice(sep + 1)
+      .split('|')
+      .map((v) => v.trim())
+      .filter(Boolean);
+    if (sep < 0 || !name || sources.length === 0) {
+      return {
+        filter: undefined,
+        error: `Invalid lang_alias group: ${group}. Expected Name:Language|Language`,
+      };
+    }
+    if (!LANG_ALIAS_NAME.test(name)) {
+      return {
+        filter: undefined,
+        error: `Invalid lang_alias name: ${name}. Use letters, digits, spaces and + # * . ' _ / ( ) -`,
+      };
+    }
+    aliases.push({ name, sources });
+  }
+
+  if (hide.length === 0 && excludeRepos.length === 0 && aliases.length === 0) {
+    return { filter: undefined, error: null };
+  }
+  return { filter: { hide, excludeRepos, aliases }, error: null };
+}
+
+/** Accepted values for the `lang_weighting` parameter */
+const LANG_WEIGHTINGS: readonly LangWeighting[] = ['size', 'repo_count', 'blend'];
+
+/** Largest exponent accepted by `size_weight` and `count_weight` */
+const MAX_WEIGHT_EXPONENT = 4;
+
+/**
+ * Parses the optional language weighting parameters:
+ *   - lang_weighting: "size" (default), "repo_count" or "blend"
+ *   - size_weight, count_weight: Exponents of the blend, 0-4 (default: 0.5 each);
+ *     ignored by the other methods
+ * Returns an undefined weighting when `lang_weighting` is absent, and an
+ * error message when a value is invalid.
+ */
+function parseLanguageWeighting(query: Record<string, string>): {
+  weighting: LanguageWeighting | undefined;
+  error: string | null;
+} {
+  const method = query['lang_weighting']?.toLowerCase();
+  if (!method) return { weighting: undefined, error: null };
+  if (!(LANG_WEIGHTINGS as readonly string[]).includes(method)) {
+    return {
+      weighting: undefined,
+      error: `Invalid lang_weighting: ${query['lang_weighting']}. Valid values are: ${LANG_WEIGHTINGS.join(', ')}`,
+    };
+  }
+
+  const exponents = { ...LANG_WEIGHTING_EXPONENTS[method as LangWeighting] };
+  if (method === 'blend') {
+    for (const [param, key] of [
+      ['size_weight', 'sizeExponent'],
+      ['count_weight', 'countExponent'],
+    ] as const) {
+      const raw = query[param];
+      if (raw === undefined || raw === '') continue;
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value < 0 || value > MAX_WEIGHT_EXPONENT) {
+        return {
+          weighting: undefined,
+          error: `Invalid ${param}: ${raw}. Valid values are 0 to ${MAX_WEIGHT_EXPONENT}`,
+        };
+      }
+      exponents[key] = value;
+    }
+  }
+  return { weighting: { method: method as LangWeighting, ...exponents }, error: null };
+}
+
+/**
+ * Parses the optional `lang_colors` parameter: comma-separated
+ * "Language:hex" pairs ("TypeScript:ff0000,Rust:000000"). Returns the
+ * colors by lowercase language name (see overrideLangColors), or an error
+ * message for a malformed pair.
+ */
+function parseLangColors(raw: string | undefined): {
+  colors: Record<string, string>;
+  error: string | null;
+} {
+  const colors: Record<string, string> = {};
+  const pairs = (raw ?? '')
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+  if (pairs.length > MAX_LANGUAGE_FILTER_ENTRIES) {
+    return {
+      colors,
+      error: `Too many lang_colors values: at most ${MAX_LANGUAGE_FILTER_ENTRIES} are allowed`,
+    };
+  }
+  for (const pair of pairs) {
+    // Split on the last colon: the color never contains one
+    const sep = pair.lastIndexOf(':');
+    const name = pair.slice(0, sep).trim();
+    const hex = pair.slice(sep + 1).trim();
+    if (sep < 0 || !name || !isValidHexColor(hex)) {
+      return {
+        colors,
+        error: `Invalid lang_colors pair: ${pair}. Expected Language:hex (e.g. TypeScript:3178c6)`,
+      };
+    }
+    colors[name.toLowerCase()] = `#${hex.replace('#', '')}`;
+  }
+  return { colors, error: null };
+}
+
+/** Responds with the JSON error body (and Retry-After etc.) for a failed fetch */
+function profileErrorResponse(c: Context, err: unknown): Response {
+  const { status, message, headers } = toHttpError(err);
+  return c.json({ error: message }, status, headers);
+}
+
+/** Caching headers for error cards: short-lived so resolved failures recover quickly */
+const ERROR_CACHE_CONTROL = 'public, max-age=0, s-maxage=60';
+
+/**
+ * Picks the theme-related options shared by every card (and error card).
+ * Color overrides are only forwarded when they are valid hex values,
+ * since an invalid color may be the very error being reported.
+ */
+function themeOptions(query: Record<string, string>): CardOptions {
+  // Colors are stored without "#" (the cards prepend it), so strip an optional one
+  const color = (param: string) => {
+    const value = query[param];
+    return value && isValidHexColor(value) ? value.replace(/^#/, '') : undefined;
+  };
+  return {
+    theme: query['theme'],
+    title_color: color('title_color'),
+    text_color: color('text_color'),
+    icon_color: color('icon_color'),
+    bg_color: color('bg_color'),
+    border_color: color('border_color'),
+    hide_border: query['hide_border'] === 'true',
+  };
+}
+
+/**
+ * Responds to a failed card request. Clients that explicitly accept JSON
+ * get the usual `{ error }` body; everyone else (typically an `<img>` in a
+ * README) gets a themed error card in the requested image format, so the
+ * embed shows the problem instead of a broken image.
+ */
+async function cardErrorResponse(
+  c: Context,
+  error: HttpErrorInfo,
+  format: CardFormat = 'svg',
+  scale?: number
+): Promise<Response> {
+  const { status, message, headers } = error;
+  if (c.req.header('Accept')?.includes('application/json')) {
+    return c.json({ error: message }, status, headers);
+  }
+
+  const svg = renderErrorCard(status, message, themeOptions(c.req.query()));
+  const body = format === 'svg' ? svg : await rasterizeSvg(svg, { format, scale });
+  return c.body(body, status, {
+    ...headers,
+    'Content-Type': CARD_CONTENT_TYPES[format],
+    'Cache-Control': ERROR_CACHE_CONTROL,
+  });
+}
+
+/** Builds a 400 Bad Request error for invalid query or path parameters */
+function badRequest(message: string): HttpErrorInfo {
+  return { status: 400, message, headers: {} };
+}
+
+/** Output format and raster scale for a card request, plus any 400 to report */
+interface CardOutput {
+  format: CardFormat;
+  scale?: number;
+  error: HttpErrorInfo | null;
+}
+
+/**
+ * Resolves the output format (path extension wins over ?format=) and
+ * raster scale of a card request. Callers resolve this first so that
+ * every later error is rendered in the requested format too.
+ */
+function parseCardOutput(
+  query: Record<string, string>,
+  suffixFormat: CardFormat | null
+): CardOutput {
+  const formatParam = query['format']?.toLowerCase();
+  if (!suffixFormat && formatParam && !isCardFormat(formatParam)) {
+    return {
+      format: 'svg',
+      error: badRequest(`Invalid format: ${formatParam}. Valid values are: svg, png, webp`),
+    };
+  }
+  const format: CardFormat =
+    suffixFormat ?? (formatParam && isCardFormat(formatParam) ? formatParam : 'svg');
+
+  const scale = query['scale'] ? Number(query['scale']) : undefined;
+  if (scale !== undefined && !(RASTER_SCALES as readonly number[]).includes(scale)) {
+    return {
+      format,
+      error: badRequest(`Invalid scale: ${query['scale']}. Valid values are: 1, 2, 3`),
+    };
+  }
+
+  return { format, scale, error: null };
+}
+
+/** Query parameters that take a hex color override */
+const COLOR_PARAMS = ['title_color', 'text_color', 'icon_color', 'bg_color', 'border_color'];
+
+/** Returns a 400 for the first invalid color override, or null if all are valid */
+function invalidColorError(query: Record<string, string>): HttpErrorInfo | null {
+  for (const param of COLOR_PARAMS) {
+    const color = query[param];
+    if (color && !isValidHexColor(color)) {
+      return badRequest(`Invalid hex color for ${param}: ${color}`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Sends a rendered card in the requested format (rasterizing the same
+ * SVG for PNG/WebP) with the card caching and cache status headers.
+ * Cards that stand in for a failure (e.g. a placeholder tile) pass
+ * ERROR_CACHE_CONTROL, so a transient error is not cached for long.
+ */
+async function cardResponse(
+  c: Context,
+  svg: string,
+  output: CardOutput,
+  cache: CachedResult<unknown>,
+  cacheControl = CARD_CACHE_CONTROL
+): Promise<Response> {
+  const { format, scale } = output;
+  const body = format === 'svg' ? svg : await rasterizeSvg(svg, { format, scale });
+  return c.body(body, 200, {
+    'Content-Type': CARD_CONTENT_TYPES[format],
+    'Cache-Control': cacheControl,
+    ...cacheStatusHeaders(cache),
+  });
+}
+
+/** Version of the JSON payload served by /api/profile/:username */
+const PROFILE_JSON_VERSION = 1;
+
 /* --- Routes --- */
 
 /**
@@ -51,7 +605,16 @@ app.get('/', (c) => {
     name: 'GitHub Profile Card API',
     version: '0.1.2',
     author: 'Nayan Das (https://github.com/nayandas69)',
-    usage: 'GET /card/:username',
+    usage: 'GET /card/:username[.svg|.png|.webp]',
+    data: 'GET /api/profile/:username',
+    langs: 'GET /langs/:username[.svg|.png|.webp]',
+    streak: 'GET /streak/:username[.svg|.png|.webp]',
+    heatmap: 'GET /heatmap/:username[.svg|.png|.webp]',
+    repos: 'GET /repos/:username[.svg|.png|.webp]',
+    repo: 'GET /repo/:owner/:name[.svg|.png|.webp]',
+    org: 'GET /org/:login[.svg|.png|.webp]',
+    team: 'GET /team?users=a,b,c',
+    compare: 'GET /compare/:userA/:userB[.svg|.png|.webp]',
     themes: Object.keys(themes),
     repository: 'https://github.com/nayandas69/github-profile-card',
   });
@@ -59,7 +622,9 @@ app.get('/', (c) => {
 
 /**
  * GET /card/:username
- * Generates and returns an SVG profile card for the given GitHub username.
+ * Generates and returns a profile card for the given GitHub username.
+ * The card is SVG by default; append ".png"/".webp" to the username or
+ * pass `format=` to get a rasterized copy of the exact same SVG.
  *
  * Query parameters:
  *   - theme: Theme name (e.g. "github_dark", "dracula")
@@ -67,60 +632,95 @@ app.get('/', (c) => {
  *   - hide_border: "true" to remove the card border
  *   - compact: "true" to hide bio, pronouns, twitter, and language labels
  *   - fields: Comma-separated list ("languages", "stats", "all")
+ *   - show_stats, hide_stats: Stats row metrics and order (see parseStatsSelection)
+ *   - pr_breakdown: "true" to split PRs and Issues into open/merged/closed bars
+ *   - commits_range: Window of the commits stat (see parseCommitsRange)
+ *   - show_rank: "true" to show the user's rank as a ring (see calculateRank)
+ *   - locale: Language of the labels and numbers, e.g. "de" or "pt-BR" (see parseLocale)
+ *   - rtl: "true"/"false" to force or disable the mirrored layout (default: on for ar, he)
+ *   - langs_count: Number of top languages, 1-20 (default: 5)
+ *   - hide_langs, exclude_repo, lang_alias: Language filtering (see parseLanguageFilter)
+ *   - lang_weighting, size_weight, count_weight: Language ranking (see parseLanguageWeighting)
+ *   - lang_colors: Per-language colors, "Language:hex" pairs (see parseLangColors)
+ *   - lang_icons: "true" to draw bundled language logos instead of colored dots
+ *   - format: "svg" (default), "png" or "webp"
+ *   - scale: Raster scale factor, 1-3 (default: 2, ignored for SVG)
+ *
+ * Failures are rendered as a themed error card (see cardErrorResponse)
+ * unless the client sends `Accept: application/json`.
  */
 app.get('/card/:username', async (c) => {
-  try {
-    const username = c.req.param('username');
+  const { username, format: suffixFormat } = splitFormatSuffix(c.req.param('username'));
+  const query = c.req.query();
+
+  // Resolve the output format first so errors are rendered in it too
+  const output = parseCardOutput(query, suffixFormat);
+  const { format, scale } = output;
+  if (output.error) return cardErrorResponse(c, output.error, format, scale);
 
+  try {
     // Validate username format
     if (!username || !isValidGitHubUsername(username)) {
-      return c.json(
-        {
-          error:
-            'Invalid GitHub username. Username must be 1-39 characters and contain only alphanumeric characters, hyphens, or underscores.',
-        },
-        400
-      );
+      return cardErrorResponse(c, badRequest(INVALID_USERNAME_ERROR), format, scale);
     }
 
-    const query = c.req.query();
-
     // Validate color parameters if provided
-    const colorParams = ['title_color', 'text_color', 'icon_color', 'bg_color', 'border_color'];
-    for (const param of colorParams) {
-      const color = query[param];
-      if (color && !isValidHexColor(color)) {
-        return c.json({ error: `Invalid hex color for ${param}: ${color}` }, 400);
-      }
-    }
+    const colorError = invalidColorError(query);
+    if (colorError) return cardErrorResponse(c, colorError, format, scale);
 
     // Parse optional fields filter
-    const VALID_FIELDS = new Set(['stats', 'languages', 'langs', 'all']);
-    const fieldsRaw = query['fields']
-      ? query['fields']
-          .split(',')
-          .map((v) => v.trim().toLowerCase())
-          .filter(Boolean)
-      : null;
-    if (fieldsRaw) {
-      const invalid = fieldsRaw.filter((f) => !VALID_FIELDS.has(f));
-      if (invalid.length > 0) {
-        return c.json(
-          {
-            error: `Invalid fields value(s): ${invalid.join(', ')}. Valid values are: stats, languages, langs, all`,
-          },
-          400
-        );
-      }
+    const { fields, invalid } = parseFields(query['fields']);
+    if (invalid.length > 0) {
+      return cardErrorResponse(c, badRequest(invalidFieldsError(invalid)), format, scale);
+    }
+
+    const { stats: shownStats, error: statsError } = parseStatsSelection(query);
+    if (statsError) return cardErrorResponse(c, badRequest(statsError), format, scale);
+
+    const langsCount = parseLangsCount(query['langs_count']);
+    if (langsCount === null) {
+      return cardErrorResponse(
+        c,
+        badRequest(invalidLangsCountError(query['langs_count'])),
+        format,
+        scale
+      );
     }
-    const fields = fieldsRaw ? new Set(fieldsRaw) : null;
+
+    const { filter: languageFilter, error: filterError } = parseLanguageFilter(query);
+    if (filterError) return cardErrorResponse(c, badRequest(filterError), format, scale);
+
+    const { weighting: languageWeighting, error: weightingError } = parseLanguageWeighting(query);
+    if (weightingError) return cardErrorResponse(c, badRequest(weightingError), format, scale);
+
+    const { colors: langColors, error: langColorsError } = parseLangColors(query['lang_colors']);
+    if (langColorsError) return cardErrorResponse(c, badRequest(langColorsError), format, scale);
+
+    const { range: commitsRange, error: rangeError } = parseCommitsRange(query['commits_range']);
+    if (rangeError) return cardErrorResponse(c, badRequest(rangeError), format, scale);
+
+    const { locale, error: localeError } = parseLocale(query['locale']);
+    if (localeError) return cardErrorResponse(c, badRequest(localeError), format, scale);
 
     // Determine if we need to fetch language data
-    const includeLanguages =
-      !fields || fields.has('all') || fields.has('languages') || fields.has('langs');
+    const includeLanguages = wantsLanguages(fields);
 
     // Fetch profile data (with multi-layer caching)
-    const data = await getProfileData(username, { includeLanguages });
+    const profile = await getCachedProfileData(username, {
+      includeLanguages,
+      langsCount,
+      languageFilter,
+      languageWeighting,
+      commitsRange,
+    });
+    // Extra metrics (followers, reviews, ...) cost a second query, so only when shown
+    // or needed by the rank
+    const showRank = query['show_rank'] === 'true';
+    const result =
+      showRank || (wantsStats(fields) && needsExtraStats(shownStats))
+        ? await withExtraStats(profile)
+        : profile;
+    const data = result.value;
 
     /**
      * Render the SVG card with optional theme/color overrides.
@@ -129,64 +729,678 @@ app.get('/card/:username', async (c) => {
      * Previously `fields` was parsed here but never forwarded, so the card
      * always rendered every section regardless of what the user requested.
      */
-    const svg = renderCard(data.user, data.stats, data.languages, {
-      theme: query['theme'],
-      title_color: query['title_color'],
-      text_color: query['text_color'],
-      icon_color: query['icon_color'],
-      bg_color: query['bg_color'],
-      border_color: query['border_color'],
-      hide_border: query['hide_border'] === 'true',
+    const languages = overrideLangColors(data.languages, langColors);
+    const svg = renderCard(data.user, data.stats, languages, {
+      ...themeOptions(query),
       compact: query['compact'] === 'true',
       fields,
+      lang_weighting: languageWeighting?.method,
+      lang_icons: query['lang_icons'] === 'true',
+      stats: shownStats,
+      pr_breakdown: query['pr_breakdown'] === 'true',
+      show_rank: showRank,
+      locale,
+      // Left undefined when absent, so the locale decides
+      rtl: query['rtl'] === undefined ? undefined : query['rtl'] === 'true',
     });
 
-    // Return SVG with aggressive caching headers
-    return c.body(svg, 200, {
-      'Content-Type': 'image/svg+xml',
-      'Cache-Control': 'public, max-age=0, s-maxage=1800, stale-while-revalidate=1800',
+    // Return the card (rasterized if requested) with aggressive caching headers
+    return cardResponse(c, svg, output, result);
+  } catch (err: unknown) {
+    return cardErrorResponse(c, toHttpError(err), format, scale);
+  }
+});
+
+/**
+ * GET /api/profile/:username
+ * Returns the same profile data the card is rendered from (user, stats,
+ * languages) as versioned JSON, for dashboards that need the numbers
+ * without parsing SVG. Responses carry a weak ETag (see middleware above)
+ * so clients can revalidate cheaply with If-None-Match.
+ *
+ * Query parameters:
+ *   - fields: Comma-separated list ("languages", "stats", "all")
+ *   - langs_count: Number of top languages, 1-20 (default: 5)
+ *   - hide_langs, exclude_repo, lang_alias: Language filtering (see parseLanguageFilter)
+ *   - lang_weighting, size_weight, count_weight: Language ranking (see parseLanguageWeighting)
+ *   - commits_range: Window of the commits stat (see parseCommitsRange)
+ *   - show_rank: "true" to add the user's rank (see calculateRank), along with
+ *     the extra metrics it is computed from
+ */
+app.get('/api/profile/:username', async (c) => {
+  const username = c.req.param('username');
+  try {
+    if (!isValidGitHubUsername(username)) {
+      return c.json({ error: INVALID_USERNAME_ERROR }, 400);
+    }
+
+    const { fields, invalid } = parseFields(c.req.query('fields'));
+    if (invalid.length > 0) {
+      return c.json({ error: invalidFieldsError(invalid) }, 400);
+    }
+
+    const langsCount = parseLangsCount(c.req.query('langs_count'));
+    if (langsCount === null) {
+      return c.json({ error: invalidLangsCountError(c.req.query('langs_count')) }, 400);
+    }
+
+    const { filter: languageFilter, error: filterError } = parseLanguageFilter(c.req.query());
+    if (filterError) return c.json({ error: filterError }, 400);
+
+    const { weighting: languageWeighting, error: weightingError } = parseLanguageWeighting(
+      c.req.query()
+    );
+    if (weightingError) return c.json({ error: weightingError }, 400);
+
+    const { range: commitsRange, error: rangeError } = parseCommitsRange(
+      c.req.query('commits_range')
+    );
+    if (rangeError) return c.json({ error: rangeError }, 400);
+
+    const includeLanguages = wantsLanguages(fields);
+    const profile = await getCachedProfileData(username, {
+      includeLanguages,
+      langsCount,
+      languageFilter,
+      languageWeighting,
+      commitsRange,
     });
+    const showRank = c.req.query('show_rank') === 'true';
+    const result = showRank ? await withExtraStats(profile) : profile;
+    const data = result.value;
+
+    // The base64 avatar only exists for SVG embedding; JSON clients use avatarUrl
+    const user = { ...data.user, avatarDataUrl: undefined };
+
+    return c.json(
+      {
+        version: PROFILE_JSON_VERSION,
+        user,
+        ...(wantsStats(fields) ? { stats: data.stats } : {}),
+        ...(includeLanguages ? { languages: data.languages } : {}),
+        ...(showRank ? { rank: calculateRank(data.stats) } : {}),
+      },
+      200,
+      { 'Cache-Control': CARD_CACHE_CONTROL, ...cacheStatusHeaders(result) }
+    );
   } catch (err: unknown) {
-    if (err instanceof Error) {
-      const message = err.message;
+    return profileErrorResponse(c, err);
+  }
+});
 
-      // GitHub API user not found error
-      if (message.includes('User not found')) {
-        return c.json({ error: `GitHub user "${c.req.param('username')}" not found` }, 404);
-      }
+/** Accepted values for the languages card `layout` parameter */
+const LANGS_LAYOUTS: readonly LangsLayout[] = ['bar', 'donut', 'pie', 'list', 'compact'];
 
-      // GitHub API rate limit error
-      if (message.includes('API rate limit exceeded')) {
-        return c.json({ error: 'GitHub API rate limit exceeded. Please try again later.' }, 429);
-      }
+/**
+ * GET /langs/:username
+ * Generates a standalone top languages card. Legends show full language
+ * names (the card grows to fit them). Supports the same output formats
+ * and theme options as /card/:username.
+ *
+ * Query parameters:
+ *   - layout: "bar" (default), "donut", "pie", "list" or "compact"
+ *   - langs_count: Number of top languages, 1-20 (default: 5)
+ *   - hide_langs, exclude_repo, lang_alias: Language filtering (see parseLanguageFilter)
+ *   - lang_weighting, size_weight, count_weight: Language ranking (see parseLanguageWeighting)
+ *   - lang_colors, lang_icons: see /card/:username
+ *   - theme, title_color, text_color, icon_color, bg_color, border_color, hide_border
+ *   - format, scale: see /card/:username
+ */
+app.get('/langs/:username', async (c) => {
+  const { username, format: suffixFormat } = splitFormatSuffix(c.req.param('username'));
+  const query = c.req.query();
 
-      // GitHub token missing error
-      if (message.includes('GITHUB_TOKEN')) {
-        console.error('GITHUB_TOKEN not configured');
-        return c.json(
-          { error: 'Server configuration error. Please contact the administrator.' },
-          500
-        );
-      }
+  const output = parseCardOutput(query, suffixFormat);
+  const { format, scale } = output;
+  if (output.error) return cardErrorResponse(c, output.error, format, scale);
 
-      // Other GitHub API errors
-      if (message.includes('GitHub API error')) {
-        return c.json({ error: 'GitHub API error. Please try again later.' }, 503);
-      }
+  try {
+    if (!username || !isValidGitHubUsername(username)) {
+      return cardErrorResponse(c, badRequest(INVALID_USERNAME_ERROR), format, scale);
+    }
+
+    const colorError = invalidColorError(query);
+    if (colorError) return cardErrorResponse(c, colorError, format, scale);
+
+    const layout = query['layout']?.toLowerCase() || 'bar';
+    if (!(LANGS_LAYOUTS as readonly string[]).includes(layout)) {
+      return cardErrorResponse(
+        c,
+        badRequest(
+          `Invalid layout: ${query['layout']}. Valid values are: ${LANGS_LAYOUTS.join(', ')}`
+        ),
+        format,
+        scale
+      );
+    }
+
+    const langsCount = parseLangsCount(query['langs_count']);
+    if (langsCount === null) {
+      return cardErrorResponse(
+        c,
+        badRequest(invalidLangsCountError(query['langs_count'])),
+        format,
+        scale
+      );
+    }
+
+    const { filter: languageFilter, error: filterError } = parseLanguageFilter(query);
+    if (filterError) return cardErrorResponse(c, badRequest(filterError), format, scale);
+
+    const { weighting: languageWeighting, error: weightingError } = parseLanguageWeighting(query);
+    if (weightingError) return cardErrorResponse(c, badRequest(weightingError), format, scale);
+
+    const { colors: langColors, error: langColorsError } = parseLangColors(query['lang_colors']);
+    if (langColorsError) return cardErrorResponse(c, badRequest(langColorsError), format, scale);
+
+    const result = await getCachedProfileData(username, {
+      includeLanguages: true,
+      langsCount,
+      languageFilter,
+      languageWeighting,
+    });
+    const { user, languages } = result.value;
+    const svg = renderLangsCard(user, overrideLangColors(languages, langColors), {
+      ...themeOptions(query),
+      layout: layout as LangsLayout,
+      lang_weighting: languageWeighting?.method,
+      lang_icons: query['lang_icons'] === 'true',
+    });
+
+    return cardResponse(c, svg, output, result);
+  } catch (err: unknown) {
+    return cardErrorResponse(c, toHttpError(err), format, scale);
+  }
+});
+
+/**
+ * GET /streak/:username
+ * Generates a contribution streak card: total contributions, current
+ * streak and longest streak with their date ranges. Supports the same
+ * output formats and theme options as /card/:username.
+ *
+ * Query parameters:
+ *   - tz: "today" anchor, the IANA time zone whose current date counts as
+ *     today (default: "UTC"). It does not set day boundaries: days stay as
+ *     GitHub's contribution calendar bucketed them, and re-bucketing by time
+ *     zone is out of scope (the calendar only has daily totals)
+ *   - theme, title_color, text_color, icon_color, bg_color, border_color, hide_border
+ *   - format, scale: see /card/:username
+ */
+app.get('/streak/:username', async (c) => {
+  const { username, format: suffixFormat } = splitFormatSuffix(c.req.param('username'));
+  const query = c.req.query();
+
+  const output = parseCardOutput(query, suffixFormat);
+  const { format, scale } = output;
+  if (output.error) return cardErrorResponse(c, output.error, format, scale);
+
+  try {
+    if (!username || !isValidGitHubUsername(username)) {
+      return cardErrorResponse(c, badRequest(INVALID_USERNAME_ERROR), format, scale);
+    }
+
+    const colorError = invalidColorError(query);
+    if (colorError) return cardErrorResponse(c, colorError, format, scale);
+
+    const tz = query['tz'] || 'UTC';
+    if (!isValidTimeZone(tz)) {
+      return cardErrorResponse(
+        c,
+        badRequest(`Invalid time zone: ${tz}. Use an IANA name such as Europe/Berlin`),
+        format,
+        scale
+      );
+    }
+
+    // The calendar is cached per user; streaks depend on tz so are computed per request
+    const result = await getCachedContributionCalendar(username);
+    const streaks = computeStreaks(result.value.days, tz);
+    const svg = renderStreakCard(result.value, streaks, themeOptions(query));
+
+    return cardResponse(c, svg, output, result);
+  } catch (err: unknown) {
+    return cardErrorResponse(c, toHttpError(err), format, scale);
+  }
+});
+
+/** Accepted values for the heatmap `week_start` and `cell` parameters */
+const WEEK_STARTS: readonly WeekStart[] = ['sun', 'mon'];
+const HEATMAP_CELLS: readonly HeatmapCellShape[] = ['square', 'rounded', 'circle'];
+
+/**
+ * Parses the heatmap range and layout parameters.
+ * Returns the options to render with, or a 400 for the first invalid value.
+ */
+function parseHeatmapOptions(query: Record<string, string>): HeatmapOptions | HttpErrorInfo {
+  const opts: HeatmapOptions = {};
+
+  if (query['year']) {
+    const year = Number(query['year']);
+    const currentYear = new Date().getUTCFullYear();
+    if (!Number.isInteger(year) || year < 2008 || year > currentYear) {
+      return badRequest(`Invalid year: ${query['year']}. Use a year from 2008 to ${currentYear}`);
+    }
+    opts.year = year;
+  }
+
+  if (query['months']) {
+    const months = Number(query['months']);
+    if (!Number.isInteger(months) || months < 1 || months > 12) {
+      return badRequest(`Invalid months: ${query['months']}. Valid values are 1 to 12`);
+    }
+    opts.months = months;
+  }
+
+  const weekStart = query['week_start']?.toLowerCase();
+  if (weekStart) {
+    if (!(WEEK_STARTS as readonly string[]).includes(weekStart)) {
+      return badRequest(`Invalid week_start: ${weekStart}. Valid values are: sun, mon`);
+    }
+    opts.week_start = weekStart as WeekStart;
+  }
+
+  const cell = query['cell']?.toLowerCase();
+  if (cell) {
+    if (!(HEATMAP_CELLS as readonly string[]).includes(cell)) {
+      return badRequest(`Invalid cell: ${cell}. Valid values are: square, rounded, circle`);
+    }
+    opts.cell = cell as HeatmapCellShape;
+  }
+
+  return opts;
+}
+
+/**
+ * GET /heatmap/:username
+ * Generates a GitHub-style contribution calendar card, colored with a
+ * ramp derived from the theme's icon and background colors. Supports
+ * the same output formats and theme options as /card/:username.
+ *
+ * Query parameters:
+ *   - year: Calendar year to show (default: the last 12 months)
+ *   - months: Number of months ending today, 1-12 (ignored when year is set)
+ *   - week_start: "sun" (default) or "mon"
+ *   - cell: "rounded" (default), "square" or "circle"
+ *   - theme, title_color, text_color, icon_color, bg_color, border_color, hide_border
+ *   - format, scale: see /card/:username
+ */
+app.get('/heatmap/:username', async (c) => {
+  const { username, format: suffixFormat } = splitFormatSuffix(c.req.param('username'));
+  const query = c.req.query();
+
+  const output = parseCardOutput(query, suffixFormat);
+  const { format, scale } = output;
+  if (output.error) return cardErrorResponse(c, output.error, format, scale);
+
+  try {
+    if (!username || !isValidGitHubUsername(username)) {
+      return cardErrorResponse(c, badRequest(INVALID_USERNAME_ERROR), format, scale);
+    }
+
+    const colorError = invalidColorError(query);
+    if (colorError) return cardErrorResponse(c, colorError, format, scale);
+
+    const heatmapOptions = parseHeatmapOptions(query);
+    if ('status' in heatmapOptions) {
+      return cardErrorResponse(c, heatmapOptions, format, scale);
+    }
+
+    const result = await getCachedContributionCalendar(username);
+    const svg = renderHeatmapCard(result.value, { ...themeOptions(query), ...heatmapOptions });
+
+    return cardResponse(c, svg, output, result);
+  } catch (err: unknown) {
+    return cardErrorResponse(c, toHttpError(err), format, scale);
+  }
+});
+
+/** Accepted values for the repos card `sort` parameter */
+const REPO_SORTS: readonly RepoSort[] = ['stars', 'updated', 'forks'];
+
+/** Default and maximum number of repositories on the repos card */
+const DEFAULT_REPO_COUNT = 5;
+const MAX_REPO_COUNT = 10;
+
+/**
+ * GET /repos/:username
+ * Generates a card listing the user's top owned (non-fork) repositories
+ * with description, primary language, stars and forks. Supports the same
+ * output formats and theme options as /card/:username.
+ *
+ * Query parameters:
+ *   - sort: "stars" (default), "updated" or "forks"
+ *   - exclude: Comma-separated repository names to leave out
+ *   - count: Number of repositories, 1-10 (default: 5)
+ *   - theme, title_color, text_color, icon_color, bg_color, border_color, hide_border
+ *   - format, scale: see /card/:username
+ */
+app.get('/repos/:username', async (c) => {
+  const { username, format: suffixFormat } = splitFormatSuffix(c.req.param('username'));
+  const query = c.req.query();
+
+  const output = parseCardOutput(query, suffixFormat);
+  const { format, scale } = output;
+  if (output.error) return cardErrorResponse(c, output.error, format, scale);
+
+  try {
+    if (!username || !isValidGitHubUsername(username)) {
+      return cardErrorResponse(c, badRequest(INVALID_USERNAME_ERROR), format, scale);
+    }
+
+    const colorError = invalidColorError(query);
+    if (colorError) return cardErrorResponse(c, colorError, format, scale);
+
+    const sort = query['sort']?.toLowerCase() || 'stars';
+    if (!(REPO_SORTS as readonly string[]).includes(sort)) {
+      return cardErrorResponse(
+        c,
+        badRequest(`Invalid sort: ${query['sort']}. Valid values are: stars, updated, forks`),
+        format,
+        scale
+      );
+    }
+
+    const count = query['count'] ? Number(query['count']) : DEFAULT_REPO_COUNT;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_REPO_COUNT) {
+      return cardErrorResponse(
+        c,
+        badRequest(`Invalid count: ${query['count']}. Valid values are 1 to ${MAX_REPO_COUNT}`),
+        format,
+        scale
+      );
+    }
+
+    const exclude = (query['exclude'] ?? '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+
+    const result = await getCachedRepositories(username);
+    const repos = selectRepositories(result.value.repos, {
+      sort: sort as RepoSort,
+      exclude,
+      count,
+    });
+    const svg = renderReposCard(result.value, repos, themeOptions(query));
+
+    return cardResponse(c, svg, output, result);
+  } catch (err: unknown) {
+    return cardErrorResponse(c, toHttpError(err), format, scale);
+  }
+});
+
+/**
+ * GET /repo/:owner/:name
+ * Generates a pin card for a single repository: description, primary
+ * language, stars, forks, open issues, license and latest release.
+ * Supports the same output formats and theme options as /card/:username
+ * (the extension goes on the repository name, e.g. "/repo/octocat/hello-world.png").
+ *
+ * Query parameters:
+ *   - theme, title_color, text_color, icon_color, bg_color, border_color, hide_border
+ *   - format, scale: see /card/:username
+ */
+app.get('/repo/:owner/:name', async (c) => {
+  const owner = c.req.param('owner');
+  const { username: name, format: suffixFormat } = splitFormatSuffix(c.req.param('name'));
+  const query = c.req.query();
+
+  const output = parseCardOutput(query, suffixFormat);
+  const { format, scale } = output;
+  if (output.error) return cardErrorResponse(c, output.error, format, scale);
+
+  try {
+    // Owners are users or organizations, which share the username rules
+    if (!owner || !isValidGitHubUsername(owner)) {
+      return cardErrorResponse(c, badRequest(INVALID_USERNAME_ERROR), format, scale);
+    }
+    if (!name || !isValidRepoName(name)) {
+      return cardErrorResponse(c, badRequest(INVALID_REPO_NAME_ERROR), format, scale);
+    }
+
+    const colorError = invalidColorError(query);
+    if (colorError) return cardErrorResponse(c, colorError, format, scale);
+
+    const result = await getCachedRepository(owner, name);
+    const svg = renderRepoCard(result.value, themeOptions(query));
+
+    return cardResponse(c, svg, output, result);
+  } catch (err: unknown) {
+    return cardErrorResponse(c, toHttpError(err), format, scale);
+  }
+});
+
+/**
+ * GET /org/:login
+ * Generates an organization card: avatar, name, description, public
+ * repository count, total stars across public repositories, member count
+ * and top languages. Supports the same output formats and theme options
+ * as /card/:username.
+ *
+ * Query parameters:
+ *   - theme, title_color, text_color, icon_color, bg_color, border_color, hide_border
+ *   - format, scale: see /card/:username
+ */
+app.get('/org/:login', async (c) => {
+  const { username: login, format: suffixFormat } = splitFormatSuffix(c.req.param('login'));
+  const query = c.req.query();
+
+  const output = parseCardOutput(query, suffixFormat);
+  const { format, scale } = output;
+  if (output.error) return cardErrorResponse(c, output.error, format, scale);
+
+  try {
+    if (!login || !isValidOrgLogin(login)) {
+      return cardErrorResponse(c, badRequest(INVALID_ORG_LOGIN_ERROR), format, scale);
+    }
+
+    const colorError = invalidColorError(query);
+    if (colorError) return cardErrorResponse(c, colorError, format, scale);
+
+    const result = await getCachedOrganization(login);
+    const svg = renderOrgCard(result.value, themeOptions(query));
+
+    return cardResponse(c, svg, output, result);
+  } catch (err: unknown) {
+    return cardErrorResponse(c, toHttpError(err), format, scale);
+  }
+});
+
+/** Accepted values for the team card `sort` parameter */
+const TEAM_SORTS: readonly TeamSort[] = ['input', 'stars', 'commits', 'name'];
+
+/** Maximum number of users and columns on the team card */
+const MAX_TEAM_USERS = 30;
+const MAX_TEAM_COLUMNS = 6;
+
+/**
+ * GET /team
+ * Generates a grid of mini profile tiles (avatar, name, stars, commits)
+ * for several users. Profiles are fetched concurrently with a bounded
+ * limit; users that fail to load get a placeholder tile. Supports the
+ * same output formats and theme options as /card/:username (the format
+ * is chosen with `format`, as there is no path segment to suffix).
+ *
+ * Query parameters:
+ *   - users: Comma-separated GitHub usernames, 1-30 (required)
+ *   - columns: Tiles per row, 1-6 (default: 3)
+ *   - sort: "input" (default, order of `users`), "stars", "commits" or "name"
+ *   - theme, title_color, text_color, icon_color, bg_color, border_color, hide_border
+ *   - format, scale: see /card/:username
+ */
+app.get('/team', async (c) => {
+  const query = c.req.query();
+
+  const output = parseCardOutput(query, null);
+  const { format, scale } = output;
+  if (output.error) return cardErrorResponse(c, output.error, format, scale);
+
+  try {
+    // Deduplicate case-insensitively, keeping the first spelling
+    const users: string[] = [];
+    const seen = new Set<string>();
+    for (const entry of (query['users'] ?? '').split(',')) {
+      const login = entry.trim();
+      if (!login || seen.has(login.toLowerCase())) continue;
+      seen.add(login.toLowerCase());
+      users.push(login);
+    }
+
+    if (users.length === 0) {
+      return cardErrorResponse(
+        c,
+        badRequest('Missing users. Pass a comma-separated list, e.g. ?users=octocat,torvalds'),
+        format,
+        scale
+      );
+    }
+    if (users.length > MAX_TEAM_USERS) {
+      return cardErrorResponse(
+        c,
+        badRequest(`Too many users: ${users.length}. The maximum is ${MAX_TEAM_USERS}`),
+        format,
+        scale
+      );
+    }
+    const invalid = users.find((u) => !isValidGitHubUsername(u));
+    if (invalid) {
+      return cardErrorResponse(
+        c,
+        badRequest(`Invalid username in users: ${invalid}`),
+        format,
+        scale
+      );
+    }
+
+    const colorError = invalidColorError(query);
+    if (colorError) return cardErrorResponse(c, colorError, format, scale);
+
+    const sort = query['sort']?.toLowerCase() || 'input';
+    if (!(TEAM_SORTS as readonly string[]).includes(sort)) {
+      return cardErrorResponse(
+        c,
+        badRequest(`Invalid sort: ${query['sort']}. Valid values are: ${TEAM_SORTS.join(', ')}`),
+        format,
+        scale
+      );
+    }
+
+    const columns = query['columns'] ? Number(query['columns']) : undefined;
+    if (
+      columns !== undefined &&
+      (!Number.isInteger(columns) || columns < 1 || columns > MAX_TEAM_COLUMNS)
+    ) {
+      return cardErrorResponse(
+        c,
+        badRequest(
+          `Invalid columns: ${query['columns']}. Valid values are 1 to ${MAX_TEAM_COLUMNS}`
+        ),
+        format,
+        scale
+      );
+    }
+
+    const result = await getTeamProfiles(users);
+
+    // Nothing to show: surface the first failure (e.g. a rate limit) as the card error
+    const [first] = result.value;
+    if (first?.error && result.value.every((m) => m.error)) {
+      return cardErrorResponse(c, first.error, format, scale);
+    }
+
+    const members = sortTeamMembers(result.value, sort as TeamSort);
+    const svg = renderTeamCard(members, { ...themeOptions(query), columns });
 
-      return c.json({ error: message }, 500);
+    // Placeholder tiles are retried soon rather than cached with the card
+    const partial = result.value.some((m) => m.error);
+    return cardResponse(c, svg, output, result, partial ? ERROR_CACHE_CONTROL : undefined);
+  } catch (err: unknown) {
+    return cardErrorResponse(c, toHttpError(err), format, scale);
+  }
+});
+
+/**
+ * GET /compare/:userA/:userB
+ * Generates a side-by-side comparison of two users: their stats in two
+ * columns with the higher value of each highlighted, and their language
+ * shares overlaid per language. If one user fails to load, that side is
+ * shown as a placeholder; if both fail, the first error is returned.
+ * Supports the same output formats and theme options as /card/:username
+ * (the extension goes on the second user, e.g. "/compare/alice/bob.png").
+ *
+ * Query parameters:
+ *   - theme, title_color, text_color, icon_color, bg_color, border_color, hide_border
+ *   - format, scale: see /card/:username
+ */
+app.get('/compare/:userA/:userB', async (c) => {
+  const userA = c.req.param('userA');
+  const { username: userB, format: suffixFormat } = splitFormatSuffix(c.req.param('userB'));
+  const query = c.req.query();
+
+  const output = parseCardOutput(query, suffixFormat);
+  const { format, scale } = output;
+  if (output.error) return cardErrorResponse(c, output.error, format, scale);
+
+  try {
+    if (!userA || !isValidGitHubUsername(userA) || !userB || !isValidGitHubUsername(userB)) {
+      return cardErrorResponse(c, badRequest(INVALID_USERNAME_ERROR), format, scale);
     }
+    if (userA.toLowerCase() === userB.toLowerCase()) {
+      return cardErrorResponse(
+        c,
+        badRequest('Choose two different users to compare'),
+        format,
+        scale
+      );
+    }
+
+    const colorError = invalidColorError(query);
+    if (colorError) return cardErrorResponse(c, colorError, format, scale);
+
+    const result = await getTeamProfiles([userA, userB], { includeLanguages: true });
+    const [left, right] = result.value as [TeamMember, TeamMember];
+    if (left.error && right.error) return cardErrorResponse(c, left.error, format, scale);
 
-    return c.json({ error: 'An unexpected error occurred' }, 500);
+    const svg = renderCompareCard(left, right, themeOptions(query));
+
+    // A placeholder side is retried soon rather than cached with the card
+    const partial = left.error || right.error;
+    return cardResponse(c, svg, output, result, partial ? ERROR_CACHE_CONTROL : undefined);
+  } catch (err: unknown) {
+    return cardErrorResponse(c, toHttpError(err), format, scale);
   }
 });
 
 /**
  * GET /health
  * Simple health check endpoint for monitoring and uptime pings.
+ * Reports the token pool only as a whole: healthy or exhausted.
  */
 app.get('/health', (c) => {
-  return c.json({ status: 'ok', timestamp: new Date().toISOString() });
+  return c.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    tokens: getTokenPoolHealth(),
+  });
 });
 
+/**
+ * GET /health/tokens
+ * Operator-only view of each pooled token (fingerprint, state, remaining
+ * budget, reset time). Requires `Authorization: Bearer <HEALTH_TOKEN>`;
+ * when HEALTH_TOKEN is unset the route does not exist.
+ */
+app.get(
+  '/health/tokens',
+  (c, next) => {
+    const token = process.env['HEALTH_TOKEN'];
+    if (!token) return c.notFound();
+    return bearerAuth({ token })(c, next);
+  },
+  (c) => {
+    return c.json({ timestamp: new Date().toISOString(), tokens: getTokenPoolStatus() });
+  }
+);
+
 export default app;
@@ -0,0 +1,156 @@
+/**
+ * Filesystem cache store.
+ * Persists entries as JSON files so a self-hosted instance keeps its
+ * cache across restarts without any external service. Each key maps to
+ * one file named after the key's SHA-256 hash. Bounded in size with FIFO
+ * eviction and a periodic sweep of expired files, like the memory store.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { CacheStore } from '../../types/index.js';
+
+/**
+ * Maximum number of files kept in the cache directory. Keys embed
+ * request options (language filters, commits range, ...), so without a
+ * bound anyone could fill the disk by varying query parameters.
+ */
+const MAX_FILE_ENTRIES = 5000;
+
+/** Interval (in ms) for the periodic sweep that deletes expired files */
+const FILE_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/** On-disk shape of a cache file */
+interface FileEntry {
+  key: string;
+  expiresAt: number;
+  value: unknown;
+}
+
+/**
+ * Creates a store that keeps one JSON file per key inside `dir`.
+ * Files are tracked in an index of their expiry times, in write order,
+ * which is seeded from the directory on first use. The oldest files are
+ * deleted once more than maxEntries are kept.
+ */
+export function createFileStore(dir: string, maxEntries = MAX_FILE_ENTRIES): CacheStore {
+  /** Expiry time (epoch ms) of each cache file, oldest write first */
+  const index = new Map<string, number>();
+  let ready: Promise<unknown> | null = null;
+
+  /** Creates the cache directory and indexes the files already in it, once */
+  function ensureDir(): Promise<unknown> {
+    if (!ready) {
+      ready = mkdir(dir, { recursive: true }).then(async () => {
+        const found: Array<[string, number]> = [];
+        for (const name of await readdir(dir)) {
+          const file = path.join(dir, name);
+          if (!name.endsWith('.json') || index.has(file)) continue;
+          try {
+            const entry = JSON.parse(await readFile(file, 'utf8')) as FileEntry;
+            found.push([file, entry.expiresAt]);
+          } catch {
+            await rm(file, { force: true });
+          }
+        }
+        // Write order is not recorded; the soonest to expire go first instead
+        found.sort((a, b) => a[1] - b[1]);
+        for (const [file, expiresAt] of found) index.set(file, expiresAt);
+        await evict();
+      });
+      // Allow a retry on the next call if the directory could not be read
+      ready.catch(() => {
+        ready = null;
+      });
+    }
+    return ready;
+  }
+
+  /** Deletes the oldest files while more than maxEntries are indexed */
+  async function evict(): Promise<void> {
+    while (index.size > maxEntries) {
+      const oldest = index.keys().next();
+      if (oldest.done) break;
+      index.delete(oldest.value);
+      await rm(oldest.value, { force: true });
+    }
+  }
+
+  /**
+   * Periodic sweep timer — deletes expired files proactively. Uses
+   * unref() so the timer does not keep the Node.js process alive.
+   */
+  const sweepTimer = setInterval(() => {
+    const now = Date.now();
+    for (const [file, expiresAt] of index) {
+      if (expiresAt > now) continue;
+      index.delete(file);
+      rm(file, { force: true }).catch(() => {});
+    }
+  }, FILE_SWEEP_INTERVAL_MS);
+  if (typeof sweepTimer === 'object' && 'unref' in sweepTimer) {
+    sweepTimer.unref();
+  }
+
+  function fileFor(key: string): string {
+    return path.join(dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  /** Reads a live entry, removing the file if it has expired or is unreadable */
+  async function read(key: string): Promise<FileEntry | null> {
+    const file = fileFor(key);
+    let entry: FileEntry;
+    try {
+      entry = JSON.parse(await readFile(file, 'utf8')) as FileEntry;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      // Corrupt file (e.g. partial write from an older version): drop it
+      index.delete(file);
+      await rm(file, { force: true });
+      return null;
+    }
+    if (entry.key !== key || entry.expiresAt <= Date.now()) {
+      index.delete(file);
+      await rm(file, { force: true });
+      return null;
+    }
+    return entry;
+  }
+
+  return {
+    name: 'fs',
+
+    async get<T>(key: string): Promise<T | null> {
+      return ((await read(key))?.value as T | undefined) ?? null;
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+      await ensureDir();
+      const entry: FileEntry = { key, expiresAt: Date.now() + ttlSeconds * 1000, value };
+      // Write to a temp file and rename so readers never see a partial file
+      const file = fileFor(key);
+      const tmp = `${file}.${randomUUID()}.tmp`;
+      await writeFile(tmp, JSON.stringify(entry), 'utf8');
+      await rename(tmp, file);
+
+      // Delete first so re-insertion moves the file to the end (most recent)
+      index.delete(file);
+      index.set(file, entry.expiresAt);
+      await evict();
+    },
+
+    async delete(key: string): Promise<void> {
+      const file = fileFor(key);
+      index.delete(file);
+      await rm(file, { force: true });
+    },
+
+    async ttl(key: string): Promise<number | null> {
+      const entry = await read(key);
+      return entry ? Math.ceil((entry.expiresAt - Date.now()) / 1000) : null;
+    },
+  };
+}
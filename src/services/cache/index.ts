@@ -0,0 +1,144 @@
+/**
+ * Cache store selection and the ordered cache chain.
+ * The chain is a list of CacheStore backends consulted fastest-first:
+ * reads return the first hit (and backfill the faster stores in front
+ * of it), writes go to every store. A failing store is logged and
+ * skipped so a Redis outage never breaks card rendering.
+ *
+ * Configured via environment variables:
+ *   - CACHE_STORES: comma-separated, ordered list of "memory", "redis",
+ *     "fs" and "sqlite" (default: "memory", plus "redis" when Upstash
+ *     credentials are set)
+ *   - CACHE_DIR: directory for the "fs" store (default: .cache/profile-card)
+ *   - CACHE_SQLITE_PATH: database file for the "sqlite" store
+ *     (default: .cache/profile-card.sqlite)
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import path from 'node:path';
+import type { CacheStore } from '../../types/index.js';
+import { createFileStore } from './file.js';
+import { createMemoryStore } from './memory.js';
+import { createRedisStore, readRedisConfig } from './redis.js';
+import { createSqliteStore } from './sqlite.js';
+
+export { createFileStore, createMemoryStore, createRedisStore, createSqliteStore };
+
+/** Builds a store by name, or returns null when it cannot be configured */
+function createStore(name: string): CacheStore | null {
+  switch (name) {
+    case 'memory':
+      return createMemoryStore();
+    case 'redis': {
+      const config = readRedisConfig();
+      if (!config) {
+        console.warn('CACHE_STORES includes "redis" but Upstash credentials are not set');
+        return null;
+      }
+      return createRedisStore(config);
+    }
+    case 'fs':
+      return createFileStore(
+        process.env['CACHE_DIR'] || path.join(process.cwd(), '.cache', 'profile-card')
+      );
+    case 'sqlite':
+      return createSqliteStore(
+        process.env['CACHE_SQLITE_PATH'] ||
+          path.join(process.cwd(), '.cache', 'profile-card.sqlite')
+      );
+    default:
+      console.warn(`Unknown cache store "${name}" in CACHE_STORES (ignored)`);
+      return null;
+  }
+}
+
+/**
+ * Creates the ordered store chain from a list of store names
+ * (defaults to the CACHE_STORES environment variable).
+ */
+export function createCacheChain(names?: string[]): CacheStore[] {
+  const configured =
+    names ??
+    process.env['CACHE_STORES']
+      ?.split(',')
+      .map((n) => n.trim().toLowerCase())
+      .filter(Boolean);
+  const selected = configured?.length
+    ? configured
+    : ['memory', ...(readRedisConfig() ? ['redis'] : [])];
+
+  return [...new Set(selected)]
+    .map(createStore)
+    .filter((store): store is CacheStore => store !== null);
+}
+
+/** Process-wide chain, built from the environment on first use */
+let chain: CacheStore[] | null = null;
+
+function getChain(): CacheStore[] {
+  if (!chain) chain = createCacheChain();
+  return chain;
+}
+
+/** Logs a store failure without interrupting the request */
+function warnStore(store: CacheStore, op: string, err: unknown): void {
+  console.warn(`Cache ${store.name} ${op} error:`, err instanceof Error ? err.message : err);
+}
+
+/**
+ * Reads a key through the chain. On a hit in a slower store, the value
+ * is copied into the faster stores before it with the remaining TTL.
+ *
+ * @param key      - Namespaced cache key (e.g. "profile:octocat:langs")
+ * @param validate - Optional guard that rejects values written by an
+ *                   older, incompatible version of the app
+ */
+export async function cacheGet<T>(
+  key: string,
+  validate?: (value: T) => boolean
+): Promise<T | null> {
+  const stores = getChain();
+
+  for (let i = 0; i < stores.length; i++) {
+    const store = stores[i]!;
+    let value: T | null;
+    try {
+      value = await store.get<T>(key);
+    } catch (err) {
+      warnStore(store, 'get', err);
+      continue;
+    }
+    if (value === null || (validate && !validate(value))) continue;
+
+    if (i > 0) {
+      try {
+        const ttl = await store.ttl(key);
+        if (ttl && ttl > 0) {
+          await Promise.all(stores.slice(0, i).map((s) => s.set(key, value, ttl)));
+        }
+      } catch (err) {
+        warnStore(store, 'backfill', err);
+      }
+    }
+    return value;
+  }
+
+  return null;
+}
+
+/** Writes a value to every store in the chain */
+export async function cacheSet<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+  await Promise.all(
+    getChain().map((store) =>
+      store.set(key, value, ttlSeconds).catch((err) => warnStore(store, 'set', err))
+    )
+  );
+}
+
+/** Removes a key from every store in the chain */
+export async function cacheDelete(key: string): Promise<void> {
+  await Promise.all(
+    getChain().map((store) => store.delete(key).catch((err) => warnStore(store, 'delete', err)))
+  );
+}
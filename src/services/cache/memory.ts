@@ -0,0 +1,99 @@
+/**
+ * In-memory cache store.
+ * Fastest tier, scoped to a single instance. Bounded in size with FIFO
+ * eviction and a periodic sweep of expired entries.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { CacheStore } from '../../types/index.js';
+
+/**
+ * Maximum number of entries allowed in the in-memory cache.
+ * When this limit is exceeded, the oldest entries (by insertion order)
+ * are evicted to keep memory usage bounded.
+ * [Fix] Issue #3 Bug 1 - Previously the cache had no size limit and could
+ * grow indefinitely when many unique usernames were queried.
+ */
+const MAX_CACHE_SIZE = 500;
+
+/**
+ * Interval (in ms) for the periodic sweep that prunes expired entries.
+ * Runs every 5 minutes so stale entries don't linger until the next read.
+ * [Fix] Issue #3 Bug 1 - Previously expired entries were only cleaned on
+ * read, meaning entries for usernames never requested again stayed forever.
+ */
+const CACHE_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/** In-memory cache entry with its expiry time (epoch ms) */
+interface MemoryEntry {
+  expiresAt: number;
+  value: unknown;
+}
+
+/**
+ * Creates an in-memory store.
+ * Uses FIFO eviction with write-refresh: oldest entries (by insertion
+ * order) are removed first when maxEntries is exceeded. Writes refresh an
+ * entry's position but reads do not, so this is not true LRU. For a
+ * 500-entry cache with 30-minute TTL this is sufficient.
+ */
+export function createMemoryStore(maxEntries = MAX_CACHE_SIZE): CacheStore {
+  const entries = new Map<string, MemoryEntry>();
+
+  /** Returns a live entry, deleting it first if it has expired */
+  function live(key: string): MemoryEntry | null {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  /**
+   * Periodic sweep timer — prunes expired entries proactively. Uses
+   * unref() so the timer does not keep the Node.js process alive.
+   * [Fix] Issue #3 Bug 1
+   */
+  const sweepTimer = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) entries.delete(key);
+    }
+  }, CACHE_SWEEP_INTERVAL_MS);
+  if (typeof sweepTimer === 'object' && 'unref' in sweepTimer) {
+    sweepTimer.unref();
+  }
+
+  return {
+    name: 'memory',
+
+    async get<T>(key: string): Promise<T | null> {
+      return (live(key)?.value as T | undefined) ?? null;
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+      // Delete first so re-insertion moves the key to the end (most recent)
+      entries.delete(key);
+      entries.set(key, { expiresAt: Date.now() + ttlSeconds * 1000, value });
+
+      // Evict the oldest entries (Map.keys() iterates in insertion order)
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next();
+        if (oldest.done) break;
+        entries.delete(oldest.value);
+      }
+    },
+
+    async delete(key: string): Promise<void> {
+      entries.delete(key);
+    },
+
+    async ttl(key: string): Promise<number | null> {
+      const entry = live(key);
+      return entry ? Math.ceil((entry.expiresAt - Date.now()) / 1000) : null;
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Upstash Redis cache store.
+ * Shared across instances (serverless functions, multiple servers).
+ * The client is imported lazily so the app works without Upstash.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { Redis } from '@upstash/redis';
+import type { CacheStore } from '../../types/index.js';
+
+/** Reads Upstash credentials from the environment (supports both naming conventions) */
+export function readRedisConfig(): { url: string; token: string } | null {
+  const url = process.env['UPSTASH_REDIS_REST_URL'] || process.env['KV_REST_API_URL'] || '';
+  const token = process.env['UPSTASH_REDIS_REST_TOKEN'] || process.env['KV_REST_API_TOKEN'] || '';
+  return url && token ? { url, token } : null;
+}
+
+/** Creates a store backed by Upstash Redis over its REST API */
+export function createRedisStore(config: { url: string; token: string }): CacheStore {
+  /** Lazy-loaded client singleton */
+  let clientPromise: Promise<Redis> | null = null;
+
+  function client(): Promise<Redis> {
+    if (!clientPromise) {
+      clientPromise = import('@upstash/redis').then((mod) => new mod.Redis(config));
+      // Allow a retry on the next call if the import failed
+      clientPromise.catch(() => {
+        clientPromise = null;
+      });
+    }
+    return clientPromise;
+  }
+
+  return {
+    name: 'redis',
+
+    async get<T>(key: string): Promise<T | null> {
+      return (await client()).get<T>(key);
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+      await (await client()).set(key, value, { ex: ttlSeconds });
+    },
+
+    async delete(key: string): Promise<void> {
+      await (await client()).del(key);
+    },
+
+    async ttl(key: string): Promise<number | null> {
+      // Redis returns -2 for missing keys and -1 for keys without expiry
+      const seconds = await (await client()).ttl(key);
+      return seconds >= 0 ? seconds : null;
+    },
+  };
+}
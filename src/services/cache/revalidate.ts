@@ -0,0 +1,146 @@
+/**
+ * Stale-while-revalidate reads on top of the cache chain.
+ * Values are stored with the time they were fetched and kept for a
+ * grace window past their TTL. A stale value is served immediately
+ * while a single background refresh replaces it; if the refresh fails
+ * the stale value keeps being served until the grace window ends.
+ * Live loads are deduplicated per key and capped per instance.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { CachedResult } from '../../types/index.js';
+import { TooManyInFlightError } from '../errors.js';
+import { cacheGet, cacheSet } from './index.js';
+
+/** Maximum number of in-flight requests to prevent memory bloat */
+export const MAX_IN_FLIGHT_REQUESTS = 100;
+
+/** How long values are fresh, and how long past that they may be served stale */
+export interface RevalidateOptions<T> {
+  ttlSeconds: number;
+  staleSeconds: number;
+  /**
+   * Optional guard that rejects values written by an older,
+   * incompatible version of the app (treated as misses)
+   */
+  validate?: (value: T) => boolean;
+}
+
+/** Stored shape: the value plus when it was fetched (epoch ms) */
+interface CacheEnvelope<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+/**
+ * Live loads currently running, keyed by cache key, so concurrent
+ * requests (and background refreshes) for the same key share one load.
+ */
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * How many more live loads this instance may start before hitting
+ * MAX_IN_FLIGHT_REQUESTS, for callers that fan out several loads at once.
+ */
+export function inFlightCapacity(): number {
+  return Math.max(0, MAX_IN_FLIGHT_REQUESTS - inFlight.size);
+}
+
+/** Runs `load` once per key at a time and writes the result to the chain */
+function loadShared<T>(
+  key: string,
+  load: () => Promise<T>,
+  opts: RevalidateOptions<T>
+): Promise<T> {
+  const existing = inFlight.get(key);
+  if (existing) return existing as Promise<T>;
+
+  if (inFlight.size >= MAX_IN_FLIGHT_REQUESTS) {
+    return Promise.reject(new TooManyInFlightError());
+  }
+
+  const request = (async (): Promise<T> => {
+    try {
+      const value = await load();
+      const envelope: CacheEnvelope<T> = { value, fetchedAt: Date.now() };
+      // Kept past the TTL so it can still be served stale during the grace window
+      await cacheSet(key, envelope, opts.ttlSeconds + opts.staleSeconds);
+      return value;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+
+  // Store the in-flight promise so concurrent requests share it
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Starts a background refresh unless one is already running for the key
+ * or the instance is at its in-flight limit. Failures are logged only.
+ */
+function refreshInBackground<T>(
+  key: string,
+  load: () => Promise<T>,
+  opts: RevalidateOptions<T>
+): void {
+  if (inFlight.has(key) || inFlight.size >= MAX_IN_FLIGHT_REQUESTS) return;
+  loadShared(key, load, opts).catch((err) => {
+    console.warn(
+      `Background refresh failed for ${key}, serving stale value:`,
+      err instanceof Error ? err.message : err
+    );
+  });
+}
+
+/**
+ * Reads a key from the cache chain without loading on a miss.
+ * A stale hit triggers a background refresh with `load`.
+ * Returns null when nothing usable is cached.
+ */
+export async function peekCached<T>(
+  key: string,
+  load: () => Promise<T>,
+  opts: RevalidateOptions<T>
+): Promise<CachedResult<T> | null> {
+  const entry = await cacheGet<CacheEnvelope<T>>(
+    key,
+    (e) =>
+      typeof e?.fetchedAt === 'number' &&
+      e.value != null &&
+      (!opts.validate || opts.validate(e.value))
+  );
+  if (!entry) return null;
+
+  const age = Math.max(0, Math.floor((Date.now() - entry.fetchedAt) / 1000));
+  if (age < opts.ttlSeconds) {
+    return { value: entry.value, status: 'HIT', age };
+  }
+  if (age >= opts.ttlSeconds + opts.staleSeconds) return null;
+
+  refreshInBackground(key, load, opts);
+  return { value: entry.value, status: 'STALE', age };
+}
+
+/**
+ * Loads a value live (deduplicated with any in-flight load for the key)
+ * and caches it. Throws TooManyInFlightError at the in-flight limit.
+ */
+export async function loadCached<T>(
+  key: string,
+  load: () => Promise<T>,
+  opts: RevalidateOptions<T>
+): Promise<CachedResult<T>> {
+  return { value: await loadShared(key, load, opts), status: 'MISS', age: 0 };
+}
+
+/** Reads a key through the cache, loading it live on a miss */
+export async function cachedFetch<T>(
+  key: string,
+  load: () => Promise<T>,
+  opts: RevalidateOptions<T>
+): Promise<CachedResult<T>> {
+  return (await peekCached(key, load, opts)) ?? loadCached(key, load, opts);
+}
@@ -0,0 +1,118 @@
+/**
+ * SQLite cache store.
+ * Persists entries in a single SQLite database file using Node's
+ * built-in `node:sqlite` module (no native dependency to install).
+ * The module is imported lazily so other stores work on runtimes
+ * that do not ship it. Bounded in size with FIFO eviction and a
+ * periodic sweep of expired rows, like the memory store.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import type { DatabaseSync } from 'node:sqlite';
+import type { CacheStore } from '../../types/index.js';
+
+/**
+ * Maximum number of rows kept in the cache table. Keys embed request
+ * options (language filters, commits range, ...), so without a bound
+ * anyone could grow the database by varying query parameters.
+ */
+const MAX_SQLITE_ENTRIES = 5000;
+
+/** Interval (in ms) for the periodic sweep that deletes expired rows */
+const SQLITE_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Row shape of the cache table */
+interface CacheRow {
+  value: string;
+  expires_at: number;
+}
+
+/**
+ * Creates a store backed by the SQLite database at `file`. Writes
+ * replace a row (giving it a new rowid), so rowid order is write order
+ * and the oldest rows are deleted once more than maxEntries are kept.
+ */
+export function createSqliteStore(file: string, maxEntries = MAX_SQLITE_ENTRIES): CacheStore {
+  let dbPromise: Promise<DatabaseSync> | null = null;
+
+  /** Opens the database and creates the cache table on first use */
+  function db(): Promise<DatabaseSync> {
+    if (!dbPromise) {
+      dbPromise = (async () => {
+        await mkdir(path.dirname(file), { recursive: true });
+        const { DatabaseSync } = await import('node:sqlite');
+        const database = new DatabaseSync(file);
+        database.exec(`
+          PRAGMA journal_mode = WAL;
+          CREATE TABLE IF NOT EXISTS cache (
+            key TEXT PRIMARY KEY,
+            value TEXT NOT NULL,
+            expires_at INTEGER NOT NULL
+          );
+          CREATE INDEX IF NOT EXISTS cache_expires_at ON cache (expires_at);
+        `);
+        // Expired rows are ignored on read; prune them on start and every sweep
+        const sweep = () =>
+          database.prepare('DELETE FROM cache WHERE expires_at <= ?').run(Date.now());
+        sweep();
+        // unref() so the timer does not keep the Node.js process alive
+        const sweepTimer = setInterval(sweep, SQLITE_SWEEP_INTERVAL_MS);
+        if (typeof sweepTimer === 'object' && 'unref' in sweepTimer) {
+          sweepTimer.unref();
+        }
+        return database;
+      })();
+      // Allow a retry on the next call if opening failed
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  }
+
+  /** Reads a live row (expired rows are treated as missing) */
+  async function read(key: string): Promise<CacheRow | null> {
+    const row = (await db())
+      .prepare('SELECT value, expires_at FROM cache WHERE key = ? AND expires_at > ?')
+      .get(key, Date.now()) as CacheRow | undefined;
+    return row ?? null;
+  }
+
+  return {
+    name: 'sqlite',
+
+    async get<T>(key: string): Promise<T | null> {
+      const row = await read(key);
+      return row ? (JSON.parse(row.value) as T) : null;
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+      const database = await db();
+      database
+        .prepare('INSERT OR REPLACE INTO cache (key, value, expires_at) VALUES (?, ?, ?)')
+        .run(key, JSON.stringify(value), Date.now() + ttlSeconds * 1000);
+
+      // Evict the oldest rows beyond the limit
+      database
+        .prepare(
+          `DELETE FROM cache WHERE rowid IN (
+             SELECT rowid FROM cache ORDER BY rowid
+             LIMIT max(0, (SELECT COUNT(*) FROM cache) - ?)
+           )`
+        )
+        .run(maxEntries);
+    },
+
+    async delete(key: string): Promise<void> {
+      (await db()).prepare('DELETE FROM cache WHERE key = ?').run(key);
+    },
+
+    async ttl(key: string): Promise<number | null> {
+      const row = await read(key);
+      return row ? Math.ceil((row.expires_at - Date.now()) / 1000) : null;
+    },
+  };
+}
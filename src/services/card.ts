@@ -6,8 +6,289 @@
  * @author Nayan Das <https://github.com/nayandas69>
  */
 
-import type { CardOptions, LanguageStat, UserProfile, UserStats } from '../types/index.js';
-import { escapeXml, icon, kFormat, resolveColors } from '../utils/index.js';
+import type {
+  CardOptions,
+  LanguageStat,
+  LangWeighting,
+  StatKey,
+  UserProfile,
+  UserRank,
+  UserStats,
+} from '../types/index.js';
+import {
+  escapeXml,
+  icon,
+  isRtlLocale,
+  languageIcon,
+  resolveColors,
+  translate,
+  wrapWords,
+} from '../utils/index.js';
+import type { TranslationKey } from '../utils/index.js';
+import { calculateRank } from './rank.js';
+import { DEFAULT_STATS, formatStat, STAT_DEFINITIONS, statLabel } from './stats.js';
+import type { StatSegment } from './stats.js';
+
+/** Font stack shared by every card variant */
+export const FONT_FAMILY =
+  'ui-sans-serif, -apple-system, BlinkMacSystemFont, Segoe UI, Helvetica Neue, Arial';
+
+/**
+ * Wraps text in Unicode first-strong isolate marks, so each string takes
+ * its direction from its first letter: Arabic and Hebrew read right to
+ * left with their punctuation in place, whilst Latin names keep theirs.
+ */
+function isolateBidi(text: string): string {
+  return `\u2068${text}\u2069`;
+}
+
+/* --- Language bar --- */
+
+/**
+ * What a language share is a share of, for each weighting (see
+ * CardOptions.lang_weighting), as a key of the translations catalog
+ */
+export const LANG_WEIGHTING_LABELS: Record<LangWeighting, TranslationKey> = {
+  size: 'shareOfBytes',
+  repo_count: 'shareOfRepos',
+  blend: 'blended',
+};
+
+/** Value a language's share is computed from: its weight, or its size when unweighted */
+export function languageWeight(lang: LanguageStat): number {
+  return lang.weight ?? lang.size;
+}
+
+/**
+ * Renders the proportional segments of a language bar (without the track
+ * or the rounded clip path, which each card draws itself). With `rtl`,
+ * the first language starts at the right end.
+ */
+export function renderLanguageSegments(
+  langs: LanguageStat[],
+  x: number,
+  y: number,
+  width: number,
+  rtl = false
+): string {
+  const totalSize = langs.reduce((sum, l) => sum + languageWeight(l), 0) || 1;
+  let offset = 0;
+  return langs
+    .map((lang) => {
+      const w = (languageWeight(lang) / totalSize) * width;
+      const rx = rtl ? x + width - offset - w : x + offset;
+      const r = `<rect x="${rx}" y="${y}" width="${w}" height="8" fill="${lang.color}"/>`;
+      offset += w;
+      return r;
+    })
+    .join('');
+}
+
+/**
+ * [Fix] Issue #3 Bug 5 - Two-pass fit-all label layout.
+ *
+ * Previously labels were evenly spaced by `barWidth / langs.length`, so
+ * long names like "TypeScript 45%" would overlap the next label. The first
+ * attempted fix skipped labels that overflowed, but that hid languages
+ * entirely (e.g. "Jupyter Notebook 4%" disappeared).
+ *
+ * New approach (two-pass fit-all):
+ *   Pass 1 - Try rendering all labels at full name length. If the total
+ *            estimated width fits within barWidth, use them as-is.
+ *   Pass 2 - If they don't fit, progressively reduce the max allowed
+ *            name characters (uniformly across all labels) until they fit.
+ *            Minimum name length is 2 chars + ellipsis (e.g. "Ty...").
+ *
+ * Rules:
+ *   - Every language is ALWAYS shown (never hidden/skipped)
+ *   - Percentage is NEVER truncated (e.g. "41%" always visible)
+ *   - Only the language name gets shortened when needed
+ *   - All labels share the same max name length for uniform appearance
+ *   - The colored dot is always present
+ *
+ * Labels use the `lang` CSS class, which the calling card defines. With
+ * `icons`, each dot is replaced by the language's bundled logo when there
+ * is one (see languageIcon). With `rtl`, the labels flow leftwards from
+ * the right end, each marker to the right of its text.
+ */
+export function renderLanguageLabels(
+  langs: LanguageStat[],
+  x: number,
+  y: number,
+  width: number,
+  icons = false,
+  rtl = false
+): string {
+  if (langs.length === 0) return '';
+
+  const CHAR_WIDTH = 6.2; // Approximate width per character at font-size 10px
+  const DOT_GAP = 18; // Colored circle (r=4 -> 8px) + padding to text start
+  const LABEL_PAD = 8; // Minimum padding between adjacent labels
+  const MIN_NAME_LEN = 2; // Shortest a name can be truncated to (+ ellipsis)
+  const totalSize = langs.reduce((sum, l) => sum + languageWeight(l), 0) || 1;
+
+  /**
+   * Builds label text for a language, truncating the name to maxNameLen
+   * characters if it exceeds that limit. Returns the display string.
+   */
+  function buildLabelText(name: string, pct: string, maxNameLen: number): string {
+    if (name.length <= maxNameLen) return `${name} ${pct}%`;
+    return `${name.slice(0, maxNameLen)}\u2026 ${pct}%`;
+  }
+
+  /**
+   * Estimates the total pixel width needed to render all labels at a
+   * given maxNameLen. Used by the two-pass loop to find the best fit.
+   */
+  function estimateTotalWidth(maxNameLen: number): number {
+    return langs.reduce((total, lang) => {
+      const pct = ((languageWeight(lang) / totalSize) * 100).toFixed(0);
+      const text = buildLabelText(lang.name, pct, maxNameLen);
+      return total + DOT_GAP + text.length * CHAR_WIDTH + LABEL_PAD;
+    }, 0);
+  }
+
+  // Find the longest language name to use as the starting point
+  const longestName = Math.max(...langs.map((l) => l.name.length));
+
+  // Pass 1 & 2: Start from full length, shrink until labels fit
+  let maxNameLen = longestName;
+  while (maxNameLen > MIN_NAME_LEN && estimateTotalWidth(maxNameLen) > width) {
+    maxNameLen--;
+  }
+
+  // Render all labels at the computed maxNameLen (every label is shown).
+  // The cursor is the slot's leading edge: its left, or its right with rtl
+  const dir = rtl ? -1 : 1;
+  let labelX = rtl ? x + width : x;
+  return langs
+    .map((lang) => {
+      const pct = ((languageWeight(lang) / totalSize) * 100).toFixed(0);
+      const labelText = buildLabelText(lang.name, pct, maxNameLen);
+      const textWidth = labelText.length * CHAR_WIDTH;
+      const slotWidth = DOT_GAP + textWidth + LABEL_PAD;
+
+      const cx = labelX + dir * 5; // Circle center x
+      const tx = labelX + dir * (DOT_GAP - 5); // Text start x (its right end with rtl)
+      const logo = icons ? languageIcon(lang.name, 10) : null;
+      const marker = logo
+        ? `<g transform="translate(${rtl ? labelX - 10 : labelX},${y - 5})">${logo}</g>`
+        : `<circle cx="${cx}" cy="${y}" r="4" fill="${lang.color}"/>`;
+      const text = rtl
+        ? `<text x="${tx}" y="${y + 4}" text-anchor="end" class="lang">${isolateBidi(escapeXml(labelText))}</text>`
+        : `<text x="${tx}" y="${y + 4}" class="lang">${escapeXml(labelText)}</text>`;
+      labelX += dir * slotWidth; // Advance cursor for the next label
+      return marker + text;
+    })
+    .join('');
+}
+
+/* --- Stats row --- */
+
+/** One stats row item, positioned relative to its row */
+interface PlacedStat {
+  key: StatKey;
+  label: string;
+  x: number;
+  width: number;
+  /** Breakdown bar segments (pr_breakdown), or null */
+  segments: StatSegment[] | null;
+}
+
+/**
+ * Splits the selected stats into rows that fit `width` and spreads each
+ * row across it: the first item starts at 0, the last ends at the right
+ * edge and the rest of the space is shared evenly between the gaps.
+ * Item widths are estimated from the value and label lengths, so a long
+ * label such as "Commits (2026)" gets the room it needs.
+ */
+function layoutStatRows(
+  stats: UserStats,
+  keys: readonly StatKey[],
+  width: number,
+  breakdown = false,
+  locale?: string
+): PlacedStat[][] {
+  const VALUE_CHAR_WIDTH = 8.6; // Approximate width per character at 14px bold
+  const LABEL_CHAR_WIDTH = 6.7; // Approximate width per uppercase character at 9px + spacing
+  const MIN_GAP = 16;
+  const BREAKDOWN_MIN_WIDTH = 56; // Keeps the smallest segments of a bar visible
+
+  const items = keys.map((key) => {
+    const label = statLabel(stats, key, locale);
+    const segments = (breakdown && STAT_DEFINITIONS[key].breakdown?.(stats, locale)) || null;
+    const valueWidth = 20 + formatStat(stats, key, locale).length * VALUE_CHAR_WIDTH;
+    const minWidth = segments ? BREAKDOWN_MIN_WIDTH : 0;
+    return {
+      key,
+      label,
+      segments,
+      width: Math.max(valueWidth, label.length * LABEL_CHAR_WIDTH, minWidth),
+    };
+  });
+
+  // Greedily fill rows, starting a new one when the next item would not fit
+  const rows: Array<typeof items> = [];
+  for (const item of items) {
+    const row = rows[rows.length - 1];
+    const used = row ? row.reduce((sum, i) => sum + i.width + MIN_GAP, 0) : 0;
+    if (row && used + item.width <= width) row.push(item);
+    else rows.push([item]);
+  }
+
+  return rows.map((row) => {
+    const total = row.reduce((sum, i) => sum + i.width, 0);
+    const gap = row.length > 1 ? (width - total) / (row.length - 1) : 0;
+    let x = 0;
+    return row.map((item) => {
+      const placed = { ...item, x: Math.round(x) };
+      x += item.width + gap;
+      return placed;
+    });
+  });
+}
+
+/**
+ * A thin bar under a stat, split into its segments in proportion to
+ * their values, each titled with its label and count. Segments of zero
+ * are skipped; with nothing to split, only the track is drawn. With
+ * `rtl`, the first segment starts at the right end.
+ */
+function renderBreakdownBar(
+  segments: StatSegment[],
+  y: number,
+  width: number,
+  trackColor: string,
+  rtl = false
+): string {
+  const total = segments.reduce((sum, s) => sum + s.value, 0);
+  let x = 0;
+  const parts = segments
+    .filter((s) => s.value > 0)
+    .map((s) => {
+      const w = (s.value / total) * width;
+      const svg = `<rect x="${(rtl ? width - x - w : x).toFixed(2)}" y="${y}" width="${w.toFixed(2)}" height="3" fill="${s.color}"><title>${s.label}: ${s.value}</title></rect>`;
+      x += w;
+      return svg;
+    })
+    .join('');
+  return `<rect y="${y}" width="${width}" height="3" fill="#${trackColor}" opacity=".1"/>${parts}`;
+}
+
+/* --- Rank ring --- */
+
+/**
+ * The rank level inside a ring centred on cx, cy. The ring fills by
+ * the share of users ranked lower, so an S is almost complete.
+ */
+function renderRankRing(rank: UserRank, cx: number, cy: number, color: string): string {
+  const R = 28;
+  const circumference = 2 * Math.PI * R;
+  const filled = ((100 - rank.percentile) / 100) * circumference;
+  return `<circle cx="${cx}" cy="${cy}" r="${R}" fill="none" stroke="#${color}" stroke-width="5" opacity=".2"/>
+    <circle cx="${cx}" cy="${cy}" r="${R}" fill="none" stroke="#${color}" stroke-width="5" stroke-linecap="round" stroke-dasharray="${filled.toFixed(2)} ${circumference.toFixed(2)}" transform="rotate(-90 ${cx} ${cy})"/>
+    <text x="${cx}" y="${cy + 7}" class="rank">${rank.level}</text>`;
+}
 
 /**
  * Renders a GitHub profile card as an SVG string.
@@ -32,6 +313,7 @@ export function renderCard(
   const c = resolveColors(opts);
   const hideBorder = opts.hide_border ?? false;
   const compact = opts.compact ?? false;
+  const rtl = opts.rtl ?? isRtlLocale(opts.locale);
 
   /**
    * [Fix] Issue #3 Bug 3 - Determine which sections to render based on
@@ -47,7 +329,12 @@ export function renderCard(
   const showLanguages = showAll || fields.has('languages') || fields.has('langs');
 
   /* --- Escape user-provided text for safe SVG embedding --- */
-  const name = escapeXml(user.name || user.login);
+  const fullName = user.name || user.login;
+  const title = escapeXml(translate(opts.locale, 'title', { name: fullName }));
+  // The rank ring takes the right end of the name line, so long names stop short of it
+  const shownName = escapeXml(
+    opts.show_rank && fullName.length > 24 ? fullName.slice(0, 23).trimEnd() + '\u2026' : fullName
+  );
   const uname = escapeXml(user.login);
   // Single-line bio: truncate at 40 characters with ellipsis if longer
   const bioTruncated =
@@ -68,7 +355,19 @@ export function renderCard(
   const P = 22; // Padding
   const avatarSize = 72;
   const barWidth = W - P * 2; // Language bar spans full width minus padding
-  const infoX = P + avatarSize + 16; // X offset for text next to avatar
+
+  /**
+   * Right-to-left cards mirror the horizontal layout: the avatar moves to
+   * the right and text is anchored at its right end. Text keeps the
+   * default `direction`, since renderers disagree on how `rtl` flips
+   * `text-anchor` (browsers swap start and end, resvg does not); each
+   * string is bidi-isolated instead (see isolateBidi).
+   */
+  const avatarX = rtl ? W - P - avatarSize : P;
+  const avatarCx = avatarX + avatarSize / 2;
+  const infoX = rtl ? avatarX - 16 : P + avatarSize + 16; // X offset for text next to avatar
+  const anchor = rtl ? ' text-anchor="end"' : '';
+  const bidi = (text: string) => (rtl ? isolateBidi(text) : text);
 
   /**
    * [Fix] Issue #3 Bug 4 - Dynamically calculate the card height based on
@@ -94,13 +393,18 @@ export function renderCard(
   // (bio renders beside the avatar, but if it's long it may push the
   // content area taller than the avatar itself -- we account for that later)
 
-  // Stats row height
-  if (showStats) {
-    cursorY += 40; // icon row (16) + stat-label below (24)
+  // Stats rows: as many as the selected stats need
+  const STAT_ROW = 40; // icon row (16) + stat-label below (24)
+  const STAT_ROW_GAP = 8;
+  const statRows = showStats
+    ? layoutStatRows(stats, opts.stats ?? DEFAULT_STATS, barWidth, opts.pr_breakdown, opts.locale)
+    : [];
+  if (statRows.length > 0) {
+    cursorY += statRows.length * STAT_ROW + (statRows.length - 1) * STAT_ROW_GAP;
   }
 
   // Gap between stats and language section
-  if (showStats && showLanguages) {
+  if (statRows.length > 0 && showLanguages) {
     cursorY += 12;
   }
 
@@ -121,96 +425,15 @@ export function renderCard(
   const barY = showLanguages ? H - (!compact && langs.length > 0 ? 40 : 24) : 0;
   const labelY = showLanguages ? H - 16 : 0;
 
-  /* --- Language bar segments (proportional widths) --- */
-  const totalSize = langs.reduce((sum, l) => sum + l.size, 0) || 1;
-  let offset = 0;
-  const langRects = showLanguages
-    ? langs
-        .map((lang) => {
-          const w = (lang.size / totalSize) * barWidth;
-          const r = `<rect x="${P + offset}" y="${barY}" width="${w}" height="8" fill="${lang.color}"/>`;
-          offset += w;
-          return r;
-        })
-        .join('')
+  const langRects = showLanguages ? renderLanguageSegments(langs, P, barY, barWidth, rtl) : '';
+  // Only named when a weighting was asked for; shares are by bytes otherwise
+  const metric = opts.lang_weighting
+    ? translate(opts.locale, LANG_WEIGHTING_LABELS[opts.lang_weighting])
     : '';
-
-  /**
-   * [Fix] Issue #3 Bug 5 - Two-pass fit-all label layout.
-   *
-   * Previously labels were evenly spaced by `barWidth / langs.length`, so
-   * long names like "TypeScript 45%" would overlap the next label. The first
-   * attempted fix skipped labels that overflowed, but that hid languages
-   * entirely (e.g. "Jupyter Notebook 4%" disappeared).
-   *
-   * New approach (two-pass fit-all):
-   *   Pass 1 - Try rendering all labels at full name length. If the total
-   *            estimated width fits within barWidth, use them as-is.
-   *   Pass 2 - If they don't fit, progressively reduce the max allowed
-   *            name characters (uniformly across all labels) until they fit.
-   *            Minimum name length is 2 chars + ellipsis (e.g. "Ty...").
-   *
-   * Rules:
-   *   - Every language is ALWAYS shown (never hidden/skipped)
-   *   - Percentage is NEVER truncated (e.g. "41%" always visible)
-   *   - Only the language name gets shortened when needed
-   *   - All labels share the same max name length for uniform appearance
-   *   - The colored dot is always present
-   */
-  const CHAR_WIDTH = 6.2; // Approximate width per character at font-size 10px
-  const DOT_GAP = 18; // Colored circle (r=4 -> 8px) + padding to text start
-  const LABEL_PAD = 8; // Minimum padding between adjacent labels
-  const MIN_NAME_LEN = 2; // Shortest a name can be truncated to (+ ellipsis)
-
-  /**
-   * Builds label text for a language, truncating the name to maxNameLen
-   * characters if it exceeds that limit. Returns the display string.
-   */
-  function buildLabelText(name: string, pct: string, maxNameLen: number): string {
-    if (name.length <= maxNameLen) return `${name} ${pct}%`;
-    return `${name.slice(0, maxNameLen)}\u2026 ${pct}%`;
-  }
-
-  /**
-   * Estimates the total pixel width needed to render all labels at a
-   * given maxNameLen. Used by the two-pass loop to find the best fit.
-   */
-  function estimateTotalWidth(maxNameLen: number): number {
-    return langs.reduce((total, lang) => {
-      const pct = ((lang.size / totalSize) * 100).toFixed(0);
-      const text = buildLabelText(lang.name, pct, maxNameLen);
-      return total + DOT_GAP + text.length * CHAR_WIDTH + LABEL_PAD;
-    }, 0);
-  }
-
-  let langLabels = '';
-  if (showLanguages && !compact && langs.length > 0) {
-    // Find the longest language name to use as the starting point
-    const longestName = Math.max(...langs.map((l) => l.name.length));
-
-    // Pass 1 & 2: Start from full length, shrink until labels fit
-    let maxNameLen = longestName;
-    while (maxNameLen > MIN_NAME_LEN && estimateTotalWidth(maxNameLen) > barWidth) {
-      maxNameLen--;
-    }
-
-    // Render all labels at the computed maxNameLen (every label is shown)
-    let labelX = P;
-    langLabels = langs
-      .map((lang) => {
-        const pct = ((lang.size / totalSize) * 100).toFixed(0);
-        const labelText = buildLabelText(lang.name, pct, maxNameLen);
-        const textWidth = labelText.length * CHAR_WIDTH;
-        const slotWidth = DOT_GAP + textWidth + LABEL_PAD;
-
-        const cx = labelX + 5; // Circle center x
-        const tx = labelX + DOT_GAP - 5; // Text start x
-        const svg = `<circle cx="${cx}" cy="${labelY}" r="4" fill="${lang.color}"/><text x="${tx}" y="${labelY + 4}" class="lang">${labelText}</text>`;
-        labelX += slotWidth; // Advance cursor for the next label
-        return svg;
-      })
-      .join('');
-  }
+  const langLabels =
+    showLanguages && !compact
+      ? renderLanguageLabels(langs, P, labelY, barWidth, opts.lang_icons, rtl)
+      : '';
 
   /* --- Vertical positions for profile info --- */
   const nameY = P + 22;
@@ -218,22 +441,46 @@ export function renderCard(
   const bioY = usernameY + 14;
   const twitterY = bioLine ? bioY + 16 : usernameY + 16;
 
-  /* --- Font stack --- */
-  const fontFamily =
-    'ui-sans-serif, -apple-system, BlinkMacSystemFont, Segoe UI, Helvetica Neue, Arial';
   // Push the stats row down when the X handle is visible, so it doesn't overlap
   const headerY = P + avatarSize + (twitter ? 20 : 12);
   const statLabelY = 28;
 
+  /* --- Stats rows: icon + value, label below, spread across the width --- */
+  // With rtl, each row is mirrored and each item reads from its right edge
+  const statsMarkup = statRows
+    .map((row, r) => {
+      const items = row
+        .map((item) => {
+          const x = rtl ? Math.round(barWidth - item.x - item.width) : item.x;
+          const statIcon = icon(STAT_DEFINITIONS[item.key].icon, c.icon, 16);
+          const valueX = rtl ? item.width - 20 : 20;
+          const labelX = rtl ? item.width : 0;
+          const value = formatStat(stats, item.key, opts.locale);
+          return `<g transform="translate(${x},0)">
+        ${rtl ? `<g transform="translate(${item.width - 16},0)">${statIcon}</g>` : statIcon}<text x="${valueX}" y="12"${anchor} class="stat">${bidi(value)}</text>
+        <text x="${labelX}" y="${statLabelY}"${anchor} class="stat-label">${bidi(escapeXml(item.label))}</text>
+        ${item.segments ? renderBreakdownBar(item.segments, statLabelY + 5, item.width, c.text, rtl) : ''}
+      </g>`;
+        })
+        .join('');
+      return `<g transform="translate(${P},${headerY + r * (STAT_ROW + STAT_ROW_GAP)})">${items}</g>`;
+    })
+    .join('\n    ');
+
+  // Rank ring in the corner opposite the avatar, level with it
+  const rankRing = opts.show_rank
+    ? renderRankRing(calculateRank(stats), rtl ? P + 32 : W - P - 32, P + avatarSize / 2, c.icon)
+    : '';
+
   /* --- Build the SVG --- */
   return `<svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" xmlns="http://www.w3.org/2000/svg" shape-rendering="geometricPrecision" text-rendering="optimizeLegibility" image-rendering="optimizeQuality">
-    <title>${name}'s GitHub Stats</title>
+    <title>${title}</title>
     <defs>
-      <clipPath id="a"><circle cx="${P + avatarSize / 2}" cy="${P + avatarSize / 2}" r="${avatarSize / 2}"/></clipPath>
+      <clipPath id="a"><circle cx="${avatarCx}" cy="${P + avatarSize / 2}" r="${avatarSize / 2}"/></clipPath>
       ${showLanguages ? `<clipPath id="b"><rect x="${P}" y="${barY}" width="${barWidth}" height="8" rx="4"/></clipPath>` : ''}
     </defs>
     <style>
-      *{font-family:${fontFamily},sans-serif}
+      *{font-family:${FONT_FAMILY},sans-serif}
       .bg{fill:#${c.bg}}
       .title{font-size:18px;font-weight:700;fill:#${c.title}}
       .user{font-size:12px;fill:#${c.text};opacity:.7}
@@ -241,45 +488,22 @@ export function renderCard(
       .stat{font-size:14px;font-weight:700;fill:#${c.text}}
       .stat-label{font-size:9px;font-weight:600;fill:#${c.text};opacity:.55;text-transform:uppercase;letter-spacing:.6px}
       .sec{font-size:9px;font-weight:600;fill:#${c.text};opacity:.5;text-transform:uppercase;letter-spacing:.6px}
+      ${rankRing ? `.rank{font-size:20px;font-weight:800;fill:#${c.title};text-anchor:middle}` : ''}
     </style>
     <rect class="bg" width="${W}" height="${H}" rx="10" stroke="${hideBorder ? 'none' : `#${c.border}`}" stroke-width="1"/>
-    <circle cx="${P + avatarSize / 2}" cy="${P + avatarSize / 2}" r="${avatarSize / 2 + 2}" fill="none" stroke="#${c.border}" stroke-width="1" opacity=".6"/>
-    <image href="${avatar}" x="${P}" y="${P}" width="${avatarSize}" height="${avatarSize}" clip-path="url(#a)"/>
-    <text x="${infoX}" y="${nameY}" class="title">${name}</text>
-    <text x="${infoX}" y="${usernameY}" class="user">@${uname}${pronouns ? ` · ${pronouns}` : ''}</text>
-    ${!compact && bioLine ? `<text x="${infoX}" y="${bioY}" class="bio">${bioLine}</text>` : ''}
-    ${!compact && twitter ? `<g transform="translate(${infoX},${twitterY - 9})">${icon('x', c.icon, 11)}<text x="14" y="9" class="tw">@${twitter}</text></g>` : ''}
+    <circle cx="${avatarCx}" cy="${P + avatarSize / 2}" r="${avatarSize / 2 + 2}" fill="none" stroke="#${c.border}" stroke-width="1" opacity=".6"/>
+    <image href="${avatar}" x="${avatarX}" y="${P}" width="${avatarSize}" height="${avatarSize}" clip-path="url(#a)"/>
+    <text x="${infoX}" y="${nameY}"${anchor} class="title">${bidi(shownName)}</text>
+    <text x="${infoX}" y="${usernameY}"${anchor} class="user">${bidi(`@${uname}${pronouns ? ` · ${pronouns}` : ''}`)}</text>
+    ${!compact && bioLine ? `<text x="${infoX}" y="${bioY}"${anchor} class="bio">${bidi(bioLine)}</text>` : ''}
+    ${!compact && twitter ? `<g transform="translate(${rtl ? infoX - 11 : infoX},${twitterY - 9})">${icon('x', c.icon, 11)}<text x="${rtl ? -3 : 14}" y="9"${anchor} class="tw">${bidi(`@${twitter}`)}</text></g>` : ''}
+    ${rankRing}
     ${/* [Fix] Issue #3 Bug 3 - Only render the stats row when showStats is true */ ''}
-    ${
-      showStats
-        ? `<g transform="translate(${P},${headerY})">
-      <g>
-        ${icon('star', c.icon, 16)}<text x="20" y="12" class="stat">${kFormat(stats.stars)}</text>
-        <text x="0" y="${statLabelY}" class="stat-label">Stars</text>
-      </g>
-      <g transform="translate(100,0)">
-        ${icon('commit', c.icon, 16)}<text x="20" y="12" class="stat">${kFormat(stats.commits)}</text>
-        <text x="0" y="${statLabelY}" class="stat-label">Commits (${stats.commitYear ?? new Date().getUTCFullYear()})</text>
-      </g>
-      <g transform="translate(220,0)">
-        ${icon('issue', c.icon, 16)}<text x="20" y="12" class="stat">${kFormat(stats.issues)}</text>
-        <text x="0" y="${statLabelY}" class="stat-label">Issues</text>
-      </g>
-      <g transform="translate(320,0)">
-        ${icon('repo', c.icon, 16)}<text x="20" y="12" class="stat">${kFormat(stats.repos)}</text>
-        <text x="0" y="${statLabelY}" class="stat-label">Repos</text>
-      </g>
-      <g transform="translate(405,0)">
-        ${icon('pr', c.icon, 16)}<text x="20" y="12" class="stat">${kFormat(stats.prs)}</text>
-        <text x="0" y="${statLabelY}" class="stat-label">PRs</text>
-      </g>
-    </g>`
-        : ''
-    }
+    ${statsMarkup}
     ${/* [Fix] Issue #3 Bug 3 - Only render the language bar and labels when showLanguages is true */ ''}
     ${
       showLanguages
-        ? `<text x="${P}" y="${barY - 8}" class="sec">Top Languages</text>
+        ? `<text x="${rtl ? W - P : P}" y="${barY - 8}"${anchor} class="sec">${bidi(escapeXml(translate(opts.locale, 'topLanguages')) + (metric ? ` · ${metric}` : ''))}</text>
     <rect x="${P}" y="${barY}" width="${barWidth}" height="8" rx="4" fill="#${c.text}" opacity=".1"/>
     <g clip-path="url(#b)">${langRects}</g>
     ${langLabels}`
@@ -287,3 +511,53 @@ export function renderCard(
     }
   </svg>`;
 }
+
+/**
+ * Renders an error as a themed SVG card, so an `<img>` embed shows a
+ * readable message instead of a broken image when the request fails
+ * (unknown user, rate limit, bad parameters, ...).
+ *
+ * @param status  - HTTP status code shown in the card heading
+ * @param message - Short human-readable explanation
+ * @param opts    - Visual customization (theme, colors, hide_border)
+ * @returns         Complete SVG markup as a string
+ */
+export function renderErrorCard(status: number, message: string, opts: CardOptions = {}): string {
+  const c = resolveColors(opts);
+  const hideBorder = opts.hide_border ?? false;
+
+  /* --- Layout constants --- */
+  const W = 500;
+  const P = 22;
+  const CHAR_WIDTH = 6.6; // Approximate width per character at font-size 12px
+  const LINE_HEIGHT = 18;
+  const MAX_LINES = 3;
+
+  // Greedy word wrap so longer messages stay inside the card
+  const lines = wrapWords(message, Math.floor((W - P * 2) / CHAR_WIDTH), MAX_LINES);
+
+  const headingY = P + 18;
+  const messageY = headingY + 28;
+  const H = messageY + (lines.length - 1) * LINE_HEIGHT + P;
+
+  const messageLines = lines
+    .map(
+      (line, i) =>
+        `<text x="${P}" y="${messageY + i * LINE_HEIGHT}" class="msg">${escapeXml(line)}</text>`
+    )
+    .join('');
+
+  return `<svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" xmlns="http://www.w3.org/2000/svg" shape-rendering="geometricPrecision" text-rendering="optimizeLegibility">
+    <title>Error ${status}</title>
+    <style>
+      *{font-family:${FONT_FAMILY},sans-serif}
+      .bg{fill:#${c.bg}}
+      .title{font-size:16px;font-weight:700;fill:#${c.title}}
+      .msg{font-size:12px;fill:#${c.text};opacity:.8}
+    </style>
+    <rect class="bg" width="${W}" height="${H}" rx="10" stroke="${hideBorder ? 'none' : `#${c.border}`}" stroke-width="1"/>
+    <g transform="translate(${P},${headingY - 14})">${icon('issue', c.icon, 18)}</g>
+    <text x="${P + 26}" y="${headingY}" class="title">Error ${status}</text>
+    ${messageLines}
+  </svg>`;
+}
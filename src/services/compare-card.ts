@@ -0,0 +1,190 @@
+/**
+ * SVG comparison card renderer.
+ * Puts two users side by side: their stats in two columns with the
+ * higher value of each stat highlighted, and their language shares
+ * overlaid on one bar per language. Either side may be a placeholder
+ * when that user could not be loaded.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { CardOptions, LanguageStat, StatKey, TeamMember } from '../types/index.js';
+import { escapeXml, kFormat, resolveColors, truncate } from '../utils/index.js';
+import { FONT_FAMILY, languageWeight } from './card.js';
+import { commitsWindowLabel } from './stats.js';
+
+/** Maximum number of language rows */
+const MAX_LANGUAGES = 6;
+
+/** Stats compared on the card, top to bottom */
+const COMPARED_STATS: Array<{ key: StatKey; label: string }> = [
+  { key: 'stars', label: 'Stars' },
+  { key: 'commits', label: 'Commits' },
+  { key: 'prs', label: 'PRs' },
+  { key: 'issues', label: 'Issues' },
+  { key: 'repos', label: 'Repos' },
+];
+
+/** Each language's share (0-100) of a user's top languages, by name */
+function languageShares(langs: LanguageStat[]): Map<string, number> {
+  const total = langs.reduce((sum, l) => sum + languageWeight(l), 0) || 1;
+  return new Map(langs.map((l) => [l.name, (languageWeight(l) / total) * 100]));
+}
+
+/**
+ * Renders a two-user comparison card as an SVG string.
+ *
+ * @param left  - First user (left column)
+ * @param right - Second user (right column)
+ * @param opts  - Visual customization (theme, colors, hide_border)
+ * @returns       Complete SVG markup as a string
+ */
+export function renderCompareCard(
+  left: TeamMember,
+  right: TeamMember,
+  opts: CardOptions = {}
+): string {
+  if (!left?.login || !right?.login) throw new Error('Invalid comparison data: missing login');
+
+  const c = resolveColors(opts);
+  const hideBorder = opts.hide_border ?? false;
+  const sides = [left, right] as const;
+  // Each user gets an accent color: the title color, and the icon color for the second
+  // user (or the text color when the theme uses the same color for both)
+  const accents = [c.title, c.icon.toLowerCase() === c.title.toLowerCase() ? c.text : c.icon];
+
+  /* --- Layout constants --- */
+  const W = 500;
+  const P = 22;
+  const MID = W / 2;
+  const COL_X = [W / 4, (W * 3) / 4];
+  const AVATAR = 44;
+  const VALUE_OFFSET = 80; // Distance of each value from the center label
+  const ROW = 24;
+  const LANG_ROW = 18;
+  const TRACK_X = P + 110;
+  const TRACK_W = W - P - 76 - TRACK_X;
+
+  const nameY = P + AVATAR + 20;
+  const loginY = nameY + 15;
+  const statsY = loginY + 30;
+  const langHeadingY = statsY + COMPARED_STATS.length * ROW + 6;
+
+  /* --- Header: avatar, name and login per side --- */
+  const header = sides
+    .map((side, i) => {
+      const cx = COL_X[i]!;
+      const cy = P + AVATAR / 2;
+      const user = side.profile?.user;
+      if (!user) {
+        const reason = side.error?.status === 404 ? 'User not found' : 'Unavailable';
+        return `<circle cx="${cx}" cy="${cy}" r="${AVATAR / 2}" class="ph"/>
+    <text x="${cx}" y="${nameY}" class="name">${escapeXml(truncate(side.login, 24))}</text>
+    <text x="${cx}" y="${loginY}" class="user">${reason}</text>`;
+      }
+      const avatarSource = user.avatarDataUrl || user.avatarUrl;
+      const avatar =
+        avatarSource?.replace(/&/g, '&amp;') || 'data:image/svg+xml,%3Csvg%3E%3C/svg%3E';
+      return `<clipPath id="a${i}"><circle cx="${cx}" cy="${cy}" r="${AVATAR / 2}"/></clipPath>
+    <circle cx="${cx}" cy="${cy}" r="${AVATAR / 2 + 2}" fill="none" stroke="#${accents[i]}" stroke-width="2"/>
+    <image href="${avatar}" x="${cx - AVATAR / 2}" y="${P}" width="${AVATAR}" height="${AVATAR}" clip-path="url(#a${i})"/>
+    <text x="${cx}" y="${nameY}" class="name">${escapeXml(truncate(user.name || user.login, 24))}</text>
+    <text x="${cx}" y="${loginY}" class="user">@${escapeXml(user.login)}</text>`;
+    })
+    .join('\n    ');
+
+  /* --- Stat rows: label in the middle, one value per side, winner highlighted --- */
+  const both = Boolean(left.profile && right.profile);
+  const commitStats = (left.profile ?? right.profile)?.stats;
+  const statRows = COMPARED_STATS.map(({ key, label }, row) => {
+    const y = statsY + row * ROW;
+    const values = sides.map((side) => side.profile?.stats[key] ?? null);
+    const [a, b] = values;
+    // Only a real contest has a winner: both sides loaded and not tied
+    const winner = both && a !== b ? (a! > b! ? 0 : 1) : null;
+    const cells = values
+      .map((value, i) => {
+        const x = i === 0 ? MID - VALUE_OFFSET : MID + VALUE_OFFSET;
+        const cls = winner === null ? 'val' : winner === i ? `val win${i}` : 'val lose';
+        return `<text x="${x}" y="${y}" class="${cls}">${value === null ? '–' : kFormat(value)}</text>`;
+      })
+      .join('');
+    const text =
+      key === 'commits' && commitStats ? `${label} (${commitsWindowLabel(commitStats)})` : label;
+    return `${cells}<text x="${MID}" y="${y}" class="stat-label">${text}</text>`;
+  }).join('\n    ');
+
+  /* --- Languages: both users' shares overlaid on one track per language --- */
+  const shares = sides.map((side) => languageShares(side.profile?.languages ?? []));
+  const colors = new Map<string, string>();
+  for (const side of sides) {
+    for (const lang of side.profile?.languages ?? []) {
+      if (!colors.has(lang.name)) colors.set(lang.name, lang.color);
+    }
+  }
+  const langNames = [...colors.keys()]
+    .sort(
+      (x, y) =>
+        Math.max(shares[0]!.get(y) ?? 0, shares[1]!.get(y) ?? 0) -
+        Math.max(shares[0]!.get(x) ?? 0, shares[1]!.get(x) ?? 0)
+    )
+    .slice(0, MAX_LANGUAGES);
+
+  const langRows = langNames
+    .map((name, row) => {
+      const y = langHeadingY + 16 + row * LANG_ROW;
+      const pcts = shares.map((s) => s.get(name) ?? 0);
+      // The larger share is drawn first so the smaller one stays visible on top
+      const bars = [0, 1]
+        .sort((i, j) => pcts[j]! - pcts[i]!)
+        .map(
+          (i) =>
+            `<rect x="${TRACK_X}" y="${y - 7}" width="${(pcts[i]! / 100) * TRACK_W}" height="8" rx="4" fill="#${accents[i]}" opacity=".7"/>`
+        )
+        .join('');
+      const pctText = pcts
+        .map(
+          (p, i) =>
+            `<tspan fill="#${accents[i]}">${sides[i]!.profile ? `${p.toFixed(0)}%` : '–'}</tspan>`
+        )
+        .join(' · ');
+      return `<circle cx="${P + 4}" cy="${y - 3}" r="4" fill="${colors.get(name)}"/>
+    <text x="${P + 14}" y="${y}" class="lang">${escapeXml(truncate(name, 14))}</text>
+    <rect x="${TRACK_X}" y="${y - 7}" width="${TRACK_W}" height="8" rx="4" fill="#${c.text}" opacity=".1"/>
+    ${bars}
+    <text x="${W - P}" y="${y}" class="pct">${pctText}</text>`;
+    })
+    .join('\n    ');
+
+  const bottom =
+    langNames.length > 0
+      ? langHeadingY + 16 + (langNames.length - 1) * LANG_ROW
+      : statsY + (COMPARED_STATS.length - 1) * ROW;
+  const H = bottom + P;
+
+  return `<svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" xmlns="http://www.w3.org/2000/svg" shape-rendering="geometricPrecision" text-rendering="optimizeLegibility" image-rendering="optimizeQuality">
+    <title>${escapeXml(left.login)} vs ${escapeXml(right.login)}</title>
+    <style>
+      *{font-family:${FONT_FAMILY},sans-serif}
+      .bg{fill:#${c.bg}}
+      .ph{fill:#${c.text};opacity:.12}
+      .name{font-size:14px;font-weight:700;fill:#${c.title};text-anchor:middle}
+      .user{font-size:11px;fill:#${c.text};opacity:.7;text-anchor:middle}
+      .vs{font-size:13px;font-weight:700;fill:#${c.text};opacity:.4;text-anchor:middle}
+      .val{font-size:14px;font-weight:600;fill:#${c.text};text-anchor:middle}
+      .win0{font-weight:700;fill:#${accents[0]}}
+      .win1{font-weight:700;fill:#${accents[1]}}
+      .lose{opacity:.55}
+      .stat-label{font-size:9px;font-weight:600;fill:#${c.text};opacity:.55;text-transform:uppercase;letter-spacing:.6px;text-anchor:middle}
+      .sec{font-size:9px;font-weight:600;fill:#${c.text};opacity:.5;text-transform:uppercase;letter-spacing:.6px}
+      .lang{font-size:10px;fill:#${c.text}}
+      .pct{font-size:10px;font-weight:600;fill:#${c.text};text-anchor:end}
+    </style>
+    <rect class="bg" width="${W}" height="${H}" rx="10" stroke="${hideBorder ? 'none' : `#${c.border}`}" stroke-width="1"/>
+    ${header}
+    <text x="${MID}" y="${P + AVATAR / 2 + 5}" class="vs">VS</text>
+    ${statRows}
+    ${langNames.length > 0 ? `<text x="${P}" y="${langHeadingY}" class="sec">Top Languages</text>` : ''}
+    ${langRows}
+  </svg>`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Contribution calendar fetcher.
+ * Pulls the daily contribution counts for every year a user has
+ * contributed, through the shared GraphQL client and cache layers.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { CachedResult, ContributionCalendar, ContributionDay } from '../types/index.js';
+import { cachedFetch } from './cache/revalidate.js';
+import type { RevalidateOptions } from './cache/revalidate.js';
+import { UserNotFoundError } from './errors.js';
+import { CACHE_STALE_SECONDS, CACHE_TTL_SECONDS, githubGraphQL } from './github.js';
+
+/* ---------- GraphQL Queries ---------- */
+
+/** Lists the years a user has contributions in */
+const QUERY_CONTRIBUTION_YEARS = `
+query contributionYears($login: String!) {
+  rateLimit { remaining resetAt cost }
+  user(login: $login) {
+    login
+    name
+    contributionsCollection { contributionYears }
+  }
+}`;
+
+/**
+ * Builds a query fetching the calendar for each of `years`, one aliased
+ * contributionsCollection per year (GitHub limits a collection to one
+ * year). Years come from the API as integers, so inlining them is safe.
+ */
+function buildCalendarQuery(years: number[]): string {
+  const collections = years
+    .map(
+      (year) => `
+    y${year}: contributionsCollection(from: "${year}-01-01T00:00:00Z", to: "${year}-12-31T23:59:59Z") {
+      contributionCalendar { weeks { contributionDays { date contributionCount } } }
+    }`
+    )
+    .join('');
+
+  return `
+query contributionCalendar($login: String!) {
+  rateLimit { remaining resetAt cost }
+  user(login: $login) {${collections}
+  }
+}`;
+}
+
+/* ---------- Cache Layer ---------- */
+
+/** Cache policy for calendars (same freshness as profile data) */
+const CALENDAR_CACHE: RevalidateOptions<ContributionCalendar> = {
+  ttlSeconds: CACHE_TTL_SECONDS,
+  staleSeconds: CACHE_STALE_SECONDS,
+  validate: (value) => Array.isArray(value.days),
+};
+
+/* ---------- Fetchers ---------- */
+
+/** Fetches a user's full contribution calendar live from the GraphQL API */
+async function fetchContributionCalendar(username: string): Promise<ContributionCalendar> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const info: any = await githubGraphQL(QUERY_CONTRIBUTION_YEARS, { login: username });
+  if (!info.user) throw new UserNotFoundError(username);
+
+  const years: number[] = info.user.contributionsCollection?.contributionYears ?? [];
+  const days: ContributionDay[] = [];
+
+  if (years.length > 0) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const data: any = await githubGraphQL(buildCalendarQuery(years), { login: username });
+    if (!data.user) throw new UserNotFoundError(username);
+
+    for (const year of years) {
+      const weeks = data.user[`y${year}`]?.contributionCalendar?.weeks ?? [];
+      for (const week of weeks) {
+        for (const day of week.contributionDays ?? []) {
+          days.push({ date: day.date, count: day.contributionCount });
+        }
+      }
+    }
+    // contributionYears is newest-first; the calendar is used oldest-first
+    days.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  }
+
+  return { login: info.user.login, name: info.user.name, days };
+}
+
+/**
+ * Returns a user's contribution calendar, read through the cache chain
+ * with stale-while-revalidate (see getCachedProfileData).
+ */
+export async function getCachedContributionCalendar(
+  username: string
+): Promise<CachedResult<ContributionCalendar>> {
+  return cachedFetch(
+    `calendar:${username}`,
+    () => fetchContributionCalendar(username),
+    CALENDAR_CACHE
+  );
+}
@@ -0,0 +1,155 @@
+/**
+ * Typed errors thrown by the GitHub service.
+ * Routes map these to HTTP responses through toHttpError() instead of
+ * sniffing error messages, so rewording a message can never change the
+ * status code a client receives.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { HttpErrorInfo } from '../types/index.js';
+
+/** Fallback Retry-After (seconds) when GitHub does not report a reset time */
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+/** Retry-After (seconds) suggested when the in-flight request limit is hit */
+const IN_FLIGHT_RETRY_AFTER_SECONDS = 5;
+
+/** Base class for every failure raised by the GitHub service */
+export class GitHubServiceError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** The requested login does not exist (or is not a user) */
+export class UserNotFoundError extends GitHubServiceError {
+  constructor(readonly login: string) {
+    super(`User not found: ${login}`);
+  }
+}
+
+/** The requested login does not exist (or is not an organization) */
+export class OrganizationNotFoundError extends GitHubServiceError {
+  constructor(readonly login: string) {
+    super(`Organization not found: ${login}`);
+  }
+}
+
+/** The requested repository does not exist or is not visible to the token */
+export class RepositoryNotFoundError extends GitHubServiceError {
+  constructor(
+    readonly owner: string,
+    readonly repo: string
+  ) {
+    super(`Repository not found: ${owner}/${repo}`);
+  }
+}
+
+/** GitHub rejected the request because the token's rate limit is spent */
+export class RateLimitedError extends GitHubServiceError {
+  /**
+   * @param resetAt - When the rate limit window resets, if GitHub told us
+   */
+  constructor(readonly resetAt: Date | null = null) {
+    super('GitHub API rate limit exceeded');
+  }
+
+  /** Seconds until the limit resets (at least 1), for the Retry-After header */
+  retryAfterSeconds(now = Date.now()): number {
+    if (!this.resetAt) return DEFAULT_RETRY_AFTER_SECONDS;
+    return Math.max(1, Math.ceil((this.resetAt.getTime() - now) / 1000));
+  }
+}
+
+/** The configured token is missing, invalid or lacks access (401/403) */
+export class AuthFailedError extends GitHubServiceError {}
+
+/** GitHub answered with an unexpected status or GraphQL error */
+export class UpstreamError extends GitHubServiceError {
+  /**
+   * @param status  - HTTP status GitHub responded with, when there was one
+   * @param options - The underlying network failure as `cause`, when there was no response
+   */
+  constructor(
+    message: string,
+    readonly status: number | null = null,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/** GitHub did not answer within the request timeout */
+export class TimeoutError extends GitHubServiceError {
+  constructor(options?: ErrorOptions) {
+    super('GitHub API request timed out', options);
+  }
+}
+
+/** This instance already has MAX_IN_FLIGHT_REQUESTS live fetches running */
+export class TooManyInFlightError extends GitHubServiceError {
+  constructor() {
+    super('Too many concurrent requests. Please try again later.');
+  }
+}
+
+/**
+ * Maps any error thrown while serving a request to the HTTP status,
+ * public message and extra headers (e.g. Retry-After) to respond with.
+ * This is the single place that decides how service failures surface.
+ */
+export function toHttpError(err: unknown): HttpErrorInfo {
+  if (err instanceof UserNotFoundError) {
+    return { status: 404, message: `GitHub user "${err.login}" not found`, headers: {} };
+  }
+
+  if (err instanceof OrganizationNotFoundError) {
+    return { status: 404, message: `GitHub organization "${err.login}" not found`, headers: {} };
+  }
+
+  if (err instanceof RepositoryNotFoundError) {
+    return {
+      status: 404,
+      message: `GitHub repository "${err.owner}/${err.repo}" not found`,
+      headers: {},
+    };
+  }
+
+  if (err instanceof RateLimitedError) {
+    return {
+      status: 429,
+      message: 'GitHub API rate limit exceeded. Please try again later.',
+      headers: { 'Retry-After': String(err.retryAfterSeconds()) },
+    };
+  }
+
+  if (err instanceof AuthFailedError) {
+    console.error('GitHub authentication failed:', err.message);
+    return {
+      status: 500,
+      message: 'Server configuration error. Please contact the administrator.',
+      headers: {},
+    };
+  }
+
+  if (err instanceof TimeoutError) {
+    return { status: 504, message: 'GitHub API timed out. Please try again later.', headers: {} };
+  }
+
+  if (err instanceof TooManyInFlightError) {
+    return {
+      status: 503,
+      message: err.message,
+      headers: { 'Retry-After': String(IN_FLIGHT_RETRY_AFTER_SECONDS) },
+    };
+  }
+
+  if (err instanceof UpstreamError) {
+    return { status: 503, message: 'GitHub API error. Please try again later.', headers: {} };
+  }
+
+  console.error('Unexpected error:', err);
+  return { status: 500, message: 'An unexpected error occurred', headers: {} };
+}
@@ -0,0 +1,98 @@
+/**
+ * On-demand fetcher for the less common profile metrics (followers,
+ * reviews, contributed-to repositories, discussions, gists, sponsors).
+ * They come from one small query of their own, cached apart from the
+ * profile, so cards that do not show them never pay for them.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { CachedResult, ExtraStats, ProfileData } from '../types/index.js';
+import { cachedFetch } from './cache/revalidate.js';
+import type { RevalidateOptions } from './cache/revalidate.js';
+import { UserNotFoundError } from './errors.js';
+import { CACHE_STALE_SECONDS, CACHE_TTL_SECONDS, githubGraphQL } from './github.js';
+
+/* ---------- GraphQL Queries ---------- */
+
+/** Every extra metric at once; only connection counts, so the query costs a single point */
+const QUERY_EXTRA_STATS = `
+query extraStats($login: String!, $from: DateTime!, $to: DateTime!) {
+  rateLimit { remaining resetAt cost }
+  user(login: $login) {
+    followers { totalCount }
+    gists(privacy: PUBLIC) { totalCount }
+    sponsors { totalCount }
+    repositoryDiscussions { totalCount }
+    repositoryDiscussionComments(onlyAnswers: true) { totalCount }
+    repositoriesContributedTo(contributionTypes: [COMMIT, ISSUE, PULL_REQUEST, REPOSITORY]) { totalCount }
+    contributionsCollection(from: $from, to: $to) {
+      totalPullRequestReviewContributions
+    }
+  }
+}`;
+
+/* ---------- Cache Layer ---------- */
+
+/** Cache policy for extra metrics (same freshness as profile data) */
+const EXTRA_STATS_CACHE: RevalidateOptions<ExtraStats> = {
+  ttlSeconds: CACHE_TTL_SECONDS,
+  staleSeconds: CACHE_STALE_SECONDS,
+  validate: (value) => typeof value.followers === 'number',
+};
+
+/* ---------- Fetchers ---------- */
+
+/** Fetches a user's extra metrics live from the GraphQL API */
+async function fetchExtraStats(username: string): Promise<ExtraStats> {
+  // Reviews are counted over the current year, like commits
+  const now = new Date();
+  const from = new Date(Date.UTC(now.getUTCFullYear(), 0, 1)).toISOString();
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const data: any = await githubGraphQL(QUERY_EXTRA_STATS, {
+    login: username,
+    from,
+    to: now.toISOString(),
+  });
+  const user = data.user;
+  if (!user) throw new UserNotFoundError(username);
+
+  return {
+    followers: user.followers?.totalCount || 0,
+    reviews: user.contributionsCollection?.totalPullRequestReviewContributions || 0,
+    contributedTo: user.repositoriesContributedTo?.totalCount || 0,
+    discussionsStarted: user.repositoryDiscussions?.totalCount || 0,
+    discussionsAnswered: user.repositoryDiscussionComments?.totalCount || 0,
+    gists: user.gists?.totalCount || 0,
+    sponsors: user.sponsors?.totalCount || 0,
+  };
+}
+
+/** Fetches a user's extra metrics through the cache layers */
+export async function getCachedExtraStats(username: string): Promise<CachedResult<ExtraStats>> {
+  return cachedFetch(`extras:${username}`, () => fetchExtraStats(username), EXTRA_STATS_CACHE);
+}
+
+/**
+ * Adds a user's extra metrics to their profile stats. The combined
+ * result is MISS if either part was loaded live, else STALE if either
+ * was stale, else HIT; its age is that of the older part.
+ */
+export async function withExtraStats(
+  profile: CachedResult<ProfileData>
+): Promise<CachedResult<ProfileData>> {
+  const extras = await getCachedExtraStats(profile.value.user.login);
+  const parts = [profile, extras];
+  const status = parts.some((r) => r.status === 'MISS')
+    ? 'MISS'
+    : parts.some((r) => r.status === 'STALE')
+      ? 'STALE'
+      : 'HIT';
+
+  return {
+    value: { ...profile.value, stats: { ...profile.value.stats, ...extras.value } },
+    status,
+    age: Math.max(profile.age, extras.age),
+  };
+}
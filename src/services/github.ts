@@ -1,12 +1,20 @@
 /**
  * GitHub GraphQL API client and data fetcher.
  * Fetches user profile, stats, and top languages with multi-layer caching
- * (in-memory + Upstash Redis) and request deduplication.
+ * (the configurable store chain in ./cache) and request deduplication.
  *
  * @author Nayan Das <https://github.com/nayandas69>
  */
 
-import type { LanguageStat, ProfileData } from '../types/index.js';
+import type {
+  CachedResult,
+  CommitsRange,
+  LanguageFilter,
+  LanguageStat,
+  LanguageWeighting,
+  LangWeighting,
+  ProfileData,
+} from '../types/index.js';
 /**
  * [Fix] Issue #3 Bug 2 - Import getLangColor so the comprehensive language
  * color map in languages.ts is actually used instead of relying solely on
@@ -14,14 +22,28 @@ import type { LanguageStat, ProfileData } from '../types/index.js';
  * Previously getLangColor was dead code: defined but never called anywhere.
  */
 import { getLangColor } from '../utils/languages.js';
+import {
+  AuthFailedError,
+  OrganizationNotFoundError,
+  RateLimitedError,
+  TimeoutError,
+  UpstreamError,
+  UserNotFoundError,
+} from './errors.js';
+import { loadCached, peekCached } from './cache/revalidate.js';
+import type { RevalidateOptions } from './cache/revalidate.js';
+import {
+  acquireToken,
+  markExhausted,
+  markInvalid,
+  reportRateLimit,
+  tokenPoolSize,
+} from './tokens.js';
 
 /* ---------- Auth ---------- */
 
-/** Builds authorization headers for the GitHub GraphQL API */
-function getHeaders(): Record<string, string> {
-  const token = process.env['GITHUB_TOKEN'];
-  if (!token) throw new Error('GITHUB_TOKEN is missing. Set it in your .env file.');
-
+/** Builds authorization headers for the GitHub GraphQL API using a pooled token */
+function getHeaders(token: string): Record<string, string> {
   return {
     Authorization: `bearer ${token}`,
     'Content-Type': 'application/json',
@@ -29,6 +51,131 @@ function getHeaders(): Record<string, string> {
   };
 }
 
+/* ---------- GraphQL Client ---------- */
+
+/** GitHub GraphQL endpoint */
+const GRAPHQL_URL = 'https://api.github.com/graphql';
+
+/** Per-request timeout for GraphQL calls */
+const GRAPHQL_TIMEOUT_MS = 10000;
+
+/**
+ * Reads the rate limit reset time from GitHub's response headers
+ * (`x-ratelimit-reset` is epoch seconds; `retry-after` is a delay in seconds).
+ */
+function readResetAt(headers: Headers): Date | null {
+  const reset = Number(headers.get('x-ratelimit-reset'));
+  if (reset > 0) return new Date(reset * 1000);
+  const retryAfter = Number(headers.get('retry-after'));
+  if (retryAfter > 0) return new Date(Date.now() + retryAfter * 1000);
+  return null;
+}
+
+/**
+ * Sends one GraphQL request with a specific token and returns its `data`.
+ * Every failure is converted to one of the typed errors in errors.ts:
+ *   - 401 / 403 (not rate limited)  -> AuthFailedError
+ *   - 403 / 429 rate limit          -> RateLimitedError (with reset time)
+ *   - timeout                       -> TimeoutError
+ *   - other network failures        -> UpstreamError
+ *   - other HTTP / GraphQL errors   -> UpstreamError
+ * A NOT_FOUND GraphQL error is left to the caller, which knows what was
+ * being looked up (the `data` for that field is simply null).
+ */
+async function sendGraphQL<T>(
+  token: string,
+  query: string,
+  variables: Record<string, unknown>
+): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(GRAPHQL_URL, {
+      method: 'POST',
+      headers: getHeaders(token),
+      body: JSON.stringify({ query, variables }),
+      signal: AbortSignal.timeout(GRAPHQL_TIMEOUT_MS),
+    });
+  } catch (err) {
+    if (err instanceof Error && err.name === 'TimeoutError') throw new TimeoutError({ cause: err });
+    // DNS failures, resets and the like ("fetch failed") never reached GitHub
+    throw new UpstreamError('GitHub API request failed', null, { cause: err });
+  }
+
+  if (!res.ok) {
+    const text = await res.text();
+    if (res.status === 401) {
+      throw new AuthFailedError('GitHub API authentication failed (401)');
+    }
+    if (res.status === 429 || (res.status === 403 && /rate limit/i.test(text))) {
+      throw new RateLimitedError(readResetAt(res.headers));
+    }
+    if (res.status === 403) {
+      throw new AuthFailedError('GitHub API access forbidden (403)');
+    }
+    throw new UpstreamError(`GitHub API error (${res.status}): ${text.slice(0, 100)}`, res.status);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const body = (await res.json()) as any;
+
+  // Feed the token pool with the budget GitHub reports for this token
+  if (body.data?.rateLimit) reportRateLimit(token, body.data.rateLimit);
+
+  if (body.errors?.length) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const errors: any[] = body.errors;
+    if (errors.some((e) => e.type === 'RATE_LIMITED')) {
+      throw new RateLimitedError(readResetAt(res.headers));
+    }
+    // Missing nodes come back as null data plus a NOT_FOUND error
+    const fatal = errors.filter((e) => e.type !== 'NOT_FOUND');
+    if (fatal.length > 0 || !body.data) {
+      const msg =
+        errors
+          .map((e) => e.message)
+          .filter(Boolean)
+          .join(' | ') || 'GitHub API error';
+      throw new UpstreamError(msg);
+    }
+  }
+
+  return body.data as T;
+}
+
+/**
+ * Sends a GraphQL query to GitHub and returns its `data` payload.
+ * Uses the pooled token with the most remaining budget; when GitHub
+ * rate-limits or rejects that token (401/403), it is parked in the pool
+ * and the query is retried with the next best token. Queries should
+ * select `rateLimit { remaining resetAt cost }` so the pool stays current.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function githubGraphQL<T = any>(
+  query: string,
+  variables: Record<string, unknown>
+): Promise<T> {
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt < Math.max(1, tokenPoolSize()); attempt++) {
+    // Throws AuthFailedError / RateLimitedError once no usable token is left
+    const token = acquireToken();
+    try {
+      return await sendGraphQL<T>(token, query, variables);
+    } catch (err) {
+      if (err instanceof RateLimitedError) {
+        markExhausted(token, err.resetAt);
+      } else if (err instanceof AuthFailedError) {
+        markInvalid(token);
+      } else {
+        throw err;
+      }
+      lastError = err;
+    }
+  }
+
+  throw lastError;
+}
+
 /* ---------- GraphQL Queries ---------- */
 
 /**
@@ -37,6 +184,7 @@ function getHeaders(): Record<string, string> {
  */
 const QUERY_WITH_LANGS = `
 query userInfo($login: String!, $cursor: String, $from: DateTime!, $to: DateTime!) {
+  rateLimit { remaining resetAt cost }
   user(login: $login) {
     login
     name
@@ -51,11 +199,13 @@ query userInfo($login: String!, $cursor: String, $from: DateTime!, $to: DateTime
     closedIssues: issues(states: CLOSED) { totalCount }
     contributionsCollection(from: $from, to: $to) {
       totalCommitContributions
+      contributionYears
     }
     repositories(first: 100, ownerAffiliations: OWNER, isFork: false, orderBy: {direction: DESC, field: STARGAZERS}, after: $cursor) {
       totalCount
       pageInfo { hasNextPage endCursor }
       nodes {
+        name
         stargazers { totalCount }
         languages(first: 10, orderBy: {field: SIZE, direction: DESC}) {
           edges { size node { color name } }
@@ -68,6 +218,7 @@ query userInfo($login: String!, $cursor: String, $from: DateTime!, $to: DateTime
 /** Lighter query that skips language data for faster responses */
 const QUERY_NO_LANGS = `
 query userInfo($login: String!, $cursor: String, $from: DateTime!, $to: DateTime!) {
+  rateLimit { remaining resetAt cost }
   user(login: $login) {
     login
     name
@@ -82,6 +233,7 @@ query userInfo($login: String!, $cursor: String, $from: DateTime!, $to: DateTime
     closedIssues: issues(states: CLOSED) { totalCount }
     contributionsCollection(from: $from, to: $to) {
       totalCommitContributions
+      contributionYears
     }
     repositories(first: 100, ownerAffiliations: OWNER, isFork: false, orderBy: {direction: DESC, field: STARGAZERS}, after: $cursor) {
       totalCount
@@ -93,126 +245,346 @@ query userInfo($login: String!, $cursor: String, $from: DateTime!, $to: DateTime
   }
 }`;
 
-/* ---------- Cache Layer ---------- */
-
-/** Cache TTL: 30 minutes (matches the CDN s-maxage) */
-const CACHE_TTL_SECONDS = 30 * 60;
-
 /**
- * Maximum number of entries allowed in the in-memory cache.
- * When this limit is exceeded, the oldest entries (by insertion order)
- * are evicted to keep memory usage bounded.
- * [Fix] Issue #3 Bug 1 - Previously the cache had no size limit and could
- * grow indefinitely when many unique usernames were queried.
+ * Builds a query counting the commits of each of `years`, one aliased
+ * contributionsCollection per year (GitHub limits a collection to one
+ * year). Years come from the API as integers, so inlining them is safe.
  */
-const MAX_CACHE_SIZE = 500;
+function buildCommitTotalsQuery(years: number[]): string {
+  const collections = years
+    .map(
+      (year) => `
+    y${year}: contributionsCollection(from: "${year}-01-01T00:00:00Z", to: "${year}-12-31T23:59:59Z") {
+      totalCommitContributions
+    }`
+    )
+    .join('');
+
+  return `
+query commitTotals($login: String!) {
+  rateLimit { remaining resetAt cost }
+  user(login: $login) {${collections}
+  }
+}`;
+}
+
+/* ---------- Repository Pagination ---------- */
+
+/** Maximum repository pages (of 100) fetched per owner, to prevent runaway pagination */
+const MAX_REPO_PAGES = 10;
+
+/** Kind of account whose repositories are paginated */
+export type RepositoryOwnerKind = 'user' | 'organization';
 
 /**
- * Interval (in ms) for the periodic sweep that prunes expired entries.
- * Runs every 5 minutes so stale entries don't linger until the next read.
- * [Fix] Issue #3 Bug 1 - Previously expired entries were only cleaned on
- * read, meaning entries for usernames never requested again stayed forever.
+ * Runs a query that selects `user.repositories(first: 100, after: $cursor)`
+ * (or `organization.repositories(...)` when `kind` is "organization")
+ * page by page and collects every repository node. The query receives
+ * `$login` and `$cursor` plus any extra `variables`.
+ *
+ * @returns The owner object from the first page (for its non-paginated
+ *          fields) and the repository nodes of every page, in query order
  */
-const CACHE_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+export async function fetchRepositoryPages(
+  query: string,
+  login: string,
+  variables: Record<string, unknown> = {},
+  kind: RepositoryOwnerKind = 'user'
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ owner: any; repos: any[] }> {
+  let hasNextPage = true;
+  let cursor: string | null = null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let owner: any = null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const repos: any[] = [];
+  let pageCount = 0;
+
+  // Paginate through all repositories to get complete data
+  while (hasNextPage && pageCount < MAX_REPO_PAGES) {
+    pageCount++;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const data: any = await githubGraphQL(query, { ...variables, login, cursor });
+
+    const node = data[kind];
+    if (!node) {
+      throw kind === 'organization'
+        ? new OrganizationNotFoundError(login)
+        : new UserNotFoundError(login);
+    }
 
-/** Maximum number of in-flight requests to prevent memory bloat */
-const MAX_IN_FLIGHT_REQUESTS = 100;
+    // Store owner data from first page only
+    if (!owner) owner = node;
 
-/** In-memory cache entry with expiry and optional in-flight promise */
-interface CacheEntry {
-  expiresAt: number;
-  value?: ProfileData;
-  inFlight?: Promise<ProfileData>;
+    const page = node.repositories;
+    const nodes = page.nodes || [];
+    repos.push(...nodes);
+
+    hasNextPage = page.pageInfo.hasNextPage;
+    cursor = page.pageInfo.endCursor;
+    if (nodes.length === 0) hasNextPage = false;
+  }
+
+  return { owner, repos };
 }
 
-/**
- * In-memory cache map with bounded size and periodic expiry sweep.
- * Uses FIFO eviction with write-refresh: oldest entries (by insertion
- * order) are removed first when MAX_CACHE_SIZE is exceeded. Writes
- * refresh an entry's position but reads do not, so this is not true
- * LRU. For a 500-entry cache with 30-minute TTL this is sufficient.
- * [Fix] Issue #3 Bug 1
- */
-const cache = new Map<string, CacheEntry>();
+/* ---------- Language Aggregation ---------- */
+
+/** Number of top languages shown when the caller does not ask for a count */
+export const DEFAULT_LANGS_COUNT = 5;
 
-/** Counter for in-flight requests */
-let inFlightCount = 0;
+/** Most languages a caller can ask for (and how many profiles keep in the cache) */
+export const MAX_LANGS_COUNT = 20;
+
+/** Exponents of each weighting method; "blend" ones are the defaults the caller may tune */
+export const LANG_WEIGHTING_EXPONENTS: Record<
+  LangWeighting,
+  { sizeExponent: number; countExponent: number }
+> = {
+  size: { sizeExponent: 1, countExponent: 0 },
+  repo_count: { sizeExponent: 0, countExponent: 1 },
+  blend: { sizeExponent: 0.5, countExponent: 0.5 },
+};
+
+/** Ranking by bytes alone, the default */
+const SIZE_WEIGHTING: LanguageWeighting = { method: 'size', ...LANG_WEIGHTING_EXPONENTS.size };
 
 /**
- * Evicts the oldest cache entries (by Map insertion order) until the
- * cache size is at or below MAX_CACHE_SIZE.
- * [Fix] Issue #3 Bug 1 - Ensures the cache never grows unbounded.
+ * Sums the language byte sizes of every repository node (as selected by
+ * `languages(first: 10) { edges { size node { color name } } }`), counts
+ * the repositories using each language, and returns the top `limit`
+ * languages by weight: size^sizeExponent * repoCount^countExponent (by
+ * size alone unless a `weighting` is given).
+ *
+ * The optional `filter` skips the languages of excluded repositories
+ * (matched on the node's `name`), merges alias groups into one entry and
+ * drops hidden languages. A merged entry takes the color of the language
+ * it is named after when that language is present, else the color of its
+ * largest member, and counts a repository once even when it uses several
+ * of its members.
  */
-function evictOldestEntries(): void {
-  while (cache.size > MAX_CACHE_SIZE) {
-    // Map.keys().next() gives the oldest inserted key
-    const oldest = cache.keys().next();
-    if (oldest.done) break;
-    cache.delete(oldest.value);
+export function aggregateLanguages(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  repos: any[],
+  limit: number = MAX_LANGS_COUNT,
+  filter: LanguageFilter = {},
+  weighting: LanguageWeighting = SIZE_WEIGHTING
+): LanguageStat[] {
+  const hidden = new Set((filter.hide ?? []).map((name) => name.toLowerCase()));
+  const excluded = new Set((filter.excludeRepos ?? []).map((name) => name.toLowerCase()));
+  const aliasOf = new Map<string, string>();
+  for (const alias of filter.aliases ?? []) {
+    for (const source of alias.sources) {
+      // A language listed in several groups joins the first one
+      if (!aliasOf.has(source.toLowerCase())) aliasOf.set(source.toLowerCase(), alias.name);
+    }
   }
+
+  // Per language: total bytes, color and the (indices of the) repositories using it
+  const langMap = new Map<string, { size: number; color: string; repos: Set<number> }>();
+
+  repos.forEach((repo, index) => {
+    if (excluded.size > 0 && excluded.has(String(repo.name).toLowerCase())) return;
+    const edges = repo.languages?.edges || [];
+    for (const edge of edges) {
+      if (!edge.node || !edge.size) continue;
+      if (hidden.has(edge.node.name.toLowerCase())) continue;
+      const current = langMap.get(edge.node.name);
+      if (current) {
+        current.size += edge.size;
+        current.repos.add(index);
+      } else {
+        /**
+         * [Fix] Issue #3 Bug 2 - Use getLangColor() from the local
+         * language color map as the primary source, with the GitHub
+         * API color as a secondary fallback. This ensures the
+         * comprehensive 600+ language color map in languages.ts is
+         * actually utilized instead of being dead code, and provides
+         * a reliable fallback chain:
+         *   1. GitHub API color (edge.node.color)
+         *   2. Local language color map (getLangColor)
+         *   3. Neutral gray '#ccc' (built into getLangColor)
+         */
+        langMap.set(edge.node.name, {
+          size: edge.size,
+          color: edge.node.color || getLangColor(edge.node.name),
+          repos: new Set([index]),
+        });
+      }
+    }
+  });
+
+  // Fold alias groups into their display name, largest members first
+  const merged = new Map<string, { size: number; color: string; repos: Set<number> }>();
+  const bySize = Array.from(langMap.entries()).sort((a, b) => b[1].size - a[1].size);
+  for (const [name, d] of bySize) {
+    const target = aliasOf.get(name.toLowerCase()) ?? name;
+    if (target !== name && hidden.has(target.toLowerCase())) continue;
+    const current = merged.get(target);
+    if (current) {
+      current.size += d.size;
+      for (const index of d.repos) current.repos.add(index);
+    } else {
+      merged.set(target, {
+        size: d.size,
+        color: langMap.get(target)?.color ?? d.color,
+        repos: new Set(d.repos),
+      });
+    }
+  }
+
+  // Rank by weight (ties by size) and take the top `limit`
+  return Array.from(merged.entries())
+    .map(([name, d]) => ({
+      name,
+      size: d.size,
+      color: d.color,
+      repoCount: d.repos.size,
+      weight: d.size ** weighting.sizeExponent * d.repos.size ** weighting.countExponent,
+    }))
+    .sort((a, b) => b.weight - a.weight || b.size - a.size)
+    .slice(0, limit);
 }
 
+/* ---------- Commit Ranges ---------- */
+
+/** Earliest year accepted for `commits_range=YYYY` (GitHub launched in 2008) */
+export const FIRST_COMMIT_YEAR = 2008;
+
 /**
- * Sweeps all expired entries from the in-memory cache.
- * Called periodically by a timer so stale entries are cleaned up
- * even if they are never read again.
- * [Fix] Issue #3 Bug 1 - Previously expired entries were only purged
- * on read (inside getCache), leaving orphaned entries in memory.
+ * The window the profile query counts commits over, and the year it is
+ * labelled with. all_time starts from the current year; the earlier
+ * years are added by fetchCommitTotal.
  */
-function sweepExpiredEntries(): void {
-  const now = Date.now();
-  for (const [key, entry] of cache) {
-    if (entry.expiresAt <= now && !entry.inFlight) {
-      cache.delete(key);
-    }
+function commitsWindow(range: CommitsRange, now: Date): { from: Date; to: Date; year: number } {
+  const currentYear = now.getUTCFullYear();
+  if (range === 'rolling365') {
+    return {
+      from: new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000),
+      to: now,
+      year: currentYear,
+    };
   }
+  if (typeof range === 'number' && range !== currentYear) {
+    return {
+      from: new Date(Date.UTC(range, 0, 1)),
+      to: new Date(Date.UTC(range, 11, 31, 23, 59, 59)),
+      year: range,
+    };
+  }
+  return { from: new Date(Date.UTC(currentYear, 0, 1)), to: now, year: currentYear };
+}
+
+/** Sums a user's commit contributions over `years` with one aliased query */
+async function fetchCommitTotal(username: string, years: number[]): Promise<number> {
+  if (years.length === 0) return 0;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const data: any = await githubGraphQL(buildCommitTotalsQuery(years), { login: username });
+  if (!data.user) throw new UserNotFoundError(username);
+  return years.reduce(
+    (sum, year) => sum + (data.user[`y${year}`]?.totalCommitContributions || 0),
+    0
+  );
 }
 
+/* ---------- Cache Layer ---------- */
+
+/** Cache TTL: 30 minutes (matches the CDN s-maxage) */
+export const CACHE_TTL_SECONDS = 30 * 60;
+
 /**
- * Periodic sweep timer — runs every CACHE_SWEEP_INTERVAL_MS to prune
- * expired entries proactively. Uses unref() so the timer does not
- * prevent the Node.js process from exiting gracefully.
- * [Fix] Issue #3 Bug 1
+ * Grace window after the TTL during which a cached profile is still
+ * served (marked stale) while a background refresh fetches a new one.
  */
-const _sweepTimer = setInterval(sweepExpiredEntries, CACHE_SWEEP_INTERVAL_MS);
-if (typeof _sweepTimer === 'object' && 'unref' in _sweepTimer) {
-  _sweepTimer.unref();
-}
+export const CACHE_STALE_SECONDS = 24 * 60 * 60;
 
 /** Options for controlling what data to fetch */
 interface FetchOptions {
   includeLanguages?: boolean;
+  /**
+   * Number of top languages to return (default: DEFAULT_LANGS_COUNT).
+   * Profiles are cached with up to MAX_LANGS_COUNT languages and trimmed
+   * on the way out, so every count shares one cache entry.
+   */
+  langsCount?: number;
+  /**
+   * Hidden languages, excluded repositories and alias groups applied
+   * while aggregating languages. Each distinct filter is cached under its
+   * own key (see languageOptionsKey).
+   */
+  languageFilter?: LanguageFilter;
+  /**
+   * How languages are ranked (default: by size). Like the filter, this is
+   * applied while aggregating, so each weighting has its own cache key.
+   */
+  languageWeighting?: LanguageWeighting;
+  /** Window the commits stat covers (default: the current year); part of the cache key */
+  commitsRange?: CommitsRange;
 }
 
-/* ---------- Upstash Redis (optional) ---------- */
+/**
+ * Cache key suffix for a language filter and weighting: empty for neither
+ * (size weighting is the default), otherwise a canonical form
+ * (lowercased, deduplicated and sorted, except for the alias groups whose
+ * order matters) so equivalent options share an entry.
+ */
+function languageOptionsKey(
+  filter: LanguageFilter = {},
+  weighting: LanguageWeighting = SIZE_WEIGHTING
+): string {
+  const normalize = (names: string[] = []) =>
+    [...new Set(names.map((name) => name.toLowerCase()))].sort();
+  const hide = normalize(filter.hide);
+  const exclude = normalize(filter.excludeRepos);
+  const aliases = (filter.aliases ?? []).map((a) => [a.name, ...normalize(a.sources)]);
+  const weight = [weighting.sizeExponent, weighting.countExponent];
+  const weighted = weight[0] !== 1 || weight[1] !== 0;
+  if (hide.length === 0 && exclude.length === 0 && aliases.length === 0 && !weighted) return '';
+  return `:${JSON.stringify({ hide, exclude, aliases, ...(weighted ? { weight } : {}) })}`;
+}
+
+/**
+ * The current year given as a number covers the same window as 'year',
+ * so it is folded into it to share one cache entry
+ */
+function normalizeCommitsRange(range: CommitsRange = 'year'): CommitsRange {
+  return range === new Date().getUTCFullYear() ? 'year' : range;
+}
 
-// Read Upstash credentials from environment (supports both naming conventions)
-const redisUrl = process.env['UPSTASH_REDIS_REST_URL'] || process.env['KV_REST_API_URL'] || '';
-const redisToken =
-  process.env['UPSTASH_REDIS_REST_TOKEN'] || process.env['KV_REST_API_TOKEN'] || '';
+/** Cache key suffix for a commits range: empty for the default (current year) */
+function commitsRangeKey(range: CommitsRange = 'year'): string {
+  return range === 'year' ? '' : `:commits=${range}`;
+}
 
-/** Lazy-loaded Redis singleton (null if credentials are missing) */
-let redisPromise: Promise<import('@upstash/redis').Redis | null> | null = null;
+/** Trims a profile's languages to the requested count */
+function limitLanguages(
+  result: CachedResult<ProfileData>,
+  count: number
+): CachedResult<ProfileData> {
+  if (result.value.languages.length <= count) return result;
+  return {
+    ...result,
+    value: { ...result.value, languages: result.value.languages.slice(0, count) },
+  };
+}
 
 /**
- * Returns an Upstash Redis client, or null if credentials aren't configured.
- * The import is dynamic so the app works fine without Upstash in dev mode.
+ * Guards against cache entries written by an older version of the app
+ * (e.g. before commitYear or the PR/issue breakdown existed), which are
+ * treated as misses.
  */
-async function getRedis(): Promise<import('@upstash/redis').Redis | null> {
-  if (!redisUrl || !redisToken) return null;
-
-  if (!redisPromise) {
-    redisPromise = import('@upstash/redis')
-      .then((mod) => new mod.Redis({ url: redisUrl, token: redisToken }))
-      .catch((err) => {
-        console.error('Failed to initialize Redis:', err instanceof Error ? err.message : err);
-        return null;
-      });
-  }
-
-  return redisPromise;
+function isCurrentProfile(value: ProfileData): boolean {
+  return value.stats?.commitYear != null && value.stats.mergeRate != null;
 }
 
+/** Cache policy shared by every profile cache key */
+const PROFILE_CACHE: RevalidateOptions<ProfileData> = {
+  ttlSeconds: CACHE_TTL_SECONDS,
+  staleSeconds: CACHE_STALE_SECONDS,
+  validate: isCurrentProfile,
+};
+
 /* ---------- Avatar Helper ---------- */
 
 /**
@@ -220,7 +592,7 @@ async function getRedis(): Promise<import('@upstash/redis').Redis | null> {
  * This allows the avatar to be embedded directly in the SVG
  * so the card works in contexts that don't support external images.
  */
-async function fetchAvatarDataUrl(url: string): Promise<string | null> {
+export async function fetchAvatarDataUrl(url: string): Promise<string | null> {
   try {
     // Request a smaller 96px version for better performance
     const sizedUrl = `${url}${url.includes('?') ? '&' : '?'}s=96`;
@@ -244,57 +616,38 @@ async function fetchAvatarDataUrl(url: string): Promise<string | null> {
   }
 }
 
-/* ---------- Cache Helpers ---------- */
-
-/** Reads from the in-memory cache (returns null if expired or missing) */
-function getCache(cacheKey: string): ProfileData | null {
-  const entry = cache.get(cacheKey);
-  if (!entry) return null;
-
-  if (entry.expiresAt <= Date.now()) {
-    cache.delete(cacheKey);
-    return null;
-  }
-
-  return entry.value ?? null;
-}
-
-/**
- * Writes a value into the in-memory cache and evicts oldest entries
- * if the cache exceeds MAX_CACHE_SIZE.
- * [Fix] Issue #3 Bug 1 - Added eviction call to enforce bounded size.
- */
-function setCache(cacheKey: string, value: ProfileData): void {
-  // Delete first so re-insertion moves the key to the end (most recent)
-  cache.delete(cacheKey);
-  cache.set(cacheKey, {
-    expiresAt: Date.now() + CACHE_TTL_SECONDS * 1000,
-    value,
-  });
-  evictOldestEntries();
-}
-
 /* ---------- Main Fetch Function ---------- */
 
 /**
- * Fetches a GitHub user's profile data including stats and top languages.
- * Implements a 3-tier caching strategy:
- *   1. In-memory cache (fastest, per-instance)
- *   2. Upstash Redis (shared across instances, optional)
- *   3. Live GitHub GraphQL API (fallback, paginates all repos)
+ * Fetches a GitHub user's profile data including stats and top languages,
+ * along with how it was served (HIT, STALE or MISS) and its age.
+ * Implements a tiered caching strategy:
+ *   1. The ordered cache chain (by default in-memory, then Upstash Redis
+ *      when configured; filesystem and SQLite stores are available for
+ *      self-hosting, see CACHE_STORES)
+ *   2. Live GitHub GraphQL API (fallback, paginates all repos)
  *
- * Also deduplicates concurrent requests for the same user to prevent
- * hammering the GitHub API when multiple cards load simultaneously.
+ * Expired entries are served stale for CACHE_STALE_SECONDS while a single
+ * background refresh runs. Concurrent requests for the same user share
+ * one fetch to prevent hammering the GitHub API when multiple cards load
+ * simultaneously.
  */
-export async function getProfileData(
+export async function getCachedProfileData(
   username: string,
   opts: FetchOptions = {}
-): Promise<ProfileData> {
+): Promise<CachedResult<ProfileData>> {
   const includeLanguages = opts.includeLanguages ?? true;
-  const cacheKey = `${username}:${includeLanguages ? 'langs' : 'nolangs'}`;
-  /* --- Layer 1: In-memory cache --- */
-  const cached = getCache(cacheKey);
-  if (cached) return cached;
+  const langsCount = opts.langsCount ?? DEFAULT_LANGS_COUNT;
+  // The filter and weighting only affect languages, so profiles without them ignore both
+  const filter = includeLanguages ? opts.languageFilter : undefined;
+  const weighting = includeLanguages ? opts.languageWeighting : undefined;
+  const range = normalizeCommitsRange(opts.commitsRange);
+  const cacheKey = `profile:${username}:${includeLanguages ? 'langs' : 'nolangs'}${languageOptionsKey(filter, weighting)}${commitsRangeKey(range)}`;
+  const load = () => fetchProfileData(username, includeLanguages, filter, weighting, range);
+
+  /* --- Layers 1..n: configured cache chain (memory, Redis, fs, SQLite) --- */
+  const cached = await peekCached(cacheKey, load, PROFILE_CACHE);
+  if (cached) return limitLanguages(cached, langsCount);
   /**
    * Cache superset check: when languages are NOT requested, a cached
    * "langs" entry for the same user is a superset of the needed data
@@ -302,209 +655,100 @@ export async function getProfileData(
    * making a redundant API call with QUERY_NO_LANGS.
    */
   if (!includeLanguages) {
-    const supersetCached = getCache(`${username}:langs`);
-    if (supersetCached) return supersetCached;
-  }
-  /* --- Layer 2: Upstash Redis --- */
-  const redis = await getRedis();
-  if (redis) {
-    try {
-      const redisValue = await redis.get<ProfileData>(`profile:${cacheKey}`);
-      if (redisValue && redisValue.stats?.commitYear != null) {
-        setCache(cacheKey, redisValue);
-        return redisValue;
-      }
-      // Check superset key in Redis when languages are not requested
-      if (!includeLanguages) {
-        const supersetRedis = await redis.get<ProfileData>(`profile:${username}:langs`);
-        if (supersetRedis && supersetRedis.stats?.commitYear != null) {
-          setCache(cacheKey, supersetRedis);
-          return supersetRedis;
-        }
-      }
-    } catch (err) {
-      console.warn('Redis get error:', err instanceof Error ? err.message : err);
-    }
+    const superset = await peekCached(
+      `profile:${username}:langs${commitsRangeKey(range)}`,
+      () => fetchProfileData(username, true, undefined, undefined, range),
+      PROFILE_CACHE
+    );
+    if (superset) return limitLanguages(superset, langsCount);
   }
 
-  /* --- Deduplicate in-flight requests --- */
-  const existing = cache.get(cacheKey);
-  if (existing?.inFlight) return existing.inFlight;
-
-  /* --- Check in-flight request limit --- */
-  if (inFlightCount >= MAX_IN_FLIGHT_REQUESTS) {
-    throw new Error('Too many concurrent requests. Please try again later.');
-  }
-
-  /* --- Layer 3: Live GitHub GraphQL API --- */
-  inFlightCount++;
-  const inFlight = (async (): Promise<ProfileData> => {
-    try {
-      // Build date range for contribution stats (current year)
-      const now = new Date();
-      const yearStart = new Date(Date.UTC(now.getUTCFullYear(), 0, 1, 0, 0, 0));
-      const from = yearStart.toISOString();
-      const to = now.toISOString();
-
-      let hasNextPage = true;
-      let cursor: string | null = null;
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let user: any = null;
-      let totalStars = 0;
-      const langMap = includeLanguages ? new Map<string, { size: number; color: string }>() : null;
-      let pageCount = 0;
-      const maxPages = 10; // Prevent runaway pagination
-
-      // Paginate through all repositories to get complete data
-      while (hasNextPage && pageCount < maxPages) {
-        pageCount++;
-
-        const res = await fetch('https://api.github.com/graphql', {
-          method: 'POST',
-          headers: getHeaders(),
-          body: JSON.stringify({
-            query: includeLanguages ? QUERY_WITH_LANGS : QUERY_NO_LANGS,
-            variables: { login: username, cursor, from, to },
-          }),
-          signal: AbortSignal.timeout(10000), // 10 second timeout
-        });
-
-        if (!res.ok) {
-          const text = await res.text();
-          if (res.status === 401) {
-            throw new Error('GitHub API authentication failed (401)');
-          }
-          if (res.status === 403) {
-            throw new Error('GitHub API rate limit exceeded or access forbidden (403)');
-          }
-          throw new Error(`GitHub API error (${res.status}): ${text.slice(0, 100)}`);
-        }
-
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const body = (await res.json()) as any;
-
-        if (body.errors?.length) {
-          const msg =
-            body.errors
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              .map((e: any) => e.message)
-              .filter(Boolean)
-              .join(' | ') || 'GitHub API error';
-          throw new Error(msg);
-        }
-
-        if (!body.data?.user) throw new Error('User not found');
-
-        // Store user data from first page only
-        if (!user) user = body.data.user;
-
-        const repos = body.data.user.repositories;
-        const nodes = repos.nodes || [];
-
-        // Aggregate stars and language data across all repos
-        for (const repo of nodes) {
-          totalStars += repo.stargazers.totalCount;
-
-          if (langMap) {
-            const edges = repo.languages?.edges || [];
-            for (const edge of edges) {
-              if (!edge.node || !edge.size) continue;
-              const current = langMap.get(edge.node.name);
-              if (current) {
-                current.size += edge.size;
-              } else {
-                /**
-                 * [Fix] Issue #3 Bug 2 - Use getLangColor() from the local
-                 * language color map as the primary source, with the GitHub
-                 * API color as a secondary fallback. This ensures the
-                 * comprehensive 600+ language color map in languages.ts is
-                 * actually utilized instead of being dead code, and provides
-                 * a reliable fallback chain:
-                 *   1. GitHub API color (edge.node.color)
-                 *   2. Local language color map (getLangColor)
-                 *   3. Neutral gray '#ccc' (built into getLangColor)
-                 */
-                langMap.set(edge.node.name, {
-                  size: edge.size,
-                  color: edge.node.color || getLangColor(edge.node.name),
-                });
-              }
-            }
-          }
-        }
-
-        hasNextPage = repos.pageInfo.hasNextPage;
-        cursor = repos.pageInfo.endCursor;
-        if (nodes.length === 0) hasNextPage = false;
-      }
+  /* --- Final layer: Live GitHub GraphQL API (deduplicated) --- */
+  return limitLanguages(await loadCached(cacheKey, load, PROFILE_CACHE), langsCount);
+}
 
-      // Sort languages by size (descending) and take top 5
-      const languages: LanguageStat[] = langMap
-        ? Array.from(langMap.entries())
-            .sort((a, b) => b[1].size - a[1].size)
-            .slice(0, 5)
-            .map(([name, d]) => ({ name, size: d.size, color: d.color }))
-        : [];
-
-      // Fetch and embed the avatar as a base64 data URL
-      const avatarDataUrl = await fetchAvatarDataUrl(user.avatarUrl);
-
-      const profile: ProfileData = {
-        user: {
-          login: user.login,
-          name: user.name,
-          avatarUrl: user.avatarUrl,
-          avatarDataUrl,
-          bio: user.bio,
-          pronouns: user.pronouns,
-          twitter: user.twitterUsername,
-        },
-        stats: {
-          stars: totalStars,
-          repos: user.repositories.totalCount,
-          prs:
-            (user.openPRs?.totalCount || 0) +
-            (user.closedPRs?.totalCount || 0) +
-            (user.mergedPRs?.totalCount || 0),
-          issues: (user.openIssues?.totalCount || 0) + (user.closedIssues?.totalCount || 0),
-          commits: user.contributionsCollection?.totalCommitContributions || 0,
-          /**
-           * [Fix] Issue #3 Bug 6 - Record the year so the card can display
-           * "Commits (2026)" instead of a bare "Commits" label.
-           */
-          commitYear: now.getUTCFullYear(),
-        },
-        languages,
-      };
-
-      // Populate both cache layers
-      setCache(cacheKey, profile);
-      if (redis) {
-        try {
-          await redis.set(`profile:${cacheKey}`, profile, {
-            ex: CACHE_TTL_SECONDS,
-          });
-        } catch (err) {
-          console.warn('Redis set error:', err instanceof Error ? err.message : err);
-          // Non-fatal: Redis write failure doesn't break the response
-        }
-      }
+/** Fetches a GitHub user's profile data (see getCachedProfileData) */
+export async function getProfileData(
+  username: string,
+  opts: FetchOptions = {}
+): Promise<ProfileData> {
+  return (await getCachedProfileData(username, opts)).value;
+}
 
-      return profile;
-    } catch (err) {
-      // Clear cache entry on failure so next request retries
-      cache.delete(cacheKey);
-      throw err;
-    } finally {
-      inFlightCount--;
-    }
-  })();
+/** Fetches profile data live from the GraphQL API, paginating all repos */
+async function fetchProfileData(
+  username: string,
+  includeLanguages: boolean,
+  filter?: LanguageFilter,
+  weighting?: LanguageWeighting,
+  range: CommitsRange = 'year'
+): Promise<ProfileData> {
+  // Build date range for contribution stats (see commitsWindow)
+  const now = new Date();
+  const commitWindow = commitsWindow(range, now);
+
+  const { owner: user, repos } = await fetchRepositoryPages(
+    includeLanguages ? QUERY_WITH_LANGS : QUERY_NO_LANGS,
+    username,
+    { from: commitWindow.from.toISOString(), to: commitWindow.to.toISOString() }
+  );
+
+  // All time: the current year's commits plus every earlier contribution year
+  let commits = user.contributionsCollection?.totalCommitContributions || 0;
+  if (range === 'all_time') {
+    const years: number[] = user.contributionsCollection?.contributionYears ?? [];
+    commits += await fetchCommitTotal(
+      username,
+      years.filter((year) => year !== commitWindow.year)
+    );
+  }
 
-  // Store the in-flight promise so concurrent requests share it
-  cache.set(cacheKey, {
-    expiresAt: Date.now() + CACHE_TTL_SECONDS * 1000,
-    inFlight,
-  });
+  // Aggregate stars and language data across all repos
+  const totalStars = repos.reduce((sum, repo) => sum + repo.stargazers.totalCount, 0);
+  const languages = includeLanguages
+    ? aggregateLanguages(repos, MAX_LANGS_COUNT, filter, weighting)
+    : [];
+
+  const openPRs = user.openPRs?.totalCount || 0;
+  const closedPRs = user.closedPRs?.totalCount || 0;
+  const mergedPRs = user.mergedPRs?.totalCount || 0;
+  const openIssues = user.openIssues?.totalCount || 0;
+  const closedIssues = user.closedIssues?.totalCount || 0;
+
+  // Fetch and embed the avatar as a base64 data URL
+  const avatarDataUrl = await fetchAvatarDataUrl(user.avatarUrl);
+
+  const profile: ProfileData = {
+    user: {
+      login: user.login,
+      name: user.name,
+      avatarUrl: user.avatarUrl,
+      avatarDataUrl,
+      bio: user.bio,
+      pronouns: user.pronouns,
+      twitter: user.twitterUsername,
+    },
+    stats: {
+      stars: totalStars,
+      repos: user.repositories.totalCount,
+      prs: openPRs + closedPRs + mergedPRs,
+      issues: openIssues + closedIssues,
+      openPRs,
+      closedPRs,
+      mergedPRs,
+      openIssues,
+      closedIssues,
+      mergeRate: mergedPRs + closedPRs > 0 ? mergedPRs / (mergedPRs + closedPRs) : 0,
+      commits,
+      /**
+       * [Fix] Issue #3 Bug 6 - Record the year so the card can display
+       * "Commits (2026)" instead of a bare "Commits" label.
+       */
+      commitYear: commitWindow.year,
+      ...(range === 'rolling365' || range === 'all_time' ? { commitsRange: range } : {}),
+    },
+    languages,
+  };
 
-  return inFlight;
+  return profile;
 }
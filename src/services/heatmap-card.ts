@@ -0,0 +1,196 @@
+/**
+ * SVG contribution heatmap renderer.
+ * Draws a GitHub-style contribution calendar (one column per week, one
+ * row per weekday) with a color ramp derived from the theme's icon and
+ * background colors, plus month labels and a legend.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { ContributionCalendar, HeatmapOptions, WeekStart } from '../types/index.js';
+import {
+  addDays,
+  contributionRamp,
+  escapeXml,
+  kFormat,
+  MONTHS,
+  resolveColors,
+  todayInTimeZone,
+} from '../utils/index.js';
+import { FONT_FAMILY } from './card.js';
+
+/** Date range (inclusive, YYYY-MM-DD) shown on the heatmap */
+interface HeatmapRange {
+  from: string;
+  to: string;
+  /** Footer wording, e.g. "in 2025" or "in the last 6 months" */
+  label: string;
+}
+
+/** Day of the week (0 = Sunday) of a YYYY-MM-DD date */
+function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/** Whole days from `from` to `to` (both YYYY-MM-DD) */
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+/**
+ * Resolves the dates to draw: a whole calendar year, or the last
+ * `months` months up to and including today. Never extends past today.
+ */
+export function resolveHeatmapRange(
+  opts: Pick<HeatmapOptions, 'year' | 'months'>,
+  today: string
+): HeatmapRange {
+  if (opts.year) {
+    const to = `${opts.year}-12-31`;
+    return { from: `${opts.year}-01-01`, to: to < today ? to : today, label: `in ${opts.year}` };
+  }
+
+  const months = opts.months ?? 12;
+  const [y, m, d] = today.split('-').map(Number) as [number, number, number];
+  // Same day-of-month `months` months ago, clamped to that month's length
+  const lastDay = new Date(Date.UTC(y, m - 1 - months + 1, 0)).getUTCDate();
+  const start = new Date(Date.UTC(y, m - 1 - months, Math.min(d, lastDay)));
+  return {
+    from: addDays(start.toISOString().slice(0, 10), 1),
+    to: today,
+    label: months === 1 ? 'in the last month' : `in the last ${months} months`,
+  };
+}
+
+/** Maps a day's count to a ramp level (0-4) relative to the busiest day */
+function levelFor(count: number, max: number): number {
+  if (count <= 0 || max <= 0) return 0;
+  return Math.min(4, Math.ceil((count / max) * 4));
+}
+
+/**
+ * Renders a contribution heatmap card as an SVG string.
+ *
+ * @param calendar - Contribution calendar from getCachedContributionCalendar()
+ * @param opts     - Range, week start, cell shape and theme customization
+ * @param now      - Reference instant for "today" (UTC)
+ * @returns          Complete SVG markup as a string
+ */
+export function renderHeatmapCard(
+  calendar: ContributionCalendar,
+  opts: HeatmapOptions = {},
+  now: Date = new Date()
+): string {
+  if (!calendar?.login) throw new Error('Invalid user data: missing login');
+
+  const c = resolveColors(opts);
+  const hideBorder = opts.hide_border ?? false;
+  const ramp = contributionRamp(c);
+  const weekStart: WeekStart = opts.week_start ?? 'sun';
+  const shape = opts.cell ?? 'rounded';
+  const name = escapeXml(calendar.name || calendar.login);
+
+  const range = resolveHeatmapRange(opts, todayInTimeZone('UTC', now));
+  const counts = new Map(calendar.days.map((d) => [d.date, d.count]));
+
+  /* --- Grid geometry --- */
+  const CELL = 10;
+  const STEP = 13; // Cell plus gap
+  const P = 20;
+  const LABEL_W = 30; // Weekday labels column
+  const firstDow = weekStart === 'mon' ? 1 : 0;
+  // Align the first column to the start of its week
+  const gridStart = addDays(range.from, -((dayOfWeek(range.from) - firstDow + 7) % 7));
+  const weeks = range.from <= range.to ? Math.floor(daysBetween(gridStart, range.to) / 7) + 1 : 0;
+
+  /* --- Totals (busiest day sets the ramp scale) --- */
+  let total = 0;
+  let max = 0;
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    const count = counts.get(date) ?? 0;
+    total += count;
+    max = Math.max(max, count);
+  }
+  const summary = `${kFormat(total)} contribution${total === 1 ? '' : 's'} ${range.label}`;
+
+  /* --- Card size: wide enough for the grid and for the footer line --- */
+  const SUMMARY_CHAR_WIDTH = 6.2; // Approximate width per character at font-size 11px
+  const legendCellsW = ramp.length * STEP - (STEP - CELL);
+  const legendW = 28 + legendCellsW + 34; // "Less" + cells + "More"
+  const gridW = LABEL_W + weeks * STEP - (STEP - CELL);
+  const footerW = summary.length * SUMMARY_CHAR_WIDTH + 16 + legendW;
+  const W = Math.ceil(P * 2 + Math.max(gridW, footerW));
+
+  const titleY = P + 14;
+  const monthY = titleY + 22;
+  const gridY = monthY + 8;
+  const footerY = gridY + 7 * STEP - (STEP - CELL) + 22;
+  const H = footerY + P - 4;
+  const gridX = P + LABEL_W;
+
+  /* --- Day cells --- */
+  /** One cell in the current shape at (x, y) with the given ramp level */
+  const cell = (x: number, y: number, level: number) =>
+    shape === 'circle'
+      ? `<circle cx="${x + CELL / 2}" cy="${y + CELL / 2}" r="${CELL / 2}" fill="#${ramp[level]}"/>`
+      : `<rect x="${x}" y="${y}" width="${CELL}" height="${CELL}" rx="${shape === 'rounded' ? 2 : 0}" fill="#${ramp[level]}"/>`;
+
+  const cells: string[] = [];
+  const monthLabels: string[] = [];
+  let lastLabelCol = -Infinity;
+
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    const index = daysBetween(gridStart, date);
+    const col = Math.floor(index / 7);
+    const row = index % 7;
+    const x = gridX + col * STEP;
+    cells.push(cell(x, gridY + row * STEP, levelFor(counts.get(date) ?? 0, max)));
+
+    // Label each month at its first day (and the first month if it has room)
+    const day = Number(date.slice(8, 10));
+    const startsMonth = day === 1 || (date === range.from && day <= 15);
+    if (startsMonth && col - lastLabelCol >= 3) {
+      monthLabels.push(
+        `<text x="${x}" y="${monthY}" class="lbl">${MONTHS[Number(date.slice(5, 7)) - 1]}</text>`
+      );
+      lastLabelCol = col;
+    }
+  }
+
+  /* --- Weekday labels (Mon, Wed, Fri) --- */
+  const weekdayLabels = [
+    [1, 'Mon'],
+    [3, 'Wed'],
+    [5, 'Fri'],
+  ]
+    .map(([dow, label]) => {
+      const row = ((dow as number) - firstDow + 7) % 7;
+      return `<text x="${P}" y="${gridY + row * STEP + CELL - 1}" class="lbl">${label}</text>`;
+    })
+    .join('');
+
+  /* --- Legend (Less [ramp] More), right-aligned in the footer --- */
+  const moreX = W - P;
+  const legendX = moreX - 28 - legendCellsW;
+  const legend = `<text x="${legendX - 6}" y="${footerY}" class="lbl" text-anchor="end">Less</text>
+    ${ramp.map((_, level) => cell(legendX + level * STEP, footerY - CELL + 1, level)).join('')}
+    <text x="${moreX}" y="${footerY}" class="lbl" text-anchor="end">More</text>`;
+
+  return `<svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" xmlns="http://www.w3.org/2000/svg" shape-rendering="geometricPrecision" text-rendering="optimizeLegibility">
+    <title>${name}'s Contributions</title>
+    <style>
+      *{font-family:${FONT_FAMILY},sans-serif}
+      .bg{fill:#${c.bg}}
+      .title{font-size:14px;font-weight:700;fill:#${c.title}}
+      .lbl{font-size:9px;fill:#${c.text};opacity:.7}
+      .sum{font-size:11px;fill:#${c.text}}
+    </style>
+    <rect class="bg" width="${W}" height="${H}" rx="10" stroke="${hideBorder ? 'none' : `#${c.border}`}" stroke-width="1"/>
+    <text x="${P}" y="${titleY}" class="title">${name}'s Contributions</text>
+    ${monthLabels.join('')}
+    ${weekdayLabels}
+    <g>${cells.join('')}</g>
+    <text x="${P}" y="${footerY}" class="sum">${summary}</text>
+    ${legend}
+  </svg>`;
+}
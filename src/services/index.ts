@@ -5,6 +5,83 @@
  * @author Nayan Das <https://github.com/nayandas69>
  */
 
-export { getProfileData } from './github.js';
-export { renderCard } from './card.js';
-export type { CardOptions } from '../types/index.js';
+export {
+  DEFAULT_LANGS_COUNT,
+  FIRST_COMMIT_YEAR,
+  getCachedProfileData,
+  getProfileData,
+  LANG_WEIGHTING_EXPONENTS,
+  MAX_LANGS_COUNT,
+} from './github.js';
+export { getCachedContributionCalendar } from './contributions.js';
+export { getCachedExtraStats, withExtraStats } from './extra-stats.js';
+export { getCachedOrganization } from './organizations.js';
+export { calculateRank, RANK_METRICS, RANK_THRESHOLDS, rankLevel } from './rank.js';
+export { getCachedRepositories, getCachedRepository, selectRepositories } from './repositories.js';
+export {
+  commitsWindowLabel,
+  DEFAULT_STATS,
+  formatStat,
+  isStatKey,
+  needsExtraStats,
+  selectStats,
+  STAT_DEFINITIONS,
+  statLabel,
+} from './stats.js';
+export { getTeamProfiles, sortTeamMembers } from './team.js';
+export { getTokenPoolHealth, getTokenPoolStatus } from './tokens.js';
+export { renderCard, renderErrorCard } from './card.js';
+export { renderCompareCard } from './compare-card.js';
+export { renderHeatmapCard } from './heatmap-card.js';
+export { renderLangsCard } from './langs-card.js';
+export { renderOrgCard } from './org-card.js';
+export { renderRepoCard } from './repo-card.js';
+export { renderReposCard } from './repos-card.js';
+export { renderStreakCard } from './streak-card.js';
+export { renderTeamCard } from './team-card.js';
+export { rasterizeSvg, RASTER_SCALES } from './raster.js';
+export {
+  AuthFailedError,
+  GitHubServiceError,
+  OrganizationNotFoundError,
+  RateLimitedError,
+  RepositoryNotFoundError,
+  TimeoutError,
+  TooManyInFlightError,
+  UpstreamError,
+  UserNotFoundError,
+  toHttpError,
+} from './errors.js';
+export type {
+  CachedResult,
+  CacheStatus,
+  CardFormat,
+  CardOptions,
+  CommitsRange,
+  ExtraStats,
+  HeatmapCellShape,
+  HeatmapOptions,
+  HttpErrorInfo,
+  LangsCardOptions,
+  LangsLayout,
+  LanguageAlias,
+  LanguageFilter,
+  LanguageWeighting,
+  LangWeighting,
+  OrgData,
+  OrgProfile,
+  OrgStats,
+  RankLevel,
+  RasterFormat,
+  RepoDetails,
+  RepoSort,
+  RepoSummary,
+  StatKey,
+  TeamCardOptions,
+  TeamMember,
+  TeamSort,
+  TokenPoolHealth,
+  TokenStatus,
+  UserRank,
+  WeekStart,
+} from '../types/index.js';
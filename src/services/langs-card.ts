@@ -0,0 +1,258 @@
+/**
+ * SVG top languages card renderer.
+ * Shows a user's language breakdown on its own card in one of several
+ * layouts. Unlike the profile card, legends are never truncated: the
+ * card widens (or wraps the legend) to fit the longest language name.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { LangsCardOptions, LangsLayout, LanguageStat, UserProfile } from '../types/index.js';
+import { escapeXml, languageIcon, resolveColors, translate } from '../utils/index.js';
+import {
+  FONT_FAMILY,
+  LANG_WEIGHTING_LABELS,
+  languageWeight,
+  renderLanguageSegments,
+} from './card.js';
+
+/* --- Layout constants shared by every layout --- */
+const P = 22;
+const MIN_W = 300;
+const CONTENT_Y = P + 34; // First content line, below the title
+const CHAR_WIDTH = 6.8; // Approximate width per character at font-size 11px
+const DOT_GAP = 14; // Legend dot (r=5) plus spacing before the text
+const LEGEND_ROW = 20;
+
+/** A language with its share of the total, formatted for display */
+interface LegendEntry {
+  lang: LanguageStat;
+  share: number;
+  label: string;
+  /** Bundled logo drawn instead of the colored dot (lang_icons), if any */
+  logo: string | null;
+}
+
+/** Builds legend entries ("TypeScript 45.2%") from the language list */
+function toLegend(langs: LanguageStat[], icons: boolean): LegendEntry[] {
+  const total = langs.reduce((sum, l) => sum + languageWeight(l), 0) || 1;
+  return langs.map((lang) => {
+    const share = (languageWeight(lang) / total) * 100;
+    return {
+      lang,
+      share,
+      label: `${lang.name} ${share.toFixed(1)}%`,
+      logo: icons ? languageIcon(lang.name, 11) : null,
+    };
+  });
+}
+
+/** Estimated width of a legend item: dot plus full, untruncated label */
+function legendWidth(entry: LegendEntry): number {
+  return DOT_GAP + entry.label.length * CHAR_WIDTH;
+}
+
+/** One legend item (logo or colored dot + label) with its text baseline at x, y */
+function legendItem(entry: LegendEntry, x: number, y: number): string {
+  const marker = entry.logo
+    ? `<g transform="translate(${x - 0.5},${y - 9.5})">${entry.logo}</g>`
+    : `<circle cx="${x + 5}" cy="${y - 4}" r="5" fill="${entry.lang.color}"/>`;
+  return `${marker}<text x="${x + DOT_GAP}" y="${y}" class="lang">${escapeXml(entry.label)}</text>`;
+}
+
+/** Rendered body of one layout, with the card size it needs */
+interface LayoutResult {
+  width: number;
+  height: number;
+  body: string;
+}
+
+/** Track + proportional segments, clipped to a rounded bar */
+function stackedBar(langs: LanguageStat[], y: number, width: number, trackColor: string): string {
+  return `<clipPath id="bar"><rect x="${P}" y="${y}" width="${width}" height="8" rx="4"/></clipPath>
+    <rect x="${P}" y="${y}" width="${width}" height="8" rx="4" fill="#${trackColor}" opacity=".1"/>
+    <g clip-path="url(#bar)">${renderLanguageSegments(langs, P, y, width)}</g>`;
+}
+
+/**
+ * "bar": one stacked bar with a two-column legend below. The columns
+ * are as wide as the longest label.
+ */
+function barLayout(entries: LegendEntry[], trackColor: string): LayoutResult {
+  const columns = entries.length > 1 ? 2 : 1;
+  const colWidth = Math.max(...entries.map(legendWidth)) + 16;
+  const width = Math.max(MIN_W, P * 2 + columns * colWidth);
+  const legendY = CONTENT_Y + 30;
+  const rows = Math.ceil(entries.length / columns);
+  const legend = entries
+    .map((e, i) =>
+      legendItem(e, P + (i % columns) * colWidth, legendY + Math.floor(i / columns) * LEGEND_ROW)
+    )
+    .join('');
+  return {
+    width,
+    height: legendY + (rows - 1) * LEGEND_ROW + P,
+    body: `${stackedBar(
+      entries.map((e) => e.lang),
+      CONTENT_Y,
+      width - P * 2,
+      trackColor
+    )}
+    ${legend}`,
+  };
+}
+
+/**
+ * "compact": one stacked bar with the legend flowing left to right and
+ * wrapping onto new lines instead of truncating.
+ */
+function compactLayout(entries: LegendEntry[], trackColor: string): LayoutResult {
+  const width = Math.max(MIN_W, P * 2 + Math.max(...entries.map(legendWidth)));
+  const inner = width - P * 2;
+  const legendY = CONTENT_Y + 30;
+  let x = 0;
+  let row = 0;
+  const legend = entries
+    .map((e) => {
+      const w = legendWidth(e);
+      if (x > 0 && x + w > inner) {
+        x = 0;
+        row++;
+      }
+      const svg = legendItem(e, P + x, legendY + row * LEGEND_ROW);
+      x += w + 14;
+      return svg;
+    })
+    .join('');
+  return {
+    width,
+    height: legendY + row * LEGEND_ROW + P,
+    body: `${stackedBar(
+      entries.map((e) => e.lang),
+      CONTENT_Y,
+      inner,
+      trackColor
+    )}
+    ${legend}`,
+  };
+}
+
+/** "list": one row per language with its own progress bar */
+function listLayout(entries: LegendEntry[], trackColor: string): LayoutResult {
+  const ROW = 36;
+  const longestName = Math.max(...entries.map((e) => e.lang.name.length));
+  // Logos go before the names, which move right to make room
+  const nameX = entries.some((e) => e.logo) ? P + DOT_GAP : P;
+  // Name and percentage must fit side by side above the bar
+  const width = Math.max(MIN_W, nameX + P + (longestName + 8) * CHAR_WIDTH);
+  const inner = width - P * 2;
+  const body = entries
+    .map((e, i) => {
+      const y = CONTENT_Y + i * ROW;
+      const logo = e.logo ? `<g transform="translate(${P - 0.5},${y - 9.5})">${e.logo}</g>` : '';
+      return `${logo}<text x="${nameX}" y="${y}" class="lang">${escapeXml(e.lang.name)}</text>
+    <text x="${width - P}" y="${y}" class="lang pct">${e.share.toFixed(1)}%</text>
+    <rect x="${P}" y="${y + 8}" width="${inner}" height="8" rx="4" fill="#${trackColor}" opacity=".1"/>
+    <rect x="${P}" y="${y + 8}" width="${Math.max(8, (e.share / 100) * inner)}" height="8" rx="4" fill="${e.lang.color}"/>`;
+    })
+    .join('\n    ');
+  return { width, height: CONTENT_Y + (entries.length - 1) * ROW + 16 + P, body };
+}
+
+/**
+ * "donut" and "pie": a ring (or disc) chart with the legend in a column
+ * to its right. Segments are stroked circles with dash offsets, which
+ * also covers a single language at 100% without special-casing arcs.
+ */
+function chartLayout(entries: LegendEntry[], layout: 'donut' | 'pie'): LayoutResult {
+  const R = 60;
+  // A pie is a ring whose stroke reaches the center
+  const radius = layout === 'pie' ? R / 2 : R - 10;
+  const stroke = layout === 'pie' ? R : 20;
+  const circumference = 2 * Math.PI * radius;
+  const legendH = (entries.length - 1) * LEGEND_ROW;
+  const chartH = R * 2;
+  const blockH = Math.max(chartH, legendH + 12);
+  const cx = P + R;
+  const cy = CONTENT_Y - 8 + blockH / 2;
+  const legendX = P + R * 2 + 24;
+  const legendY = cy - legendH / 2 + 4;
+
+  let offset = 0;
+  const segments = entries
+    .map((e) => {
+      const len = (e.share / 100) * circumference;
+      const svg = `<circle cx="${cx}" cy="${cy}" r="${radius}" fill="none" stroke="${e.lang.color}" stroke-width="${stroke}" stroke-dasharray="${len} ${circumference - len}" stroke-dashoffset="${-offset}" transform="rotate(-90 ${cx} ${cy})"/>`;
+      offset += len;
+      return svg;
+    })
+    .join('');
+  const legend = entries.map((e, i) => legendItem(e, legendX, legendY + i * LEGEND_ROW)).join('');
+
+  return {
+    width: Math.max(MIN_W, legendX + Math.max(...entries.map(legendWidth)) + P),
+    height: CONTENT_Y - 8 + blockH + P,
+    body: `${segments}
+    ${legend}`,
+  };
+}
+
+/**
+ * Renders a top languages card as an SVG string.
+ *
+ * @param user  - Login and display name of the card owner
+ * @param langs - Languages to show, largest first (see getCachedProfileData)
+ * @param opts  - Visual customization (theme, colors, hide_border, layout, lang_weighting)
+ * @returns       Complete SVG markup as a string
+ */
+export function renderLangsCard(
+  user: Pick<UserProfile, 'login' | 'name'>,
+  langs: LanguageStat[],
+  opts: LangsCardOptions = {}
+): string {
+  if (!user?.login) throw new Error('Invalid user data: missing login');
+
+  const c = resolveColors(opts);
+  const hideBorder = opts.hide_border ?? false;
+  const layout: LangsLayout = opts.layout ?? 'bar';
+  const entries = toLegend(langs, opts.lang_icons ?? false);
+  const metric = opts.lang_weighting
+    ? translate(undefined, LANG_WEIGHTING_LABELS[opts.lang_weighting])
+    : '';
+
+  let result: LayoutResult;
+  if (entries.length === 0) {
+    result = {
+      width: MIN_W,
+      height: CONTENT_Y + P - 4,
+      body: `<text x="${P}" y="${CONTENT_Y}" class="empty">No languages to show</text>`,
+    };
+  } else if (layout === 'donut' || layout === 'pie') {
+    result = chartLayout(entries, layout);
+  } else if (layout === 'list') {
+    result = listLayout(entries, c.text);
+  } else if (layout === 'compact') {
+    result = compactLayout(entries, c.text);
+  } else {
+    result = barLayout(entries, c.text);
+  }
+
+  const { width: W, height: H, body } = result;
+
+  return `<svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" xmlns="http://www.w3.org/2000/svg" shape-rendering="geometricPrecision" text-rendering="optimizeLegibility">
+    <title>${escapeXml(user.name || user.login)}'s Most Used Languages</title>
+    <style>
+      *{font-family:${FONT_FAMILY},sans-serif}
+      .bg{fill:#${c.bg}}
+      .title{font-size:16px;font-weight:700;fill:#${c.title}}
+      .lang{font-size:11px;fill:#${c.text}}
+      .pct{font-weight:600;text-anchor:end}
+      .empty{font-size:12px;fill:#${c.text};opacity:.6}
+      .metric{font-size:10px;fill:#${c.text};opacity:.6;text-anchor:end}
+    </style>
+    <rect class="bg" width="${W}" height="${H}" rx="10" stroke="${hideBorder ? 'none' : `#${c.border}`}" stroke-width="1"/>
+    <text x="${P}" y="${P + 16}" class="title">Most Used Languages</text>
+    ${metric && entries.length > 0 ? `<text x="${W - P}" y="${P + 16}" class="metric">${metric}</text>` : ''}
+    ${body}
+  </svg>`;
+}
@@ -0,0 +1,111 @@
+/**
+ * SVG organization card renderer.
+ * Shows an organization's avatar, name, description, public repository,
+ * star and member counts, and its top languages, in the same visual
+ * style as the profile card.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { CardOptions, OrgData } from '../types/index.js';
+import { escapeXml, icon, kFormat, resolveColors, wrapWords } from '../utils/index.js';
+import type { IconName } from '../utils/index.js';
+import { FONT_FAMILY, renderLanguageLabels, renderLanguageSegments } from './card.js';
+
+/**
+ * Renders an organization card as an SVG string.
+ *
+ * @param data - Organization profile, stats and languages from getCachedOrganization()
+ * @param opts - Visual customization (theme, colors, hide_border)
+ * @returns      Complete SVG markup as a string
+ */
+export function renderOrgCard(data: OrgData, opts: CardOptions = {}): string {
+  const { org, stats, languages: langs } = data ?? {};
+  if (!org?.login) throw new Error('Invalid organization data: missing login');
+  if (!stats) throw new Error('Invalid stats data');
+
+  const c = resolveColors(opts);
+  const hideBorder = opts.hide_border ?? false;
+  const name = escapeXml(org.name || org.login);
+  const login = escapeXml(org.login);
+  const avatarSource = org.avatarDataUrl || org.avatarUrl;
+  const avatar = avatarSource?.replace(/&/g, '&amp;') || 'data:image/svg+xml,%3Csvg%3E%3C/svg%3E';
+
+  /* --- Layout constants --- */
+  const W = 500;
+  const P = 22;
+  const avatarSize = 72;
+  const barWidth = W - P * 2;
+  const infoX = P + avatarSize + 16;
+  const CHAR_WIDTH = 6.1; // Approximate width per character at font-size 11px
+  const DESC_LINE_HEIGHT = 15;
+
+  const descLines = org.description
+    ? wrapWords(org.description, Math.floor((W - infoX - P) / CHAR_WIDTH), 2)
+    : [];
+
+  /* --- Vertical positions --- */
+  const nameY = P + 22;
+  const loginY = nameY + 18;
+  const descY = loginY + 18;
+  // The description may run below the avatar when it wraps
+  const headerBottom = Math.max(
+    P + avatarSize,
+    descLines.length > 0 ? descY + (descLines.length - 1) * DESC_LINE_HEIGHT + 4 : 0
+  );
+  const statsY = headerBottom + 14;
+  const hasLangs = langs.length > 0;
+  const barY = statsY + 40 + 12 + 18;
+  const labelY = barY + 24;
+  const H = (hasLangs ? labelY + 8 : statsY + 28) + P;
+
+  /* --- Stats row: three evenly spaced columns --- */
+  const statItems: Array<{ icon: IconName; value: number; label: string }> = [
+    { icon: 'repo', value: stats.repos, label: 'Public Repos' },
+    { icon: 'star', value: stats.stars, label: 'Stars' },
+    { icon: 'people', value: stats.members, label: 'Members' },
+  ];
+  const colWidth = barWidth / statItems.length;
+  const statsRow = statItems
+    .map(
+      (s, i) => `<g transform="translate(${i * colWidth},0)">
+        ${icon(s.icon, c.icon, 16)}<text x="20" y="12" class="stat">${kFormat(s.value)}</text>
+        <text x="0" y="28" class="stat-label">${s.label}</text>
+      </g>`
+    )
+    .join('');
+
+  return `<svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" xmlns="http://www.w3.org/2000/svg" shape-rendering="geometricPrecision" text-rendering="optimizeLegibility" image-rendering="optimizeQuality">
+    <title>${name}'s GitHub Organization</title>
+    <defs>
+      <clipPath id="a"><rect x="${P}" y="${P}" width="${avatarSize}" height="${avatarSize}" rx="12"/></clipPath>
+      ${hasLangs ? `<clipPath id="b"><rect x="${P}" y="${barY}" width="${barWidth}" height="8" rx="4"/></clipPath>` : ''}
+    </defs>
+    <style>
+      *{font-family:${FONT_FAMILY},sans-serif}
+      .bg{fill:#${c.bg}}
+      .title{font-size:18px;font-weight:700;fill:#${c.title}}
+      .user{font-size:12px;fill:#${c.text};opacity:.7}
+      .desc{font-size:11px;fill:#${c.text};opacity:.65}
+      .lang{font-size:10px;fill:#${c.text}}
+      .stat{font-size:14px;font-weight:700;fill:#${c.text}}
+      .stat-label{font-size:9px;font-weight:600;fill:#${c.text};opacity:.55;text-transform:uppercase;letter-spacing:.6px}
+      .sec{font-size:9px;font-weight:600;fill:#${c.text};opacity:.5;text-transform:uppercase;letter-spacing:.6px}
+    </style>
+    <rect class="bg" width="${W}" height="${H}" rx="10" stroke="${hideBorder ? 'none' : `#${c.border}`}" stroke-width="1"/>
+    <rect x="${P - 2}" y="${P - 2}" width="${avatarSize + 4}" height="${avatarSize + 4}" rx="14" fill="none" stroke="#${c.border}" stroke-width="1" opacity=".6"/>
+    <image href="${avatar}" x="${P}" y="${P}" width="${avatarSize}" height="${avatarSize}" clip-path="url(#a)"/>
+    <text x="${infoX}" y="${nameY}" class="title">${name}</text>
+    <text x="${infoX}" y="${loginY}" class="user">@${login}</text>
+    ${descLines.map((line, i) => `<text x="${infoX}" y="${descY + i * DESC_LINE_HEIGHT}" class="desc">${escapeXml(line)}</text>`).join('')}
+    <g transform="translate(${P},${statsY})">${statsRow}</g>
+    ${
+      hasLangs
+        ? `<text x="${P}" y="${barY - 8}" class="sec">Top Languages</text>
+    <rect x="${P}" y="${barY}" width="${barWidth}" height="8" rx="4" fill="#${c.text}" opacity=".1"/>
+    <g clip-path="url(#b)">${renderLanguageSegments(langs, P, barY, barWidth)}</g>
+    ${renderLanguageLabels(langs, P, labelY, barWidth)}`
+        : ''
+    }
+  </svg>`;
+}
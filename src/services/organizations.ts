@@ -0,0 +1,94 @@
+/**
+ * GitHub organization fetcher for the org card.
+ * Aggregates stars and top languages across an organization's public,
+ * non-fork repositories the same way the profile fetcher does for users.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { CachedResult, OrgData } from '../types/index.js';
+import { cachedFetch } from './cache/revalidate.js';
+import type { RevalidateOptions } from './cache/revalidate.js';
+import {
+  aggregateLanguages,
+  CACHE_STALE_SECONDS,
+  CACHE_TTL_SECONDS,
+  DEFAULT_LANGS_COUNT,
+  fetchAvatarDataUrl,
+  fetchRepositoryPages,
+} from './github.js';
+
+/* ---------- GraphQL Queries ---------- */
+
+/** Organization profile plus its public repositories with language data */
+const QUERY_ORGANIZATION = `
+query orgInfo($login: String!, $cursor: String) {
+  rateLimit { remaining resetAt cost }
+  organization(login: $login) {
+    login
+    name
+    description
+    avatarUrl
+    membersWithRole { totalCount }
+    publicRepos: repositories(privacy: PUBLIC) { totalCount }
+    repositories(first: 100, privacy: PUBLIC, isFork: false, orderBy: {direction: DESC, field: STARGAZERS}, after: $cursor) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        stargazers { totalCount }
+        languages(first: 10, orderBy: {field: SIZE, direction: DESC}) {
+          edges { size node { color name } }
+        }
+      }
+    }
+  }
+}`;
+
+/* ---------- Cache Layer ---------- */
+
+/** Cache policy for organizations (same freshness as profile data) */
+const ORGANIZATION_CACHE: RevalidateOptions<OrgData> = {
+  ttlSeconds: CACHE_TTL_SECONDS,
+  staleSeconds: CACHE_STALE_SECONDS,
+  validate: (value) => typeof value.stats?.members === 'number',
+};
+
+/* ---------- Fetchers ---------- */
+
+/** Fetches an organization live from the GraphQL API, paginating all repos */
+async function fetchOrganization(login: string): Promise<OrgData> {
+  const { owner: org, repos } = await fetchRepositoryPages(
+    QUERY_ORGANIZATION,
+    login,
+    {},
+    'organization'
+  );
+
+  // Fetch and embed the avatar as a base64 data URL
+  const avatarDataUrl = await fetchAvatarDataUrl(org.avatarUrl);
+
+  return {
+    org: {
+      login: org.login,
+      name: org.name,
+      description: org.description,
+      avatarUrl: org.avatarUrl,
+      avatarDataUrl,
+    },
+    stats: {
+      repos: org.publicRepos.totalCount,
+      stars: repos.reduce((sum, repo) => sum + repo.stargazers.totalCount, 0),
+      members: org.membersWithRole.totalCount,
+    },
+    languages: aggregateLanguages(repos, DEFAULT_LANGS_COUNT),
+  };
+}
+
+/**
+ * Returns an organization's profile, stats and top languages, read
+ * through the cache chain with stale-while-revalidate (see
+ * getCachedProfileData). Organizations are cached under their own
+ * "org:" keys, separate from user profiles.
+ */
+export async function getCachedOrganization(login: string): Promise<CachedResult<OrgData>> {
+  return cachedFetch(`org:${login}`, () => fetchOrganization(login), ORGANIZATION_CACHE);
+}
@@ -0,0 +1,74 @@
+/**
+ * User rank computation.
+ * Grades a user from S to C by how their stats compare with typical
+ * GitHub users. Each metric is turned into a percentile-like score with
+ * a cumulative distribution centred on that metric's median, and the
+ * scores are combined in a weighted average:
+ *
+ *   score = Σ weight · cdf(value / median) / Σ weight
+ *   percentile = 100 · (1 - score)
+ *
+ * Activity counts (commits, PRs, issues, reviews) use an exponential
+ * CDF, 1 - 2^-x, which saturates quickly; stars and followers use the
+ * log-normal-like x / (1 + x), which keeps rewarding very large counts.
+ * Either way a value equal to the median scores 0.5.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { RankLevel, UserRank, UserStats } from '../types/index.js';
+
+/** How one metric contributes to the rank */
+interface RankMetric {
+  key: 'commits' | 'prs' | 'issues' | 'reviews' | 'stars' | 'followers';
+  /** Value of a typical user, which scores 0.5 */
+  median: number;
+  weight: number;
+  cdf: (x: number) => number;
+}
+
+const exponentialCdf = (x: number) => 1 - 2 ** -x;
+const logNormalCdf = (x: number) => x / (1 + x);
+
+/**
+ * The metrics in the formula. Stars and PRs weigh the most (work others
+ * found useful); followers and reviews are fetched separately (see
+ * getCachedExtraStats) and count as 0 when missing.
+ */
+export const RANK_METRICS: readonly RankMetric[] = [
+  { key: 'commits', median: 250, weight: 2, cdf: exponentialCdf },
+  { key: 'prs', median: 50, weight: 3, cdf: exponentialCdf },
+  { key: 'issues', median: 25, weight: 1, cdf: exponentialCdf },
+  { key: 'reviews', median: 2, weight: 1, cdf: exponentialCdf },
+  { key: 'stars', median: 50, weight: 4, cdf: logNormalCdf },
+  { key: 'followers', median: 10, weight: 1, cdf: logNormalCdf },
+];
+
+/**
+ * Highest percentile (inclusive) of each level, best first; anything
+ * above the last threshold is a C
+ */
+export const RANK_THRESHOLDS: ReadonlyArray<{ level: RankLevel; percentile: number }> = [
+  { level: 'S', percentile: 1 },
+  { level: 'A+', percentile: 12.5 },
+  { level: 'A', percentile: 25 },
+  { level: 'B+', percentile: 37.5 },
+  { level: 'B', percentile: 50 },
+];
+
+/** The level for a percentile (see RANK_THRESHOLDS) */
+export function rankLevel(percentile: number): RankLevel {
+  return RANK_THRESHOLDS.find((t) => percentile <= t.percentile)?.level ?? 'C';
+}
+
+/** Computes a user's rank from their stats with the formula above */
+export function calculateRank(stats: UserStats): UserRank {
+  const totalWeight = RANK_METRICS.reduce((sum, m) => sum + m.weight, 0);
+  const score =
+    RANK_METRICS.reduce(
+      (sum, m) => sum + m.weight * m.cdf(Math.max(0, stats[m.key] ?? 0) / m.median),
+      0
+    ) / totalWeight;
+  const percentile = 100 * (1 - score);
+  return { level: rankLevel(percentile), percentile };
+}
@@ -0,0 +1,89 @@
+/**
+ * SVG rasterizer.
+ * Converts the exact SVG markup produced by renderCard() into PNG or WebP
+ * bytes for embed targets that refuse SVG (Slack unfurls, LinkedIn,
+ * email signatures, some wiki engines).
+ *
+ * Fonts are loaded only from the bundled DejaVu Sans files, plus Noto Sans
+ * SC for cards with Chinese or Japanese text; system fonts are never
+ * consulted, so the output is identical on any headless Linux box
+ * regardless of what (if anything) is installed under /usr/share/fonts.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { createRequire } from 'node:module';
+import type { RasterFormat } from '../types/index.js';
+
+/** Supported device-pixel scale factors (1x, 2x, 3x) */
+export const RASTER_SCALES = [1, 2, 3] as const;
+
+/** Options for a single rasterization */
+interface RasterOptions {
+  format: RasterFormat;
+  /** Device-pixel scale factor (default: 2 for crisp output on HiDPI screens) */
+  scale?: number;
+}
+
+/** Bundled font family every card font stack resolves to when rasterized */
+const BUNDLED_FONT_FAMILY = 'DejaVu Sans';
+
+/**
+ * Absolute paths of the bundled font files. Resolved through the module
+ * system so they work from both src/ (tsx) and dist/ (tsc output).
+ */
+const require = createRequire(import.meta.url);
+const fontFiles = [
+  require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf'),
+  require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf'),
+];
+
+/**
+ * Fallback fonts for Chinese and Japanese text, which DejaVu Sans has no
+ * glyphs for (Noto Sans SC covers kana as well as Han characters). They
+ * are large, so they are only loaded for SVGs containing CJK_PATTERN.
+ */
+const cjkFontFiles = [
+  require.resolve('@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf'),
+  require.resolve('@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf'),
+];
+
+/** CJK punctuation, kana, Han ideographs and fullwidth forms */
+const CJK_PATTERN = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+
+/**
+ * Rasterizes an SVG string to PNG or WebP.
+ * resvg renders the SVG to PNG; WebP output is re-encoded from that PNG
+ * with sharp. Both native modules are imported lazily so the plain SVG
+ * route never pays their startup cost.
+ *
+ * @param svg  - Complete SVG markup (e.g. the output of renderCard)
+ * @param opts - Target format and scale factor
+ * @returns     Encoded image bytes
+ */
+export async function rasterizeSvg(
+  svg: string,
+  opts: RasterOptions
+): Promise<Uint8Array<ArrayBuffer>> {
+  const scale = opts.scale ?? 2;
+  if (!(RASTER_SCALES as readonly number[]).includes(scale)) {
+    throw new Error(`Invalid raster scale: ${scale}`);
+  }
+
+  const { Resvg } = await import('@resvg/resvg-js');
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: 'zoom', value: scale },
+    font: {
+      loadSystemFonts: false,
+      fontFiles: CJK_PATTERN.test(svg) ? [...fontFiles, ...cjkFontFiles] : fontFiles,
+      defaultFontFamily: BUNDLED_FONT_FAMILY,
+      sansSerifFamily: BUNDLED_FONT_FAMILY,
+    },
+  });
+  const png = resvg.render().asPng();
+
+  if (opts.format === 'png') return new Uint8Array(png);
+
+  const { default: sharp } = await import('sharp');
+  return new Uint8Array(await sharp(png).webp({ quality: 90 }).toBuffer());
+}
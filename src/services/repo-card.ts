@@ -0,0 +1,128 @@
+/**
+ * SVG repository pin card renderer.
+ * Shows a single repository with its description, primary language,
+ * stars, forks, open issues, license and latest release, for embedding
+ * in a project's own README.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { CardOptions, RepoDetails } from '../types/index.js';
+import { escapeXml, icon, kFormat, MONTHS, resolveColors, wrapWords } from '../utils/index.js';
+import type { IconName } from '../utils/index.js';
+import { FONT_FAMILY } from './card.js';
+
+/** Formats an ISO timestamp as "Mar 5, 2026" (UTC) */
+function formatReleaseDate(iso: string): string {
+  const date = new Date(iso);
+  return `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}, ${date.getUTCFullYear()}`;
+}
+
+/**
+ * Renders a repository pin card as an SVG string.
+ *
+ * @param repo - Repository details from getCachedRepository()
+ * @param opts - Visual customization (theme, colors, hide_border)
+ * @returns      Complete SVG markup as a string
+ */
+export function renderRepoCard(repo: RepoDetails, opts: CardOptions = {}): string {
+  if (!repo?.name || !repo.owner) throw new Error('Invalid repository data: missing name');
+
+  const c = resolveColors(opts);
+  const hideBorder = opts.hide_border ?? false;
+  const owner = escapeXml(repo.owner);
+  const name = escapeXml(repo.name);
+
+  /* --- Layout constants --- */
+  const W = 500;
+  const P = 22;
+  const CHAR_WIDTH = 6.6; // Approximate width per character at font-size 12px
+  const META_CHAR_WIDTH = 6.1; // Approximate width per character at font-size 11px
+  const LINE_HEIGHT = 17;
+
+  const descLines = repo.description
+    ? wrapWords(repo.description, Math.floor((W - P * 2) / CHAR_WIDTH), 2)
+    : [];
+
+  const titleY = P + 16;
+  const descY = titleY + 24;
+  const metaY = descY + (descLines.length > 0 ? descLines.length * LINE_HEIGHT + 4 : 0);
+  const hasFooter = Boolean(repo.license || repo.latestRelease);
+  const footerY = metaY + 24;
+  const H = (hasFooter ? footerY : metaY) + P - 4;
+
+  /**
+   * Lays out icon + label items left to right on one line, advancing by
+   * the estimated label width.
+   */
+  function inline(items: Array<{ icon?: IconName; dot?: string; label: string }>, y: number) {
+    let x = P;
+    return items
+      .map((item) => {
+        const glyph = item.dot
+          ? `<circle cx="${x + 6}" cy="${y - 4}" r="6" fill="${item.dot}"/>`
+          : `<g transform="translate(${x},${y - 12})">${icon(item.icon!, c.icon, 14)}</g>`;
+        const svg = `${glyph}<text x="${x + 19}" y="${y}" class="meta">${escapeXml(item.label)}</text>`;
+        x += 19 + item.label.length * META_CHAR_WIDTH + 18;
+        return svg;
+      })
+      .join('');
+  }
+
+  const meta = inline(
+    [
+      ...(repo.language ? [{ dot: repo.language.color, label: repo.language.name }] : []),
+      { icon: 'star' as const, label: kFormat(repo.stars) },
+      { icon: 'fork' as const, label: kFormat(repo.forks) },
+      { icon: 'issue' as const, label: `${kFormat(repo.openIssues)} open` },
+    ],
+    metaY
+  );
+
+  const footer = hasFooter
+    ? inline(
+        [
+          ...(repo.license ? [{ icon: 'law' as const, label: repo.license }] : []),
+          ...(repo.latestRelease
+            ? [
+                {
+                  icon: 'tag' as const,
+                  label: repo.latestRelease.publishedAt
+                    ? `${repo.latestRelease.tagName} · ${formatReleaseDate(repo.latestRelease.publishedAt)}`
+                    : repo.latestRelease.tagName,
+                },
+              ]
+            : []),
+        ],
+        footerY
+      )
+    : '';
+
+  // Badge for archived repositories and forks, right-aligned on the title line
+  const badgeText = repo.isArchived ? 'Archived' : repo.isFork ? 'Fork' : '';
+  const badgeW = badgeText.length * 6 + 16;
+  const badge = badgeText
+    ? `<rect x="${W - P - badgeW}" y="${titleY - 13}" width="${badgeW}" height="18" rx="9" fill="none" stroke="#${c.border}"/>
+    <text x="${W - P - badgeW / 2}" y="${titleY}" class="badge">${badgeText}</text>`
+    : '';
+
+  return `<svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" xmlns="http://www.w3.org/2000/svg" shape-rendering="geometricPrecision" text-rendering="optimizeLegibility">
+    <title>${owner}/${name}</title>
+    <style>
+      *{font-family:${FONT_FAMILY},sans-serif}
+      .bg{fill:#${c.bg}}
+      .owner{font-size:16px;fill:#${c.title};opacity:.75}
+      .name{font-size:16px;font-weight:700;fill:#${c.title}}
+      .desc{font-size:12px;fill:#${c.text};opacity:.75}
+      .meta{font-size:11px;fill:#${c.text}}
+      .badge{font-size:10px;font-weight:600;fill:#${c.text};opacity:.7;text-anchor:middle}
+    </style>
+    <rect class="bg" width="${W}" height="${H}" rx="10" stroke="${hideBorder ? 'none' : `#${c.border}`}" stroke-width="1"/>
+    <g transform="translate(${P},${titleY - 13})">${icon('book', c.icon, 16)}</g>
+    <text x="${P + 24}" y="${titleY}"><tspan class="owner">${owner}/</tspan><tspan class="name">${name}</tspan></text>
+    ${badge}
+    ${descLines.map((line, i) => `<text x="${P}" y="${descY + i * LINE_HEIGHT}" class="desc">${escapeXml(line)}</text>`).join('')}
+    ${meta}
+    ${footer}
+  </svg>`;
+}
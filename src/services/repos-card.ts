@@ -0,0 +1,95 @@
+/**
+ * SVG top repositories card renderer.
+ * Lists repositories with their description, primary language, stars
+ * and forks, in the same visual style as the profile card.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { CardOptions, RepoSummary, UserRepositories } from '../types/index.js';
+import { escapeXml, icon, kFormat, resolveColors, truncate } from '../utils/index.js';
+import { FONT_FAMILY } from './card.js';
+
+/**
+ * Renders a top repositories card as an SVG string.
+ *
+ * @param owner - Login and display name of the repositories' owner
+ * @param repos - Repositories to list, in display order
+ * @param opts  - Visual customization (theme, colors, hide_border)
+ * @returns       Complete SVG markup as a string
+ */
+export function renderReposCard(
+  owner: Pick<UserRepositories, 'login' | 'name'>,
+  repos: RepoSummary[],
+  opts: CardOptions = {}
+): string {
+  if (!owner?.login) throw new Error('Invalid user data: missing login');
+
+  const c = resolveColors(opts);
+  const hideBorder = opts.hide_border ?? false;
+  const name = escapeXml(owner.name || owner.login);
+
+  /* --- Layout constants --- */
+  const W = 500;
+  const P = 22;
+  const ROW = 62; // Name + description + meta line
+  const ROW_NO_DESC = 46; // Name + meta line
+  const CHAR_WIDTH = 6.1; // Approximate width per character at font-size 11px
+  const headerH = 34;
+  const rowHeight = (repo: RepoSummary) => (repo.description ? ROW : ROW_NO_DESC);
+  const listH = repos.length > 0 ? repos.reduce((sum, repo) => sum + rowHeight(repo), 0) : ROW;
+  const H = P + headerH + listH + P - 12;
+  const maxDescChars = Math.floor((W - P * 2) / CHAR_WIDTH);
+
+  let y = P + headerH;
+  const rows = repos
+    .map((repo) => {
+      const top = y;
+      y += rowHeight(repo);
+      const description = repo.description
+        ? escapeXml(truncate(repo.description, maxDescChars))
+        : '';
+
+      // Meta line: language dot + name, stars, forks (laid out left to right)
+      let metaX = 0;
+      const meta: string[] = [];
+      if (repo.language) {
+        const lang = escapeXml(repo.language.name);
+        meta.push(
+          `<circle cx="5" cy="-4" r="5" fill="${repo.language.color}"/><text x="14" y="0" class="meta">${lang}</text>`
+        );
+        metaX += 14 + repo.language.name.length * CHAR_WIDTH + 16;
+      }
+      meta.push(
+        `<g transform="translate(${metaX},-11)">${icon('star', c.icon, 13)}</g><text x="${metaX + 17}" y="0" class="meta">${kFormat(repo.stars)}</text>`
+      );
+      metaX += 17 + kFormat(repo.stars).length * CHAR_WIDTH + 16;
+      meta.push(
+        `<g transform="translate(${metaX},-11)">${icon('fork', c.icon, 13)}</g><text x="${metaX + 17}" y="0" class="meta">${kFormat(repo.forks)}</text>`
+      );
+
+      return `<g transform="translate(${P},${top})">
+      <g transform="translate(0,2)">${icon('book', c.icon, 14)}</g>
+      <text x="20" y="14" class="repo">${escapeXml(repo.name)}</text>
+      ${description ? `<text x="0" y="32" class="desc">${description}</text>` : ''}
+      <g transform="translate(0,${description ? 50 : 34})">${meta.join('')}</g>
+    </g>`;
+    })
+    .join('');
+
+  return `<svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" xmlns="http://www.w3.org/2000/svg" shape-rendering="geometricPrecision" text-rendering="optimizeLegibility">
+    <title>${name}'s Top Repositories</title>
+    <style>
+      *{font-family:${FONT_FAMILY},sans-serif}
+      .bg{fill:#${c.bg}}
+      .title{font-size:16px;font-weight:700;fill:#${c.title}}
+      .repo{font-size:13px;font-weight:700;fill:#${c.title}}
+      .desc{font-size:11px;fill:#${c.text};opacity:.7}
+      .meta{font-size:11px;fill:#${c.text}}
+      .empty{font-size:12px;fill:#${c.text};opacity:.6}
+    </style>
+    <rect class="bg" width="${W}" height="${H}" rx="10" stroke="${hideBorder ? 'none' : `#${c.border}`}" stroke-width="1"/>
+    <text x="${P}" y="${P + 16}" class="title">${name}'s Top Repositories</text>
+    ${repos.length > 0 ? rows : `<text x="${P}" y="${P + headerH + 20}" class="empty">No public repositories to show</text>`}
+  </svg>`;
+}
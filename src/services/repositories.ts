@@ -0,0 +1,201 @@
+/**
+ * Repository fetchers for the top repositories and repository pin cards.
+ * Collects every owned, non-fork repository with the fields the list card
+ * shows (using the same pagination as the profile fetcher), or the full
+ * details of a single repository.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type {
+  CachedResult,
+  RepoDetails,
+  RepoSort,
+  RepoSummary,
+  UserRepositories,
+} from '../types/index.js';
+import { getLangColor } from '../utils/languages.js';
+import { cachedFetch } from './cache/revalidate.js';
+import type { RevalidateOptions } from './cache/revalidate.js';
+import { RepositoryNotFoundError } from './errors.js';
+import {
+  CACHE_STALE_SECONDS,
+  CACHE_TTL_SECONDS,
+  fetchRepositoryPages,
+  githubGraphQL,
+} from './github.js';
+
+/* ---------- GraphQL Queries ---------- */
+
+/**
+ * Repository details for the card, ordered by stars like the profile query.
+ * Public repositories only, as in the organization query.
+ */
+const QUERY_REPOSITORIES = `
+query userRepositories($login: String!, $cursor: String) {
+  rateLimit { remaining resetAt cost }
+  user(login: $login) {
+    login
+    name
+    repositories(first: 100, ownerAffiliations: OWNER, privacy: PUBLIC, isFork: false, orderBy: {direction: DESC, field: STARGAZERS}, after: $cursor) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        name
+        isPrivate
+        description
+        stargazers { totalCount }
+        forkCount
+        updatedAt
+        primaryLanguage { name color }
+      }
+    }
+  }
+}`;
+
+/** Everything the pin card shows about a single repository */
+const QUERY_REPOSITORY = `
+query repository($owner: String!, $name: String!) {
+  rateLimit { remaining resetAt cost }
+  repository(owner: $owner, name: $name) {
+    name
+    owner { login }
+    description
+    isPrivate
+    isArchived
+    isFork
+    stargazers { totalCount }
+    forkCount
+    issues(states: OPEN) { totalCount }
+    primaryLanguage { name color }
+    licenseInfo { spdxId name }
+    latestRelease { tagName publishedAt }
+  }
+}`;
+
+/* ---------- Cache Layer ---------- */
+
+/** Cache policy for repository lists (same freshness as profile data) */
+const REPOSITORIES_CACHE: RevalidateOptions<UserRepositories> = {
+  ttlSeconds: CACHE_TTL_SECONDS,
+  staleSeconds: CACHE_STALE_SECONDS,
+  validate: (value) => Array.isArray(value.repos),
+};
+
+/** Cache policy for single repositories (same freshness as profile data) */
+const REPOSITORY_CACHE: RevalidateOptions<RepoDetails> = {
+  ttlSeconds: CACHE_TTL_SECONDS,
+  staleSeconds: CACHE_STALE_SECONDS,
+  validate: (value) => typeof value.stars === 'number',
+};
+
+/* ---------- Fetchers ---------- */
+
+/** Fetches a user's owned repositories live from the GraphQL API */
+async function fetchRepositories(username: string): Promise<UserRepositories> {
+  const { owner: user, repos: nodes } = await fetchRepositoryPages(QUERY_REPOSITORIES, username);
+  // The query filters on privacy already; never let a private repository reach the card
+  const repos = nodes.filter((repo) => !repo.isPrivate);
+
+  return {
+    login: user.login,
+    name: user.name,
+    repos: repos.map(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (repo: any): RepoSummary => ({
+        name: repo.name,
+        description: repo.description,
+        // Same fallback chain as the profile languages: API color, then the local map
+        language: repo.primaryLanguage
+          ? {
+              name: repo.primaryLanguage.name,
+              color: repo.primaryLanguage.color || getLangColor(repo.primaryLanguage.name),
+            }
+          : null,
+        stars: repo.stargazers.totalCount,
+        forks: repo.forkCount,
+        updatedAt: repo.updatedAt,
+      })
+    ),
+  };
+}
+
+/**
+ * Returns a user's owned repositories, read through the cache chain
+ * with stale-while-revalidate (see getCachedProfileData).
+ */
+export async function getCachedRepositories(
+  username: string
+): Promise<CachedResult<UserRepositories>> {
+  return cachedFetch(`repos:${username}`, () => fetchRepositories(username), REPOSITORIES_CACHE);
+}
+
+/** Fetches a single repository live from the GraphQL API */
+async function fetchRepository(owner: string, name: string): Promise<RepoDetails> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const data: any = await githubGraphQL(QUERY_REPOSITORY, { owner, name });
+  const repo = data.repository;
+  // A private repository answers like a missing one, so the card cannot confirm it exists
+  if (!repo || repo.isPrivate) throw new RepositoryNotFoundError(owner, name);
+
+  const license = repo.licenseInfo;
+  return {
+    owner: repo.owner.login,
+    name: repo.name,
+    description: repo.description,
+    language: repo.primaryLanguage
+      ? {
+          name: repo.primaryLanguage.name,
+          color: repo.primaryLanguage.color || getLangColor(repo.primaryLanguage.name),
+        }
+      : null,
+    stars: repo.stargazers.totalCount,
+    forks: repo.forkCount,
+    openIssues: repo.issues.totalCount,
+    // "NOASSERTION" is GitHub's SPDX id for unrecognised licenses; show the name instead
+    license: license
+      ? license.spdxId && license.spdxId !== 'NOASSERTION'
+        ? license.spdxId
+        : license.name
+      : null,
+    latestRelease: repo.latestRelease
+      ? { tagName: repo.latestRelease.tagName, publishedAt: repo.latestRelease.publishedAt }
+      : null,
+    isArchived: repo.isArchived,
+    isFork: repo.isFork,
+  };
+}
+
+/**
+ * Returns a single repository's details, read through the cache chain
+ * with stale-while-revalidate (see getCachedProfileData).
+ */
+export async function getCachedRepository(
+  owner: string,
+  name: string
+): Promise<CachedResult<RepoDetails>> {
+  return cachedFetch(`repo:${owner}/${name}`, () => fetchRepository(owner, name), REPOSITORY_CACHE);
+}
+
+/* ---------- Selection ---------- */
+
+/** Sort comparators; ties keep the API order (stars descending) */
+const REPO_SORTS: Record<RepoSort, (a: RepoSummary, b: RepoSummary) => number> = {
+  stars: (a, b) => b.stars - a.stars,
+  forks: (a, b) => b.forks - a.forks,
+  updated: (a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt),
+};
+
+/**
+ * Picks the repositories to show: drops excluded names (case-insensitive),
+ * sorts, and keeps the first `count`.
+ */
+export function selectRepositories(
+  repos: RepoSummary[],
+  opts: { sort: RepoSort; exclude: string[]; count: number }
+): RepoSummary[] {
+  const excluded = new Set(opts.exclude.map((name) => name.toLowerCase()));
+  return repos
+    .filter((repo) => !excluded.has(repo.name.toLowerCase()))
+    .sort(REPO_SORTS[opts.sort])
+    .slice(0, opts.count);
+}
@@ -0,0 +1,140 @@
+/**
+ * Registry of the metrics the profile card's stats row can show.
+ * Adding a metric means adding its field to UserStats and an entry to
+ * STAT_DEFINITIONS; the card lays out whichever metrics are selected
+ * without knowing about any of them.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { StatKey, UserStats } from '../types/index.js';
+import { kFormat, translate } from '../utils/index.js';
+import type { IconName } from '../utils/index.js';
+
+/** One part of a metric, drawn as a segment of its breakdown bar */
+export interface StatSegment {
+  label: string;
+  value: number;
+  color: string;
+}
+
+/**
+ * How one metric is presented in the stats row. Its label is the
+ * translation with the metric's key (see translate).
+ */
+export interface StatDefinition {
+  icon: IconName;
+  /** Values for the label's placeholders (e.g. the commit year) */
+  labelVars?: (stats: UserStats, locale?: string) => Record<string, string | number>;
+  /** Formats the value (default: kFormat) */
+  format?: (value: number, locale?: string) => string;
+  /** Parts the value splits into, shown as a bar under it with `pr_breakdown` */
+  breakdown?: (stats: UserStats, locale?: string) => StatSegment[];
+  /** Fetched by a separate query, only when shown (see getCachedExtraStats) */
+  extra?: boolean;
+}
+
+/**
+ * The window the commits stat covers, for its label: the year (e.g.
+ * "2026"), "last 365 days" or "all time"
+ */
+export function commitsWindowLabel(stats: UserStats, locale?: string): string {
+  if (stats.commitsRange === 'rolling365') return translate(locale, 'last365Days');
+  if (stats.commitsRange === 'all_time') return translate(locale, 'allTime');
+  return String(stats.commitYear ?? new Date().getUTCFullYear());
+}
+
+/** GitHub's colors for open, merged and closed pull requests and issues */
+const STATE_COLORS = { open: '#3fb950', merged: '#a371f7', closed: '#f85149' };
+
+/** Every metric the stats row can show, by the key it has in UserStats */
+export const STAT_DEFINITIONS: Record<StatKey, StatDefinition> = {
+  stars: { icon: 'star' },
+  commits: {
+    icon: 'commit',
+    labelVars: (stats, locale) => ({ window: commitsWindowLabel(stats, locale) }),
+  },
+  issues: {
+    icon: 'issue',
+    // Closed issues are purple on GitHub, like merged pull requests
+    breakdown: (stats, locale) => [
+      { label: translate(locale, 'stateOpen'), value: stats.openIssues, color: STATE_COLORS.open },
+      {
+        label: translate(locale, 'stateClosed'),
+        value: stats.closedIssues,
+        color: STATE_COLORS.merged,
+      },
+    ],
+  },
+  repos: { icon: 'repo' },
+  prs: {
+    icon: 'pr',
+    breakdown: (stats, locale) => [
+      { label: translate(locale, 'stateOpen'), value: stats.openPRs, color: STATE_COLORS.open },
+      {
+        label: translate(locale, 'stateMerged'),
+        value: stats.mergedPRs,
+        color: STATE_COLORS.merged,
+      },
+      {
+        label: translate(locale, 'stateClosed'),
+        value: stats.closedPRs,
+        color: STATE_COLORS.closed,
+      },
+    ],
+  },
+  openPRs: { icon: 'pr' },
+  mergedPRs: { icon: 'merge' },
+  closedPRs: { icon: 'pr' },
+  mergeRate: {
+    icon: 'merge',
+    format: (value, locale = 'en') =>
+      new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 }).format(value),
+  },
+  openIssues: { icon: 'issue' },
+  closedIssues: { icon: 'check-circle' },
+  followers: { icon: 'people', extra: true },
+  reviews: {
+    icon: 'eye',
+    // Reviews always cover the current year, whatever window the commits use
+    labelVars: () => ({ year: new Date().getUTCFullYear() }),
+    extra: true,
+  },
+  contributedTo: { icon: 'book', extra: true },
+  discussionsStarted: { icon: 'discussion', extra: true },
+  discussionsAnswered: { icon: 'check-circle', extra: true },
+  gists: { icon: 'code', extra: true },
+  sponsors: { icon: 'heart', extra: true },
+};
+
+/** Metrics shown when the caller does not choose, in display order */
+export const DEFAULT_STATS: readonly StatKey[] = ['stars', 'commits', 'issues', 'repos', 'prs'];
+
+/** Whether a string names a metric in STAT_DEFINITIONS */
+export function isStatKey(value: string): value is StatKey {
+  return Object.hasOwn(STAT_DEFINITIONS, value);
+}
+
+/** A metric's label in the stats row (e.g. "Commits (2026)") */
+export function statLabel(stats: UserStats, key: StatKey, locale?: string): string {
+  return translate(locale, key, STAT_DEFINITIONS[key].labelVars?.(stats, locale));
+}
+
+/** A metric's value as shown in the stats row (e.g. "1.2k" or "84%") */
+export function formatStat(stats: UserStats, key: StatKey, locale?: string): string {
+  return (STAT_DEFINITIONS[key].format ?? kFormat)(stats[key] ?? 0, locale);
+}
+
+/** Whether any of the metrics needs the extra-metrics query */
+export function needsExtraStats(keys: readonly StatKey[]): boolean {
+  return keys.some((key) => STAT_DEFINITIONS[key].extra);
+}
+
+/**
+ * Resolves the metrics to show, in order: `show` (or DEFAULT_STATS when
+ * null) without duplicates, minus anything in `hide`.
+ */
+export function selectStats(show: readonly StatKey[] | null, hide: readonly StatKey[]): StatKey[] {
+  const hidden = new Set(hide);
+  return [...new Set(show ?? DEFAULT_STATS)].filter((key) => !hidden.has(key));
+}
@@ -0,0 +1,98 @@
+/**
+ * SVG streak card renderer.
+ * Shows total contributions, the current streak and the longest streak
+ * in three columns, themed with the same palette as the profile card.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { CardOptions, ContributionCalendar, Streak, StreakStats } from '../types/index.js';
+import { escapeXml, icon, kFormat, MONTHS, resolveColors } from '../utils/index.js';
+import { FONT_FAMILY } from './card.js';
+
+/**
+ * Formats a YYYY-MM-DD date as "Mar 5", adding the year when it differs
+ * from the year of `today` (e.g. "Mar 5, 2024").
+ */
+function formatDate(date: string, today: string): string {
+  const [year, month, day] = date.split('-');
+  const short = `${MONTHS[Number(month) - 1]} ${Number(day)}`;
+  return year === today.slice(0, 4) ? short : `${short}, ${year}`;
+}
+
+/** Formats a streak's date range, or an empty string for an empty streak */
+function formatStreakRange(streak: Streak, today: string): string {
+  if (!streak.start || !streak.end) return '';
+  const start = formatDate(streak.start, today);
+  if (streak.start === streak.end) return start;
+  return `${start} - ${formatDate(streak.end, today)}`;
+}
+
+/**
+ * Renders a contribution streak card as an SVG string.
+ *
+ * @param user    - Login and display name of the card owner
+ * @param streaks - Totals and streaks from computeStreaks()
+ * @param opts    - Visual customization (theme, colors, hide_border)
+ * @returns         Complete SVG markup as a string
+ */
+export function renderStreakCard(
+  user: Pick<ContributionCalendar, 'login' | 'name'>,
+  streaks: StreakStats,
+  opts: CardOptions = {}
+): string {
+  if (!user?.login) throw new Error('Invalid user data: missing login');
+
+  const c = resolveColors(opts);
+  const hideBorder = opts.hide_border ?? false;
+  const name = escapeXml(user.name || user.login);
+
+  /* --- Layout constants --- */
+  const W = 500;
+  const H = 190;
+  const COL = W / 3;
+  const RING_R = 40;
+  const RING_Y = 80;
+  const NUMBER_Y = 90;
+  const LABEL_Y = 142;
+  const RANGE_Y = 164;
+
+  const { today } = streaks;
+  const totalRange = streaks.firstContribution
+    ? `${formatDate(streaks.firstContribution, today)} - Present`
+    : '';
+
+  /** One side column: big number, label and date range */
+  const column = (cx: number, value: number, label: string, range: string) => `
+    <text x="${cx}" y="${NUMBER_Y}" class="num">${kFormat(value)}</text>
+    <text x="${cx}" y="${LABEL_Y}" class="label">${label}</text>
+    ${range ? `<text x="${cx}" y="${RANGE_Y}" class="range">${range}</text>` : ''}`;
+
+  const mid = COL * 1.5;
+  const currentRange = formatStreakRange(streaks.current, today);
+
+  return `<svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" xmlns="http://www.w3.org/2000/svg" shape-rendering="geometricPrecision" text-rendering="optimizeLegibility">
+    <title>${name}'s Contribution Streak</title>
+    <style>
+      *{font-family:${FONT_FAMILY},sans-serif}
+      .bg{fill:#${c.bg}}
+      text{text-anchor:middle}
+      .num{font-size:28px;font-weight:700;fill:#${c.text}}
+      .cur{font-size:28px;font-weight:700;fill:#${c.title}}
+      .label{font-size:13px;font-weight:600;fill:#${c.text}}
+      .cur-label{font-size:13px;font-weight:700;fill:#${c.icon}}
+      .range{font-size:11px;fill:#${c.text};opacity:.6}
+    </style>
+    <rect class="bg" width="${W}" height="${H}" rx="10" stroke="${hideBorder ? 'none' : `#${c.border}`}" stroke-width="1"/>
+    <line x1="${COL}" y1="32" x2="${COL}" y2="${H - 32}" stroke="#${c.text}" stroke-width="1" opacity=".15"/>
+    <line x1="${COL * 2}" y1="32" x2="${COL * 2}" y2="${H - 32}" stroke="#${c.text}" stroke-width="1" opacity=".15"/>
+    ${column(COL / 2, streaks.total, 'Total Contributions', totalRange)}
+    <circle cx="${mid}" cy="${RING_Y}" r="${RING_R}" fill="none" stroke="#${c.icon}" stroke-width="5"/>
+    <circle cx="${mid}" cy="${RING_Y - RING_R}" r="14" class="bg"/>
+    <g transform="translate(${mid - 10},${RING_Y - RING_R - 12})">${icon('flame', c.icon, 20)}</g>
+    <text x="${mid}" y="${NUMBER_Y}" class="cur">${kFormat(streaks.current.length)}</text>
+    <text x="${mid}" y="${LABEL_Y}" class="cur-label">Current Streak</text>
+    ${currentRange ? `<text x="${mid}" y="${RANGE_Y}" class="range">${currentRange}</text>` : ''}
+    ${column(COL * 2.5, streaks.longest.length, 'Longest Streak', formatStreakRange(streaks.longest, today))}
+  </svg>`;
+}
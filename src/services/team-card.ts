@@ -0,0 +1,93 @@
+/**
+ * SVG team card renderer.
+ * Lays out one mini profile tile per member (avatar, name, stars and
+ * commits) in a grid, with a placeholder tile for members whose profile
+ * could not be loaded.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { ProfileData, TeamCardOptions, TeamMember } from '../types/index.js';
+import { escapeXml, icon, kFormat, resolveColors, truncate } from '../utils/index.js';
+import { FONT_FAMILY } from './card.js';
+
+/** Default tiles per row (fewer when the team is smaller) */
+const DEFAULT_COLUMNS = 3;
+
+/**
+ * Renders a team grid card as an SVG string.
+ *
+ * @param members - Team members in display order (see sortTeamMembers())
+ * @param opts    - Visual customization (theme, colors, hide_border, columns)
+ * @returns         Complete SVG markup as a string
+ */
+export function renderTeamCard(members: TeamMember[], opts: TeamCardOptions = {}): string {
+  if (!members?.length) throw new Error('Invalid team data: no members');
+
+  const c = resolveColors(opts);
+  const hideBorder = opts.hide_border ?? false;
+
+  /* --- Layout constants --- */
+  const P = 22;
+  const TILE_W = 160;
+  const TILE_H = 60;
+  const GAP = 10;
+  const AVATAR = 36;
+  const NAME_X = 12 + AVATAR + 10;
+  const NAME_CHARS = Math.floor((TILE_W - NAME_X - 8) / 6.8); // ~6.8px per char at 12px bold
+  const columns = Math.min(opts.columns ?? DEFAULT_COLUMNS, members.length);
+  const rows = Math.ceil(members.length / columns);
+  const W = P * 2 + columns * TILE_W + (columns - 1) * GAP;
+  const H = P * 2 + rows * TILE_H + (rows - 1) * GAP;
+  const avatarY = (TILE_H - AVATAR) / 2;
+
+  /** A loaded member: avatar, name, stars and commits */
+  const profileTile = (profile: ProfileData, i: number) => {
+    const { user, stats } = profile;
+    const avatarSource = user.avatarDataUrl || user.avatarUrl;
+    const avatar = avatarSource?.replace(/&/g, '&amp;') || 'data:image/svg+xml,%3Csvg%3E%3C/svg%3E';
+    const starsLabel = kFormat(stats.stars);
+    const commitsX = 15 + starsLabel.length * 6.1 + 12;
+    return `<clipPath id="t${i}"><circle cx="${12 + AVATAR / 2}" cy="${avatarY + AVATAR / 2}" r="${AVATAR / 2}"/></clipPath>
+      <rect class="tile" width="${TILE_W}" height="${TILE_H}" rx="8"/>
+      <image href="${avatar}" x="12" y="${avatarY}" width="${AVATAR}" height="${AVATAR}" clip-path="url(#t${i})"/>
+      <text x="${NAME_X}" y="25" class="name">${escapeXml(truncate(user.name || user.login, NAME_CHARS))}</text>
+      <g transform="translate(${NAME_X},34)">
+        ${icon('star', c.icon, 11)}<text x="15" y="10" class="stat">${starsLabel}</text>
+        <g transform="translate(${commitsX},0)">${icon('commit', c.icon, 11)}<text x="15" y="10" class="stat">${kFormat(stats.commits)}</text></g>
+      </g>`;
+  };
+
+  /** A member that failed to load: login and a short reason */
+  const placeholderTile = (member: TeamMember) => {
+    const reason = member.error?.status === 404 ? 'User not found' : 'Unavailable';
+    return `<rect class="tile" width="${TILE_W}" height="${TILE_H}" rx="8" stroke-dasharray="4 3"/>
+      <circle cx="${12 + AVATAR / 2}" cy="${avatarY + AVATAR / 2}" r="${AVATAR / 2}" class="ph"/>
+      <text x="${NAME_X}" y="25" class="name">${escapeXml(truncate(member.login, NAME_CHARS))}</text>
+      <text x="${NAME_X}" y="43" class="reason">${reason}</text>`;
+  };
+
+  const tiles = members
+    .map((member, i) => {
+      const x = P + (i % columns) * (TILE_W + GAP);
+      const y = P + Math.floor(i / columns) * (TILE_H + GAP);
+      const body = member.profile ? profileTile(member.profile, i) : placeholderTile(member);
+      return `<g transform="translate(${x},${y})">${body}</g>`;
+    })
+    .join('');
+
+  return `<svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" xmlns="http://www.w3.org/2000/svg" shape-rendering="geometricPrecision" text-rendering="optimizeLegibility" image-rendering="optimizeQuality">
+    <title>GitHub Team</title>
+    <style>
+      *{font-family:${FONT_FAMILY},sans-serif}
+      .bg{fill:#${c.bg}}
+      .tile{fill:none;stroke:#${c.border};stroke-width:1}
+      .ph{fill:#${c.text};opacity:.12}
+      .name{font-size:12px;font-weight:700;fill:#${c.title}}
+      .stat{font-size:10px;font-weight:600;fill:#${c.text}}
+      .reason{font-size:10px;fill:#${c.text};opacity:.6}
+    </style>
+    <rect class="bg" width="${W}" height="${H}" rx="10" stroke="${hideBorder ? 'none' : `#${c.border}`}" stroke-width="1"/>
+    ${tiles}
+  </svg>`;
+}
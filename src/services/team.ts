@@ -0,0 +1,81 @@
+/**
+ * Multi-user fetcher for the team grid and comparison cards.
+ * Loads several profiles concurrently through the profile cache, with a
+ * small concurrency limit that also stays within the instance's
+ * in-flight budget, and keeps going when individual users fail.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { CachedResult, ProfileData, TeamMember, TeamSort } from '../types/index.js';
+import { mapSettledWithLimit } from '../utils/index.js';
+import { inFlightCapacity } from './cache/revalidate.js';
+import { toHttpError } from './errors.js';
+import { getCachedProfileData } from './github.js';
+
+/** Maximum number of profiles fetched at the same time for one team */
+const TEAM_CONCURRENCY = 4;
+
+/**
+ * Fetches the profile of every user (without languages unless
+ * `includeLanguages` is set), at most
+ * TEAM_CONCURRENCY at a time and never more than the remaining
+ * MAX_IN_FLIGHT_REQUESTS budget. A user that fails is returned with its
+ * error instead of a profile, so the card can show a placeholder.
+ *
+ * The cache status is the "worst" across members: MISS if any profile
+ * was loaded live, else STALE if any was stale, else HIT; the age is
+ * that of the oldest cached profile.
+ */
+export async function getTeamProfiles(
+  usernames: string[],
+  opts: { includeLanguages?: boolean } = {}
+): Promise<CachedResult<TeamMember[]>> {
+  const includeLanguages = opts.includeLanguages ?? false;
+  const limit = Math.min(TEAM_CONCURRENCY, inFlightCapacity());
+  const results = await mapSettledWithLimit(usernames, limit, (login) =>
+    getCachedProfileData(login, { includeLanguages })
+  );
+
+  const members: TeamMember[] = results.map((result, i) =>
+    result.status === 'fulfilled'
+      ? { login: usernames[i]!, profile: result.value.value, error: null }
+      : { login: usernames[i]!, profile: null, error: toHttpError(result.reason) }
+  );
+
+  const loaded = results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+  const status = loaded.some((r) => r.status === 'MISS')
+    ? 'MISS'
+    : loaded.some((r) => r.status === 'STALE')
+      ? 'STALE'
+      : 'HIT';
+  const age = Math.max(0, ...loaded.map((r) => r.age));
+
+  return { value: members, status, age };
+}
+
+/* ---------- Sorting ---------- */
+
+/** Comparators between loaded profiles; ties keep the input order */
+const TEAM_SORTS: Record<Exclude<TeamSort, 'input'>, (a: ProfileData, b: ProfileData) => number> = {
+  stars: (a, b) => b.stats.stars - a.stats.stars,
+  commits: (a, b) => b.stats.commits - a.stats.commits,
+  name: (a, b) =>
+    (a.user.name || a.user.login).localeCompare(b.user.name || b.user.login, 'en', {
+      sensitivity: 'base',
+    }),
+};
+
+/**
+ * Orders team members for display without modifying the input.
+ * Members that failed to load always go last, in input order.
+ */
+export function sortTeamMembers(members: TeamMember[], sort: TeamSort): TeamMember[] {
+  const loaded = members.filter((m) => m.profile);
+  const failed = members.filter((m) => !m.profile);
+  if (sort !== 'input') {
+    const compare = TEAM_SORTS[sort];
+    loaded.sort((a, b) => compare(a.profile!, b.profile!));
+  }
+  return [...loaded, ...failed];
+}
@@ -0,0 +1,173 @@
+/**
+ * GitHub token pool with rate-limit-aware rotation.
+ * Tokens come from GITHUB_TOKENS (comma-separated) or, for single-token
+ * setups, GITHUB_TOKEN. Each GraphQL response reports the token's
+ * remaining budget via `rateLimit { remaining resetAt cost }`; the pool
+ * always hands out the token with the most budget left and parks tokens
+ * that are exhausted (until their reset) or rejected by GitHub.
+ *
+ * State is per instance (like the in-memory cache), which is fine: the
+ * budget numbers are refreshed from GitHub on every query.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import { createHash } from 'node:crypto';
+import type { TokenPoolHealth, TokenStatus } from '../types/index.js';
+import { AuthFailedError, RateLimitedError } from './errors.js';
+
+/** GraphQL points per hour GitHub grants a token (assumed until first report) */
+const DEFAULT_BUDGET = 5000;
+
+/** How long a token GitHub rejected (401/403) is kept out of rotation */
+const INVALID_TOKEN_COOLDOWN_MS = 10 * 60 * 1000;
+
+/** Fallback exhaustion window when GitHub does not report a reset time */
+const DEFAULT_EXHAUSTION_MS = 60 * 1000;
+
+/** Rotation state tracked for a single token */
+interface PooledToken {
+  /** Non-reversible fingerprint shown to operators instead of the token */
+  id: string;
+  token: string;
+  /** Budget left in the current window (null until GitHub reports it) */
+  remaining: number | null;
+  /** When the current rate limit window resets (epoch ms) */
+  resetAt: number | null;
+  /** Token is skipped until this time (epoch ms) because its budget is spent */
+  exhaustedUntil: number;
+  /** Token is skipped until this time (epoch ms) because GitHub rejected it */
+  invalidUntil: number;
+}
+
+/** Lazily built pool (env is read on first use so tests can set it first) */
+let pool: PooledToken[] | null = null;
+
+/** Short SHA-256 fingerprint used to identify a token in status output */
+function fingerprint(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 8);
+}
+
+/** Parses GITHUB_TOKENS / GITHUB_TOKEN into a de-duplicated token list */
+function readTokens(): string[] {
+  const raw = process.env['GITHUB_TOKENS'] || process.env['GITHUB_TOKEN'] || '';
+  return [
+    ...new Set(
+      raw
+        .split(',')
+        .map((t) => t.trim())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+/** Returns the pool, building it from the environment on first use */
+function getPool(): PooledToken[] {
+  if (!pool) {
+    pool = readTokens().map((token) => ({
+      id: fingerprint(token),
+      token,
+      remaining: null,
+      resetAt: null,
+      exhaustedUntil: 0,
+      invalidUntil: 0,
+    }));
+  }
+  return pool;
+}
+
+/** Finds the pool entry for a token handed out by acquireToken() */
+function findToken(token: string): PooledToken | undefined {
+  return getPool().find((t) => t.token === token);
+}
+
+/** Number of tokens configured (upper bound for failover attempts) */
+export function tokenPoolSize(): number {
+  return getPool().length;
+}
+
+/**
+ * Picks the usable token with the most remaining budget.
+ *
+ * @throws AuthFailedError  when no token is configured or all were rejected
+ * @throws RateLimitedError when every usable token is exhausted (carries
+ *                          the earliest reset time for Retry-After)
+ */
+export function acquireToken(now = Date.now()): string {
+  const tokens = getPool();
+  if (tokens.length === 0) {
+    throw new AuthFailedError(
+      'GITHUB_TOKEN is missing. Set GITHUB_TOKEN (or GITHUB_TOKENS) in your .env file.'
+    );
+  }
+
+  const valid = tokens.filter((t) => t.invalidUntil <= now);
+  if (valid.length === 0) {
+    throw new AuthFailedError('All configured GitHub tokens were rejected (401/403)');
+  }
+
+  const usable = valid.filter((t) => t.exhaustedUntil <= now);
+  if (usable.length === 0) {
+    const earliest = Math.min(...valid.map((t) => t.exhaustedUntil));
+    throw new RateLimitedError(new Date(earliest));
+  }
+
+  const budget = (t: PooledToken) =>
+    t.remaining === null || (t.resetAt !== null && t.resetAt <= now) ? DEFAULT_BUDGET : t.remaining;
+  return usable.reduce((best, t) => (budget(t) > budget(best) ? t : best)).token;
+}
+
+/**
+ * Records the `rateLimit` block of a GraphQL response for a token.
+ * A token whose budget cannot cover another query of the same cost is
+ * parked until its window resets.
+ */
+export function reportRateLimit(
+  token: string,
+  rateLimit: { remaining: number; resetAt: string; cost?: number }
+): void {
+  const entry = findToken(token);
+  if (!entry) return;
+
+  const resetAt = Date.parse(rateLimit.resetAt);
+  entry.remaining = rateLimit.remaining;
+  entry.resetAt = Number.isNaN(resetAt) ? null : resetAt;
+
+  if (entry.resetAt !== null && rateLimit.remaining < Math.max(1, rateLimit.cost ?? 1)) {
+    entry.exhaustedUntil = entry.resetAt;
+  }
+}
+
+/** Parks a token until its rate limit resets (after a rate-limited response) */
+export function markExhausted(token: string, resetAt: Date | null, now = Date.now()): void {
+  const entry = findToken(token);
+  if (!entry) return;
+  entry.remaining = 0;
+  entry.exhaustedUntil = resetAt ? resetAt.getTime() : now + DEFAULT_EXHAUSTION_MS;
+  entry.resetAt = entry.exhaustedUntil;
+}
+
+/** Takes a token GitHub rejected (401/403) out of rotation for a cooldown period */
+export function markInvalid(token: string, now = Date.now()): void {
+  const entry = findToken(token);
+  if (!entry) return;
+  entry.invalidUntil = now + INVALID_TOKEN_COOLDOWN_MS;
+}
+
+/**
+ * Snapshot of every token's state for operators (exposed on /health/tokens).
+ * Tokens are identified by fingerprint only; the secret never leaves here.
+ */
+export function getTokenPoolStatus(now = Date.now()): TokenStatus[] {
+  return getPool().map((t) => ({
+    id: t.id,
+    state: t.invalidUntil > now ? 'invalid' : t.exhaustedUntil > now ? 'exhausted' : 'available',
+    remaining: t.remaining,
+    resetAt: t.resetAt !== null ? new Date(t.resetAt).toISOString() : null,
+  }));
+}
+
+/** Pool state safe to show anyone (exposed on /health): no per-token detail */
+export function getTokenPoolHealth(now = Date.now()): TokenPoolHealth {
+  return getTokenPoolStatus(now).some((t) => t.state === 'available') ? 'healthy' : 'exhausted';
+}
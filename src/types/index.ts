@@ -18,13 +18,49 @@ export interface UserProfile {
   twitter: string | null;
 }
 
+/**
+ * Metrics fetched by a separate query, only when a card shows one of
+ * them (see getCachedExtraStats), so the default profile query stays cheap
+ */
+export interface ExtraStats {
+  followers: number;
+  /** Pull request reviews in the current calendar year, like `commits` */
+  reviews: number;
+  /** Other users' repositories contributed to (commits, issues, PRs) */
+  contributedTo: number;
+  discussionsStarted: number;
+  /** Discussion comments marked as the answer */
+  discussionsAnswered: number;
+  /** Public gists */
+  gists: number;
+  sponsors: number;
+}
+
 /** Aggregated stats from the user's GitHub activity */
-export interface UserStats {
+export interface UserStats extends Partial<ExtraStats> {
   stars: number;
   repos: number;
+  /** All pull requests: openPRs + closedPRs + mergedPRs */
   prs: number;
+  /** All issues: openIssues + closedIssues */
   issues: number;
+  openPRs: number;
+  /** Pull requests closed without being merged */
+  closedPRs: number;
+  mergedPRs: number;
+  openIssues: number;
+  closedIssues: number;
+  /**
+   * Share (0-1) of the user's resolved pull requests that were merged:
+   * mergedPRs / (mergedPRs + closedPRs), or 0 when none are resolved
+   */
+  mergeRate: number;
   commits: number;
+  /**
+   * Set when the commit count is not for a single calendar year: the last
+   * 365 days or every year (see CommitsRange)
+   */
+  commitsRange?: Exclude<CommitsRange, 'year' | number>;
   /**
    * [Fix] Issue #3 Bug 6 - The year the commit count belongs to.
    * The GitHub contributionsCollection query is scoped to a single
@@ -34,6 +70,32 @@ export interface UserStats {
   commitYear: number;
 }
 
+/**
+ * A metric the profile card's stats row can show: every numeric field of
+ * UserStats, each described by an entry in STAT_DEFINITIONS
+ */
+export type StatKey = Exclude<keyof UserStats, 'commitYear' | 'commitsRange'>;
+
+/**
+ * Time window the commits stat covers: the current calendar year
+ * (default), the last 365 days, every year with contributions, or one
+ * given calendar year
+ */
+export type CommitsRange = 'year' | 'rolling365' | 'all_time' | number;
+
+/** Grades of the user rank, best first */
+export type RankLevel = 'S' | 'A+' | 'A' | 'B+' | 'B' | 'C';
+
+/** A user's rank, computed from their stats (see calculateRank) */
+export interface UserRank {
+  level: RankLevel;
+  /**
+   * Estimated share of GitHub users ranking higher, 0-100 (lower is
+   * better); the level is derived from it
+   */
+  percentile: number;
+}
+
 /** A single programming language entry with usage size and color */
 export interface LanguageStat {
   name: string;
@@ -41,6 +103,45 @@ export interface LanguageStat {
   size: number;
   /** Hex color string (e.g. "#3178c6") */
   color: string;
+  /** Number of repositories using this language */
+  repoCount?: number;
+  /**
+   * Ranking score under the requested weighting (see LanguageWeighting);
+   * shares are computed from it, or from `size` when it is absent
+   */
+  weight?: number;
+}
+
+/** Metric languages are ranked by: bytes, repositories, or a blend of both */
+export type LangWeighting = 'size' | 'repo_count' | 'blend';
+
+/**
+ * How languages are ranked: each scores size^sizeExponent *
+ * repoCount^countExponent, so "size" is (1, 0) and "repo_count" is (0, 1)
+ */
+export interface LanguageWeighting {
+  method: LangWeighting;
+  sizeExponent: number;
+  countExponent: number;
+}
+
+/**
+ * Language filtering applied while aggregating a user's languages.
+ * Language and repository names are matched case-insensitively.
+ */
+export interface LanguageFilter {
+  /** Languages left out of the breakdown (by their own or their alias name) */
+  hide?: string[];
+  /** Repositories whose languages are not counted */
+  excludeRepos?: string[];
+  /** Groups of languages counted as one; a language listed in several groups joins the first */
+  aliases?: LanguageAlias[];
+}
+
+/** Languages (`sources`) counted together under one display `name` */
+export interface LanguageAlias {
+  name: string;
+  sources: string[];
 }
 
 /** Combined profile data returned by the GitHub fetcher */
@@ -68,4 +169,229 @@ export interface CardOptions {
    * fetching but the card always rendered every section regardless.
    */
   fields?: Set<string> | null;
+  /** Metric the language shares were weighted by, shown next to the languages heading */
+  lang_weighting?: LangWeighting;
+  /** Draw bundled language logos instead of colored dots in language labels */
+  lang_icons?: boolean;
+  /** Metrics in the stats row, in display order (default: DEFAULT_STATS) */
+  stats?: readonly StatKey[];
+  /** Split PRs and Issues into open/merged/closed bars under their values */
+  pr_breakdown?: boolean;
+  /** Show the user's rank as a ring beside the name (see calculateRank) */
+  show_rank?: boolean;
+  /**
+   * Locale of the labels and numbers (a tag from SUPPORTED_LOCALES);
+   * English labels and "1.2k"-style numbers when absent
+   */
+  locale?: string;
+  /**
+   * Mirror the layout for right-to-left scripts: avatar on the right,
+   * text and stats flowing leftwards. Defaults to on for RTL locales
+   * (see isRtlLocale)
+   */
+  rtl?: boolean;
+}
+
+/** Raster image formats the card can be converted to */
+export type RasterFormat = 'png' | 'webp';
+
+/** Every output format served by the card route */
+export type CardFormat = 'svg' | RasterFormat;
+
+/** How a failed request is reported over HTTP (see toHttpError) */
+export interface HttpErrorInfo {
+  status: 400 | 404 | 429 | 500 | 503 | 504;
+  /** Short human-readable message safe to show to end users */
+  message: string;
+  /** Extra response headers such as Retry-After */
+  headers: Record<string, string>;
+}
+
+/** Public aggregate of the token pool: healthy while any token can serve a query */
+export type TokenPoolHealth = 'healthy' | 'exhausted';
+
+/** Operator-facing state of one pooled GitHub token (see getTokenPoolStatus) */
+export interface TokenStatus {
+  /** Short SHA-256 fingerprint of the token (never the token itself) */
+  id: string;
+  state: 'available' | 'exhausted' | 'invalid';
+  /** GraphQL budget left in the current window, if GitHub has reported it */
+  remaining: number | null;
+  /** ISO timestamp when the budget resets, if known */
+  resetAt: string | null;
+}
+
+/**
+ * A key/value cache backend (memory, Upstash Redis, filesystem, SQLite).
+ * Values must be JSON-serializable. Implementations swallow nothing:
+ * errors propagate so the cache chain can log and skip a failing store.
+ */
+export interface CacheStore {
+  /** Short identifier used in logs and configuration (e.g. "redis") */
+  readonly name: string;
+  /** Returns the stored value, or null when missing or expired */
+  get<T>(key: string): Promise<T | null>;
+  /** Stores a value that expires after ttlSeconds */
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Remaining time-to-live in seconds, or null when missing or expired */
+  ttl(key: string): Promise<number | null>;
+}
+
+/**
+ * How a cached value was served: fresh from cache, stale from cache
+ * while a background refresh runs, or freshly fetched.
+ */
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+/** A value read through the cache, with how it was served */
+export interface CachedResult<T> {
+  value: T;
+  status: CacheStatus;
+  /** Seconds since the value was fetched from GitHub */
+  age: number;
+}
+
+/** One day of a user's contribution calendar */
+export interface ContributionDay {
+  /** Calendar date as YYYY-MM-DD */
+  date: string;
+  count: number;
+}
+
+/** A user's contribution calendar across every year they contributed */
+export interface ContributionCalendar {
+  login: string;
+  name: string | null;
+  /** Every calendar day in ascending date order */
+  days: ContributionDay[];
+}
+
+/** A run of consecutive days with at least one contribution */
+export interface Streak {
+  length: number;
+  /** First day of the run (YYYY-MM-DD), null for an empty streak */
+  start: string | null;
+  /** Last day of the run (YYYY-MM-DD), null for an empty streak */
+  end: string | null;
+}
+
+/** Contribution totals and streaks shown on the streak card */
+export interface StreakStats {
+  total: number;
+  /** Date of the first contribution (YYYY-MM-DD), null if none */
+  firstContribution: string | null;
+  current: Streak;
+  longest: Streak;
+  /** "Today" in the requested time zone (YYYY-MM-DD) */
+  today: string;
+}
+
+/** Shape of each day cell on the heatmap card */
+export type HeatmapCellShape = 'square' | 'rounded' | 'circle';
+
+/** First day of each heatmap column */
+export type WeekStart = 'sun' | 'mon';
+
+/** Options for customizing the contribution heatmap card */
+export interface HeatmapOptions extends CardOptions {
+  /** Calendar year to show; when unset, the last `months` months are shown */
+  year?: number;
+  /** Number of months ending today (1-12, default 12), ignored when `year` is set */
+  months?: number;
+  week_start?: WeekStart;
+  cell?: HeatmapCellShape;
+}
+
+/** A repository entry on the top repositories card */
+export interface RepoSummary {
+  name: string;
+  description: string | null;
+  /** Primary language, or null when GitHub detected none */
+  language: { name: string; color: string } | null;
+  stars: number;
+  forks: number;
+  /** ISO timestamp of the last update */
+  updatedAt: string;
+}
+
+/** A user's owned, non-fork repositories */
+export interface UserRepositories {
+  login: string;
+  name: string | null;
+  repos: RepoSummary[];
+}
+
+/** Sort orders for the top repositories card */
+export type RepoSort = 'stars' | 'updated' | 'forks';
+
+/** A single repository shown on the repository pin card */
+export interface RepoDetails {
+  owner: string;
+  name: string;
+  description: string | null;
+  language: { name: string; color: string } | null;
+  stars: number;
+  forks: number;
+  openIssues: number;
+  /** SPDX identifier (e.g. "MIT") or license name, null when unlicensed */
+  license: string | null;
+  latestRelease: { tagName: string; publishedAt: string | null } | null;
+  isArchived: boolean;
+  isFork: boolean;
+}
+
+/** GitHub organization information displayed on the org card */
+export interface OrgProfile {
+  login: string;
+  name: string | null;
+  description: string | null;
+  avatarUrl: string;
+  /** Base64-encoded data URL of the avatar for SVG embedding */
+  avatarDataUrl?: string | null;
+}
+
+/** Aggregated stats across an organization's public repositories */
+export interface OrgStats {
+  /** Public repositories, forks included */
+  repos: number;
+  /** Stars across the organization's public, non-fork repositories */
+  stars: number;
+  /** Members visible to the API token (public members for outside tokens) */
+  members: number;
+}
+
+/** Combined organization data returned by the organization fetcher */
+export interface OrgData {
+  org: OrgProfile;
+  stats: OrgStats;
+  languages: LanguageStat[];
+}
+
+/**
+ * One user on a multi-user card (a team tile or a comparison column):
+ * a loaded profile, or the error that replaced it
+ */
+export interface TeamMember {
+  login: string;
+  profile: ProfileData | null;
+  /** Why the profile could not be loaded (null on success) */
+  error: HttpErrorInfo | null;
+}
+
+/** Tile orders for the team card ("input" keeps the order of `users`) */
+export type TeamSort = 'input' | 'stars' | 'commits' | 'name';
+
+/** Options for the team card: CardOptions plus the grid width */
+export interface TeamCardOptions extends CardOptions {
+  /** Tiles per row */
+  columns?: number;
+}
+
+/** Layouts of the standalone top languages card */
+export type LangsLayout = 'bar' | 'donut' | 'pie' | 'list' | 'compact';
+
+/** Options for the top languages card: CardOptions plus the layout */
+export interface LangsCardOptions extends CardOptions {
+  layout?: LangsLayout;
 }
@@ -0,0 +1,36 @@
+/**
+ * Bounded concurrency for fan-out requests (e.g. one profile per team
+ * member), so a long list never starts every fetch at once.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+/**
+ * Calls `fn` for every item with at most `limit` calls running at once.
+ * Never rejects: each item's outcome is reported as a settled result,
+ * in the same order as `items`.
+ */
+export async function mapSettledWithLimit<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  // Each worker takes the next unclaimed item until none are left
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index]!, index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  }
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
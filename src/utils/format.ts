@@ -7,8 +7,17 @@
 /**
  * Formats a number into a compact human-readable string.
  * Examples: 999 -> "999", 1500 -> "1.5k", 1000000 -> "1M"
+ *
+ * With a locale, the locale's own compact notation is used instead
+ * (e.g. "1,2 Mio." in German, "1.2万" in Japanese).
  */
-export function kFormat(num: number): string {
+export function kFormat(num: number, locale?: string): string {
+  if (locale) {
+    return new Intl.NumberFormat(locale, {
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(num);
+  }
   if (num >= 1_000_000) {
     return (num / 1_000_000).toFixed(1).replace(/\.0$/, '') + 'M';
   }
@@ -31,6 +40,37 @@ export function escapeXml(str: string): string {
     .replace(/'/g, '&#39;');
 }
 
-// NOTE: wrapText was removed because the SVG card uses single-line bio
-// truncation (see card.ts) rather than multi-line wrapping. Keeping only
-// the utilities that are actually consumed by production code.
+/** Truncates text to `max` characters with an ellipsis (escape the result afterwards) */
+export function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 1).trimEnd() + '…' : text;
+}
+
+/**
+ * Greedy word wrap for multi-line SVG text (error messages, repository
+ * descriptions). Words longer than a line are cut, and text beyond
+ * `maxLines` is dropped with an ellipsis on the last line.
+ *
+ * @param text     - Plain text to wrap (escape each line afterwards)
+ * @param maxChars - Maximum characters per line
+ * @param maxLines - Maximum number of lines
+ */
+export function wrapWords(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxChars) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word.length > maxChars ? word.slice(0, maxChars - 1) + '\u2026' : word);
+    }
+  }
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = lines[maxLines - 1]!.slice(0, maxChars - 1) + '\u2026';
+  }
+  return lines;
+}
+
+// NOTE: wrapText was removed because the profile card uses single-line
+// bio truncation (see card.ts). wrapWords above serves the cards that do
+// need multi-line text.
@@ -5,8 +5,17 @@
  * @author Nayan Das <https://github.com/nayandas69>
  */
 
-export { resolveColors, type Theme } from './themes.js';
-// Only kFormat and escapeXml are used in production code; wrapText was removed.
-export { kFormat, escapeXml } from './format.js';
-export { getLangColor } from './languages.js';
+export { contributionRamp, mixColors, resolveColors, type Theme } from './themes.js';
+export { kFormat, escapeXml, truncate, wrapWords } from './format.js';
+export { getLangColor, overrideLangColors } from './languages.js';
+export {
+  isRtlLocale,
+  resolveLocale,
+  SUPPORTED_LOCALES,
+  translate,
+  type TranslationKey,
+} from './locales.js';
+export { languageIcon } from './language-icons.js';
 export { icons, icon, type IconName } from './icons.js';
+export { mapSettledWithLimit } from './concurrency.js';
+export { addDays, computeStreaks, isValidTimeZone, MONTHS, todayInTimeZone } from './streaks.js';
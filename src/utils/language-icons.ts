@@ -0,0 +1,65 @@
+/**
+ * Small bundled language logos for the `lang_icons` label mode.
+ * Each logo is drawn on a 16x16 viewBox from basic shapes (the badge,
+ * shield or hexagon the language's own logo is built on, plus a short
+ * mark), so no external images are fetched. Languages without a logo
+ * keep the colored dot.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+/** Background shapes the badge-style logos are drawn on */
+const SHAPES = {
+  square: (fill: string) => `<rect width="16" height="16" rx="2" fill="${fill}"/>`,
+  circle: (fill: string) => `<circle cx="8" cy="8" r="8" fill="${fill}"/>`,
+  shield: (fill: string) => `<path d="M1 0h14l-1.3 14.4L8 16l-5.7-1.6z" fill="${fill}"/>`,
+  hexagon: (fill: string) => `<path d="M8 0l7 4v8l-7 4-7-4V4z" fill="${fill}"/>`,
+};
+
+/** A shape with a short centered mark (already XML-escaped) */
+function badge(shape: keyof typeof SHAPES, fill: string, mark: string, color = '#fff'): string {
+  const fontSize = mark.length > 2 ? 5.5 : 7.5;
+  return `${SHAPES[shape](fill)}<text x="8" y="${8 + fontSize * 0.36}" font-size="${fontSize}" font-weight="700" text-anchor="middle" fill="${color}">${mark}</text>`;
+}
+
+/** A square with the mark in its bottom-right corner, as in the TypeScript and JavaScript logos */
+function cornerBadge(fill: string, mark: string, color: string): string {
+  return `${SHAPES.square(fill)}<text x="15" y="14.5" font-size="7.5" font-weight="700" text-anchor="end" fill="${color}">${mark}</text>`;
+}
+
+/** Logo markup by GitHub language name */
+const languageIcons: Record<string, string> = {
+  TypeScript: cornerBadge('#3178c6', 'TS', '#fff'),
+  JavaScript: cornerBadge('#f7df1e', 'JS', '#000'),
+  Python: `<path d="M8 0a8 8 0 00-5.66 13.66L13.66 2.34A7.97 7.97 0 008 0z" fill="#3776ab"/><path d="M13.66 2.34L2.34 13.66A8 8 0 0013.66 2.34z" fill="#ffd43b"/>`,
+  HTML: badge('shield', '#e34f26', '5'),
+  CSS: badge('shield', '#1572b6', '3'),
+  C: badge('hexagon', '#555555', 'C'),
+  'C++': badge('hexagon', '#00599c', 'C++'),
+  'C#': badge('hexagon', '#68217a', 'C#'),
+  Go: badge('circle', '#00add8', 'GO'),
+  Rust: badge('circle', '#000000', 'R'),
+  Java: badge('circle', '#e76f00', 'J'),
+  Kotlin: `<path d="M0 0h16L8 8l8 8H0z" fill="#7f52ff"/>`,
+  Swift: badge('square', '#f05138', 'S'),
+  Ruby: `<path d="M4 1h8l4 5-8 10L0 6z" fill="#cc342d"/>`,
+  PHP: badge('circle', '#777bb4', 'php'),
+  Shell: badge('square', '#2b2b2b', '&gt;_', '#89e051'),
+  Dart: badge('hexagon', '#0175c2', 'D'),
+  Lua: badge('circle', '#000080', 'Lua'),
+  Vue: `<path d="M0 1.5h3.2L8 9.8l4.8-8.3H16L8 15.3z" fill="#41b883"/><path d="M3.2 1.5h3L8 4.6l1.8-3.1h3L8 9.8z" fill="#35495e"/>`,
+  'Jupyter Notebook': `<circle cx="8" cy="8" r="8" fill="#f37626"/><path d="M3 6.2a6 3 0 0110 0 6 2.2 0 00-10 0zm0 3.6a6 3 0 0010 0 6 2.2 0 01-10 0z" fill="#fff"/>`,
+};
+
+/**
+ * Renders the bundled logo of a language as an inline SVG of the given
+ * size, or returns null when no logo is bundled for it.
+ *
+ * @param name - Language name (case-sensitive, matches GitHub's naming)
+ * @param size - Icon dimensions in pixels
+ */
+export function languageIcon(name: string, size: number): string | null {
+  const logo = languageIcons[name];
+  if (!logo) return null;
+  return `<svg width="${size}" height="${size}" viewBox="0 0 16 16" role="img">${logo}</svg>`;
+}
@@ -8,6 +8,8 @@
  * @author Nayan Das <https://github.com/nayandas69>
  */
 
+import type { LanguageStat } from '../types/index.js';
+
 /** Complete map of language names to hex color codes */
 const languageColors: Record<string, string> = {
   '1C Enterprise': '#814CCC',
@@ -603,3 +605,22 @@ const languageColors: Record<string, string> = {
 export function getLangColor(name: string): string {
   return languageColors[name] ?? '#ccc';
 }
+
+/**
+ * Applies user color overrides to a language list. Overrides are keyed by
+ * lowercase language name with "#rrggbb" values; languages without one
+ * keep their resolved color (GitHub's, else getLangColor()).
+ *
+ * @param langs     - Languages as aggregated by the GitHub service
+ * @param overrides - Colors by lowercase language name
+ * @returns           A new list; the input is not modified
+ */
+export function overrideLangColors(
+  langs: LanguageStat[],
+  overrides: Record<string, string>
+): LanguageStat[] {
+  return langs.map((lang) => {
+    const color = overrides[lang.name.toLowerCase()];
+    return color ? { ...lang, color } : lang;
+  });
+}
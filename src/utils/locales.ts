@@ -0,0 +1,272 @@
+/**
+ * Translations for the profile card's labels.
+ * English is complete; every other locale may leave keys out, which
+ * then fall back to the language's base locale and finally to English.
+ * Values may contain `{placeholders}` filled in by translate().
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+/** English labels, which define every translatable key */
+const en = {
+  title: "{name}'s GitHub Stats",
+  topLanguages: 'Top Languages',
+  shareOfBytes: '% of bytes',
+  shareOfRepos: '% of repos',
+  blended: 'blended',
+  stars: 'Stars',
+  commits: 'Commits ({window})',
+  issues: 'Issues',
+  repos: 'Repos',
+  prs: 'PRs',
+  openPRs: 'Open PRs',
+  mergedPRs: 'Merged PRs',
+  closedPRs: 'Closed PRs',
+  mergeRate: 'Merge rate',
+  openIssues: 'Open issues',
+  closedIssues: 'Closed issues',
+  followers: 'Followers',
+  reviews: 'Reviews ({year})',
+  contributedTo: 'Contributed to',
+  discussionsStarted: 'Discussions',
+  discussionsAnswered: 'Answers',
+  gists: 'Gists',
+  sponsors: 'Sponsors',
+  last365Days: 'last 365 days',
+  allTime: 'all time',
+  stateOpen: 'Open',
+  stateMerged: 'Merged',
+  stateClosed: 'Closed',
+};
+
+/** A label that can be translated */
+export type TranslationKey = keyof typeof en;
+
+/** Translations by locale tag; keys left out fall back (see translate) */
+const translations: Record<string, Partial<Record<TranslationKey, string>>> = {
+  en,
+  de: {
+    title: 'GitHub-Statistiken von {name}',
+    topLanguages: 'Top-Sprachen',
+    shareOfBytes: '% der Bytes',
+    shareOfRepos: '% der Repos',
+    blended: 'gewichtet',
+    stars: 'Sterne',
+    repos: 'Repos',
+    openPRs: 'Offene PRs',
+    mergedPRs: 'Gemergte PRs',
+    closedPRs: 'Geschlossene PRs',
+    mergeRate: 'Merge-Rate',
+    openIssues: 'Offene Issues',
+    closedIssues: 'Geschlossene Issues',
+    followers: 'Follower',
+    contributedTo: 'Beiträge zu',
+    discussionsStarted: 'Diskussionen',
+    discussionsAnswered: 'Antworten',
+    sponsors: 'Sponsoren',
+    last365Days: 'letzte 365 Tage',
+    allTime: 'gesamt',
+    stateOpen: 'Offen',
+    stateMerged: 'Gemergt',
+    stateClosed: 'Geschlossen',
+  },
+  es: {
+    title: 'Estadísticas de GitHub de {name}',
+    topLanguages: 'Lenguajes principales',
+    shareOfBytes: '% de bytes',
+    shareOfRepos: '% de repos',
+    blended: 'combinado',
+    stars: 'Estrellas',
+    openPRs: 'PRs abiertos',
+    mergedPRs: 'PRs fusionados',
+    closedPRs: 'PRs cerrados',
+    mergeRate: 'Tasa de fusión',
+    openIssues: 'Issues abiertas',
+    closedIssues: 'Issues cerradas',
+    followers: 'Seguidores',
+    reviews: 'Revisiones ({year})',
+    contributedTo: 'Contribuyó a',
+    discussionsStarted: 'Discusiones',
+    discussionsAnswered: 'Respuestas',
+    sponsors: 'Patrocinadores',
+    last365Days: 'últimos 365 días',
+    allTime: 'todo el tiempo',
+    stateOpen: 'Abiertos',
+    stateMerged: 'Fusionados',
+    stateClosed: 'Cerrados',
+  },
+  fr: {
+    title: 'Statistiques GitHub de {name}',
+    topLanguages: 'Langages principaux',
+    shareOfBytes: '% des octets',
+    shareOfRepos: '% des dépôts',
+    blended: 'pondéré',
+    stars: 'Étoiles',
+    repos: 'Dépôts',
+    prs: 'PR',
+    openPRs: 'PR ouvertes',
+    mergedPRs: 'PR fusionnées',
+    closedPRs: 'PR fermées',
+    mergeRate: 'Taux de fusion',
+    openIssues: 'Issues ouvertes',
+    closedIssues: 'Issues fermées',
+    followers: 'Abonnés',
+    reviews: 'Revues ({year})',
+    contributedTo: 'Contributions à',
+    discussionsAnswered: 'Réponses',
+    last365Days: '365 derniers jours',
+    allTime: 'depuis toujours',
+    stateOpen: 'Ouvertes',
+    stateMerged: 'Fusionnées',
+    stateClosed: 'Fermées',
+  },
+  ja: {
+    title: '{name}のGitHub統計',
+    topLanguages: '主要言語',
+    shareOfBytes: 'バイト比',
+    shareOfRepos: 'リポジトリ比',
+    blended: '加重',
+    stars: 'スター',
+    commits: 'コミット ({window})',
+    repos: 'リポジトリ',
+    openPRs: 'オープンPR',
+    mergedPRs: 'マージ済みPR',
+    closedPRs: 'クローズ済みPR',
+    mergeRate: 'マージ率',
+    openIssues: 'オープンIssue',
+    closedIssues: 'クローズ済みIssue',
+    followers: 'フォロワー',
+    reviews: 'レビュー ({year})',
+    contributedTo: '貢献先',
+    discussionsStarted: 'ディスカッション',
+    discussionsAnswered: '回答',
+    sponsors: 'スポンサー',
+    last365Days: '過去365日',
+    allTime: '全期間',
+    stateOpen: 'オープン',
+    stateMerged: 'マージ済み',
+    stateClosed: 'クローズ済み',
+  },
+  'pt-BR': {
+    title: 'Estatísticas do GitHub de {name}',
+    topLanguages: 'Principais linguagens',
+    shareOfBytes: '% dos bytes',
+    shareOfRepos: '% dos repositórios',
+    blended: 'combinado',
+    stars: 'Estrelas',
+    repos: 'Repositórios',
+    openPRs: 'PRs abertos',
+    mergedPRs: 'PRs mesclados',
+    closedPRs: 'PRs fechados',
+    mergeRate: 'Taxa de merge',
+    openIssues: 'Issues abertas',
+    closedIssues: 'Issues fechadas',
+    followers: 'Seguidores',
+    reviews: 'Revisões ({year})',
+    contributedTo: 'Contribuiu em',
+    discussionsStarted: 'Discussões',
+    discussionsAnswered: 'Respostas',
+    sponsors: 'Patrocinadores',
+    last365Days: 'últimos 365 dias',
+    allTime: 'todo o período',
+    stateOpen: 'Abertos',
+    stateMerged: 'Mesclados',
+    stateClosed: 'Fechados',
+  },
+  'zh-CN': {
+    title: '{name} 的 GitHub 统计',
+    topLanguages: '常用语言',
+    shareOfBytes: '字节占比',
+    shareOfRepos: '仓库占比',
+    blended: '加权',
+    stars: '星标',
+    commits: '提交 ({window})',
+    issues: '议题',
+    repos: '仓库',
+    prs: '拉取请求',
+    followers: '关注者',
+    last365Days: '过去 365 天',
+    allTime: '全部时间',
+  },
+  ar: {
+    title: 'إحصائيات GitHub لـ {name}',
+    topLanguages: 'اللغات الأكثر استخدامًا',
+    shareOfBytes: '% من البايتات',
+    shareOfRepos: '% من المستودعات',
+    blended: 'مرجّح',
+    stars: 'النجوم',
+    commits: 'الإيداعات ({window})',
+    issues: 'المشكلات',
+    repos: 'المستودعات',
+    prs: 'طلبات السحب',
+    mergeRate: 'نسبة الدمج',
+    followers: 'المتابعون',
+    reviews: 'المراجعات ({year})',
+    sponsors: 'الرعاة',
+    last365Days: 'آخر 365 يومًا',
+    allTime: 'كل الأوقات',
+  },
+  he: {
+    title: 'סטטיסטיקות GitHub של {name}',
+    topLanguages: 'שפות מובילות',
+    shareOfBytes: '% מהבייטים',
+    shareOfRepos: '% מהמאגרים',
+    blended: 'משוקלל',
+    stars: 'כוכבים',
+    commits: 'קומיטים ({window})',
+    issues: 'בעיות',
+    repos: 'מאגרים',
+    prs: 'בקשות משיכה',
+    followers: 'עוקבים',
+    reviews: 'סקירות ({year})',
+    sponsors: 'נותני חסות',
+    last365Days: '365 הימים האחרונים',
+    allTime: 'כל הזמנים',
+  },
+};
+
+/** Locale tags with translations, in catalog order */
+export const SUPPORTED_LOCALES: readonly string[] = Object.keys(translations);
+
+/**
+ * Resolves a requested locale to a supported tag, case-insensitively:
+ * an exact match ("pt-br" -> "pt-BR"), else the first supported tag with
+ * the same language ("de-AT" -> "de", "pt" -> "pt-BR"). Returns null when
+ * the language is not supported.
+ */
+export function resolveLocale(requested: string): string | null {
+  const tag = requested.trim().toLowerCase().replace(/_/g, '-');
+  const language = tag.split('-')[0];
+  return (
+    SUPPORTED_LOCALES.find((locale) => locale.toLowerCase() === tag) ??
+    SUPPORTED_LOCALES.find((locale) => locale.toLowerCase().split('-')[0] === language) ??
+    null
+  );
+}
+
+/** Languages written right to left, whose cards are mirrored (see CardOptions.rtl) */
+const RTL_LANGUAGES: ReadonlySet<string> = new Set(['ar', 'he']);
+
+/** Whether a supported locale tag is written right to left */
+export function isRtlLocale(locale: string | undefined): boolean {
+  return !!locale && RTL_LANGUAGES.has(locale.split('-')[0]!.toLowerCase());
+}
+
+/**
+ * Translates a label, filling `{placeholders}` from `vars`. Keys missing
+ * from the locale fall back to its base language, then to English.
+ *
+ * @param locale - Supported tag (see resolveLocale); undefined means English
+ */
+export function translate(
+  locale: string | undefined,
+  key: TranslationKey,
+  vars: Record<string, string | number> = {}
+): string {
+  const base = locale?.split('-')[0];
+  const text =
+    (locale && translations[locale]?.[key]) || (base && translations[base]?.[key]) || en[key];
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in vars ? String(vars[name]) : match
+  );
+}
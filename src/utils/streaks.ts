@@ -0,0 +1,102 @@
+/**
+ * Contribution streak calculation.
+ * Works on calendar dates (YYYY-MM-DD) as returned by GitHub; the time
+ * zone only decides which date is "today", i.e. when a day without
+ * contributions breaks the current streak.
+ *
+ * @author Nayan Das <https://github.com/nayandas69>
+ */
+
+import type { ContributionDay, Streak, StreakStats } from '../types/index.js';
+
+/** English month abbreviations, indexed by zero-based month */
+export const MONTHS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+] as const;
+
+/** Whether `tz` is an IANA time zone name this runtime knows (e.g. "Asia/Kolkata") */
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The current calendar date (YYYY-MM-DD) in the given time zone */
+export function todayInTimeZone(tz: string, now: Date = new Date()): string {
+  // The en-CA locale formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: tz,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+/** Returns the date `n` days after `date` (both YYYY-MM-DD) */
+export function addDays(date: string, n: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+const EMPTY_STREAK: Streak = { length: 0, start: null, end: null };
+
+/**
+ * Computes total contributions and the current and longest streaks.
+ * Days after "today" in `tz` are ignored. Today without contributions
+ * does not break the current streak, since the day is not over yet.
+ *
+ * @param days - Calendar days in ascending date order
+ * @param tz   - IANA time zone deciding which date is today (default: UTC);
+ *               the days themselves are as GitHub bucketed them
+ * @param now  - Reference instant (for tests)
+ */
+export function computeStreaks(
+  days: ContributionDay[],
+  tz = 'UTC',
+  now: Date = new Date()
+): StreakStats {
+  const today = todayInTimeZone(tz, now);
+  const past = days.filter((d) => d.date <= today);
+
+  let total = 0;
+  let firstContribution: string | null = null;
+  let longest: Streak = EMPTY_STREAK;
+  let run: Streak = EMPTY_STREAK;
+
+  for (const day of past) {
+    total += day.count;
+    if (day.count <= 0) {
+      // Today is not over yet, so it cannot break the streak
+      if (day.date !== today) run = EMPTY_STREAK;
+      continue;
+    }
+    if (!firstContribution) firstContribution = day.date;
+
+    // Extend the run only if this day directly follows its last day
+    run =
+      run.end && addDays(run.end, 1) === day.date
+        ? { length: run.length + 1, start: run.start, end: day.date }
+        : { length: 1, start: day.date, end: day.date };
+    if (run.length > longest.length) longest = run;
+  }
+
+  // The run ending at the last counted day is current if it reaches yesterday or today
+  const current = run.end && run.end >= addDays(today, -1) ? run : EMPTY_STREAK;
+
+  return { total, firstContribution, current, longest, today };
+}
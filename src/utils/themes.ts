@@ -503,3 +503,36 @@ export function resolveColors(opts: {
     border: opts.border_color || base.border,
   };
 }
+
+/** Parses a 3- or 6-digit hex color (with or without "#") into RGB channels */
+function hexToRgb(color: string): [number, number, number] {
+  const hex = color.replace(/^#/, '');
+  const full = hex.length === 3 ? [...hex].map((ch) => ch + ch).join('') : hex;
+  const value = parseInt(full, 16) || 0;
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Mixes two hex colors: `t` = 0 gives `from`, `t` = 1 gives `to`.
+ * Returns a 6-digit hex string without the "#" prefix.
+ */
+export function mixColors(from: string, to: string, t: number): string {
+  const a = hexToRgb(from);
+  const b = hexToRgb(to);
+  return a
+    .map((channel, i) => Math.round(channel + (b[i]! - channel) * t))
+    .map((channel) => channel.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Builds the contribution heatmap color ramp for a theme: level 0 (no
+ * contributions) is a faint tint of the icon color over the background,
+ * levels 1-4 step up to the full icon color.
+ *
+ * @param colors - Resolved theme colors (see resolveColors)
+ * @returns Five hex colors (without "#"), from empty to busiest
+ */
+export function contributionRamp(colors: Theme): string[] {
+  return [0.12, 0.35, 0.55, 0.78, 1].map((t) => mixColors(colors.bg, colors.icon, t));
+}